@@ -0,0 +1,227 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { LAST_RUN_USAGE_KEY } from "../constants";
+import {
+    CacheEntryInfo,
+    CacheStore,
+    clearCache,
+    getCacheStats,
+    initializeCachePath,
+    listCacheEntries,
+    loadCacheEntry,
+    resolveWorkspaceCacheDir,
+} from "../services/cache";
+import { loadWorkspaceConfig, pickWorkspaceFolder } from "../services/config";
+import { LastRunUsage } from "../services/usage";
+
+const UNKNOWN_MODEL = "(unknown model)";
+const UNKNOWN_WORKSPACE = "(unknown workspace)";
+
+/**
+ * Format a byte count for display
+ * @param bytes Number of bytes
+ * @returns Size in B, KB or MB
+ */
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Show the size of the cache and the hit rate of the last run
+ * @param context VS Code extension context
+ * @param store Cache
+ */
+async function showCacheStats(context: vscode.ExtensionContext, store: CacheStore) {
+    const stats = await getCacheStats(store);
+    const lastRun = context.globalState.get<LastRunUsage>(LAST_RUN_USAGE_KEY);
+
+    const lines = [`${stats.entries} entries, ${formatBytes(stats.bytes)}`, `Location: ${stats.directory}`];
+    if (lastRun && lastRun.calls > 0) {
+        const hitRate = Math.round((lastRun.cachedCalls / lastRun.calls) * 100);
+        lines.push(
+            `Last run (${new Date(lastRun.finishedAt).toLocaleString()}): ${lastRun.cachedCalls} of ${lastRun.calls} LLM calls answered from cache (${hitRate}%)`,
+        );
+    } else {
+        lines.push("No generation run recorded yet");
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        "Agentic Wiki LLM cache",
+        { modal: true, detail: lines.join("\n") },
+        "Browse Entries",
+        "Clear Cache",
+    );
+    if (choice === "Browse Entries") {
+        await vscode.commands.executeCommand("agentic-wiki.browseCache");
+    } else if (choice === "Clear Cache") {
+        await vscode.commands.executeCommand("agentic-wiki.clearCache");
+    }
+}
+
+/**
+ * Let the user pick a value that entries are grouped by
+ * @param entries Cache entries
+ * @param getValue Value of an entry, e.g. its model
+ * @param placeHolder Quick pick placeholder
+ * @returns Keys of the entries with the picked value, undefined if cancelled
+ */
+async function pickEntryGroup(
+    entries: CacheEntryInfo[],
+    getValue: (entry: CacheEntryInfo) => string,
+    placeHolder: string,
+): Promise<{ label: string; keys: string[] } | undefined> {
+    const groups = new Map<string, string[]>();
+    for (const entry of entries) {
+        const value = getValue(entry);
+        groups.set(value, [...(groups.get(value) ?? []), entry.key]);
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        [...groups.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([label, keys]) => ({ label, description: `${keys.length} entries`, keys })),
+        { placeHolder },
+    );
+    return picked && { label: picked.label, keys: picked.keys };
+}
+
+/**
+ * Clear the whole cache, or the entries of one model or one workspace
+ * @param store Cache
+ */
+async function clearCacheEntries(store: CacheStore) {
+    const scope = await vscode.window.showQuickPick(
+        [
+            { label: "All entries", scope: "all" as const },
+            { label: "Entries of one model", scope: "model" as const },
+            { label: "Entries of one workspace", scope: "workspace" as const },
+        ],
+        { placeHolder: "Which cache entries should be removed?" },
+    );
+    if (!scope) {
+        return;
+    }
+
+    let keys: string[] | undefined;
+    let description = "all cached LLM answers";
+    if (scope.scope !== "all") {
+        const entries = await listCacheEntries(store);
+        const group =
+            scope.scope === "model"
+                ? await pickEntryGroup(entries, entry => entry.model || UNKNOWN_MODEL, "Select a model")
+                : await pickEntryGroup(entries, entry => entry.workspace || UNKNOWN_WORKSPACE, "Select a workspace");
+        if (!group) {
+            return;
+        }
+        keys = group.keys;
+        description = `${group.keys.length} cached LLM answers of ${group.label}`;
+    }
+
+    const confirmed = await vscode.window.showWarningMessage(
+        `Remove ${description}? Regenerating them calls the LLM again.`,
+        { modal: true },
+        "Remove",
+    );
+    if (confirmed !== "Remove") {
+        return;
+    }
+    const removed = await clearCache(store, keys);
+    vscode.window.showInformationMessage(`Removed ${removed} cache entries.`);
+}
+
+/**
+ * Pick a cache entry and open its prompt and response side by side
+ * @param store Cache
+ */
+async function browseCacheEntries(store: CacheStore) {
+    const entries = await listCacheEntries(store);
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage("The LLM cache is empty.");
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        entries.map(entry => ({
+            label: entry.model || UNKNOWN_MODEL,
+            description: `${entry.workspace ? path.basename(entry.workspace) : UNKNOWN_WORKSPACE} · ${formatBytes(entry.bytes)} · last used ${new Date(entry.lastUsedAt).toLocaleString()}`,
+            detail: entry.promptPreview,
+            key: entry.key,
+        })),
+        { placeHolder: `${entries.length} cached answers, most recently used first`, matchOnDetail: true },
+    );
+    if (!picked) {
+        return;
+    }
+
+    const entry = await loadCacheEntry(store, picked.key);
+    if (!entry) {
+        vscode.window.showWarningMessage("The cache entry no longer exists.");
+        return;
+    }
+    const prompt = await vscode.workspace.openTextDocument({
+        content: entry.prompt ?? "(prompt not recorded for this entry)",
+        language: "markdown",
+    });
+    const response = await vscode.workspace.openTextDocument({ content: entry.response, language: "markdown" });
+    await vscode.window.showTextDocument(prompt, { viewColumn: vscode.ViewColumn.One, preview: false });
+    await vscode.window.showTextDocument(response, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+}
+
+/**
+ * Wrap a cache command so it works on the configured cache and failures end up in an error message
+ * @param context VS Code extension context
+ * @param name What the command does, for the error message
+ * @param run Command implementation
+ * @returns Command callback
+ */
+function cacheCommand(
+    context: vscode.ExtensionContext,
+    name: string,
+    run: (store: CacheStore) => Promise<void>,
+): () => Promise<void> {
+    return async () => {
+        try {
+            // A cache in the workspace belongs to one folder's Wiki
+            const sharedConfig = loadWorkspaceConfig(context);
+            const folder =
+                sharedConfig.cacheLocation === "workspace"
+                    ? await pickWorkspaceFolder("Select the folder whose cache to use")
+                    : undefined;
+            const store = await initializeCachePath(
+                context,
+                resolveWorkspaceCacheDir(loadWorkspaceConfig(context, folder)),
+            );
+            await run(store);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
+            vscode.window.showErrorMessage(
+                `Failed to ${name}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+    };
+}
+
+export function registerCacheCommands(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "agentic-wiki.cacheStats",
+            cacheCommand(context, "show cache statistics", store => showCacheStats(context, store)),
+        ),
+        vscode.commands.registerCommand(
+            "agentic-wiki.clearCache",
+            cacheCommand(context, "clear the cache", clearCacheEntries),
+        ),
+        vscode.commands.registerCommand(
+            "agentic-wiki.browseCache",
+            cacheCommand(context, "browse the cache", browseCacheEntries),
+        ),
+    );
+}
@@ -1,18 +1,25 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
-import { GlobalConfig } from "../types";
-import { CONFIG_KEY, DEFAULT_CONFIG, OUTPUT_DIR, OPENROUTER_DEFAULT_MODEL } from "../constants";
+import { GlobalConfig, LlmProviderType } from "../types";
+import { DEFAULT_CONFIG } from "../constants";
 import { secretsManager } from "../extension";
-import { fetchAvailableModels, OpenRouterModel } from "../services/llm/llmService";
+import { loadWorkspaceConfig, pickWorkspaceFolder, saveWorkspaceConfig } from "../services/config";
+import { createLlmProvider, fetchAvailableModels } from "../services/llm";
 
 export function registerConfigCommand(context: vscode.ExtensionContext) {
     const config = vscode.commands.registerCommand("agentic-wiki.config", async () => {
         try {
+            // Project settings are kept per folder, so ask which one is being configured
+            const folder = await pickWorkspaceFolder("Select the folder to configure the Wiki of");
+
             // Create and display configuration form
-            const configPanel = new ConfigPanel(context);
+            const configPanel = new ConfigPanel(context, folder);
             configPanel.show();
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
             vscode.window.showErrorMessage(
                 `Configuration failed: ${error instanceof Error ? error.message : String(error)}`,
             );
@@ -28,19 +35,23 @@ export function registerConfigCommand(context: vscode.ExtensionContext) {
 class ConfigPanel {
     private panel: vscode.WebviewPanel;
     private context: vscode.ExtensionContext;
+    private folder?: vscode.WorkspaceFolder;
     private config: GlobalConfig;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, folder?: vscode.WorkspaceFolder) {
         this.context = context;
-        const savedConfig = context.globalState.get<GlobalConfig>(CONFIG_KEY) || {};
+        this.folder = folder;
+        const savedConfig = loadWorkspaceConfig(context, folder);
 
         // Initialize with default config and saved config
         this.config = Object.assign(
             {},
             DEFAULT_CONFIG,
-            // Filter out false values from saved config
+            // Filter out false values from saved config, zero is a valid number setting
             Object.fromEntries(
-                Object.entries(savedConfig).filter(([_, value]) => typeof value === "boolean" || !!value),
+                Object.entries(savedConfig).filter(
+                    ([_, value]) => typeof value === "boolean" || typeof value === "number" || !!value,
+                ),
             ),
         );
 
@@ -50,7 +61,9 @@ class ConfigPanel {
         // Create WebView panel
         this.panel = vscode.window.createWebviewPanel(
             "AgenticWikiConfig",
-            "Agentic Wiki Configuration",
+            folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                ? `Agentic Wiki Configuration: ${folder.name}`
+                : "Agentic Wiki Configuration",
             vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -70,7 +83,10 @@ class ConfigPanel {
                         await this.saveConfig(message.config);
                         break;
                     case "fetchModels":
-                        await this.fetchAndSendModels(message.apiKey);
+                        await this.fetchAndSendModels(message.provider, message.apiKey, message.baseUrl);
+                        break;
+                    case "changeProvider":
+                        await this.changeProvider(message.provider, message.baseUrl);
                         break;
                 }
             },
@@ -91,20 +107,22 @@ class ConfigPanel {
      */
     private async initializeApiKey() {
         try {
-            // Get API key from secure storage
-            const apiKey = await secretsManager.getApiKey();
+            // Get API key of the selected provider from secure storage
+            const provider = this.config.llmProvider;
+            const apiKey = await secretsManager.getApiKey(provider);
             this.config.llmApiKey = apiKey;
 
             // Update the webview if it's already initialized
             if (this.panel && this.panel.webview) {
                 this.panel.webview.postMessage({
                     command: "updateApiKey",
+                    provider,
                     apiKey,
                 });
 
-                // If API key is available, fetch models
-                if (apiKey) {
-                    await this.fetchAndSendModels(apiKey);
+                // If the provider can be queried, fetch models
+                if (apiKey || !createLlmProvider(provider).requiresApiKey) {
+                    await this.fetchAndSendModels(provider, apiKey, this.config.llmProviders[provider]?.baseUrl);
                 }
             }
         } catch (error) {
@@ -112,16 +130,34 @@ class ConfigPanel {
         }
     }
 
+    /**
+     * Send the stored API key and the models of a provider to the webview after the user switched providers
+     */
+    private async changeProvider(provider: LlmProviderType, baseUrl?: string) {
+        const apiKey = await secretsManager.getApiKey(provider);
+        this.panel.webview.postMessage({
+            command: "updateApiKey",
+            provider,
+            apiKey,
+        });
+        await this.fetchAndSendModels(provider, apiKey, baseUrl);
+    }
+
     /**
      * Fetch available models and send them to the webview
      */
-    private async fetchAndSendModels(apiKey: string) {
-        if (!apiKey) {
+    private async fetchAndSendModels(provider: LlmProviderType, apiKey: string, baseUrl?: string) {
+        const llmProvider = createLlmProvider(provider, baseUrl);
+        // The saved model only makes sense for the provider it was saved with
+        const savedModel = provider === this.config.llmProvider ? this.config.llmModel : "";
+        const selectedModel = savedModel || llmProvider.defaultModel;
+
+        if (!apiKey && llmProvider.requiresApiKey) {
             // If no API key, send empty models list
             this.panel.webview.postMessage({
                 command: "updateModels",
                 models: [],
-                selectedModel: this.config.llmModel || OPENROUTER_DEFAULT_MODEL,
+                selectedModel,
             });
             return;
         }
@@ -130,14 +166,14 @@ class ConfigPanel {
             // Show loading status
             vscode.window.setStatusBarMessage("Fetching available models...", 3000);
 
-            // Fetch models from OpenRouter API
-            const models = await fetchAvailableModels(apiKey);
+            // Fetch models from the provider
+            const models = await fetchAvailableModels(apiKey, provider, baseUrl);
 
             // Send models to webview
             this.panel.webview.postMessage({
                 command: "updateModels",
                 models,
-                selectedModel: this.config.llmModel || OPENROUTER_DEFAULT_MODEL,
+                selectedModel,
             });
         } catch (error) {
             console.error("Error fetching models:", error);
@@ -146,7 +182,7 @@ class ConfigPanel {
             this.panel.webview.postMessage({
                 command: "updateModels",
                 models: [],
-                selectedModel: this.config.llmModel || OPENROUTER_DEFAULT_MODEL,
+                selectedModel,
                 error: error instanceof Error ? error.message : String(error),
             });
 
@@ -163,15 +199,15 @@ class ConfigPanel {
     private async saveConfig(config: GlobalConfig) {
         console.log("Saving configuration", config);
         try {
-            // Extract API key and store it securely
+            // Extract API key and store it securely for the selected provider
             const apiKey = config.llmApiKey || "";
-            await secretsManager.storeApiKey(apiKey);
+            await secretsManager.storeApiKey(apiKey, config.llmProvider);
 
-            // Remove API key from the config object before storing in global state
-            const configWithoutApiKey = { ...config, llmApiKey: "" };
+            // Keep settings the form doesn't edit and remove API key before storing in global state
+            const configWithoutApiKey = { ...this.config, ...config, llmApiKey: "" };
 
-            // Save configuration without API key
-            await this.context.globalState.update(CONFIG_KEY, configWithoutApiKey);
+            // Save configuration without API key, the project settings only for the configured folder
+            await saveWorkspaceConfig(this.context, configWithoutApiKey, this.folder);
             vscode.window.showInformationMessage("Configuration saved");
             this.panel.dispose(); // Close panel after saving
         } catch (error) {
@@ -188,11 +224,8 @@ class ConfigPanel {
         // Convert configuration object to JSON string for form initialization
         const configJson = JSON.stringify(this.config);
 
-        // Get current workspace folder
-        let workspaceFolder = "";
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            workspaceFolder = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        }
+        // Folder being configured, the default project directory
+        const workspaceFolder = this.folder?.uri.fsPath ?? "";
 
         // Read HTML template file
         const templatePath = path.join(this.context.extensionPath, "src/templates/configTemplate.html");
@@ -1,16 +1,59 @@
 import * as vscode from "vscode";
-import { CONFIG_KEY } from "../constants";
+import * as path from "path";
+import { LAST_RUN_USAGE_KEY, USAGE_REPORT_JSON, USAGE_REPORT_MARKDOWN } from "../constants";
 import { createFlow } from "../flow";
-import { SharedStore } from "../types";
+import { NodeParams, SharedStore } from "../types";
 import { secretsManager } from "../extension";
+import { configureCache, resolveWorkspaceCacheDir } from "../services/cache";
+import { loadWorkspaceConfig, pickWorkspaceFolder } from "../services/config";
+import { saveFile } from "../services/file";
+import {
+    applyLlmMode,
+    createLlmProvider,
+    fetchModelDetails,
+    loadFixtureModelDetails,
+    resolveFixturesDir,
+    saveFixtureModelDetails,
+} from "../services/llm";
+import { LoggerService } from "../services/logger";
+import {
+    CostEstimate,
+    formatUsageReport,
+    LastRunUsage,
+    SpendLimitExceededError,
+    UsageTracker,
+} from "../services/usage";
+import {
+    detectWorkspacePackages,
+    formatWorkspaceIndex,
+    getNestedPackageExcludes,
+    getPackageWikiDir,
+    PackageWikiResult,
+    WorkspacePackage,
+} from "../services/workspace";
+import { describePackingReport, throwIfCancelled } from "../utils";
 
 export function registerGenerateCommand(context: vscode.ExtensionContext) {
-    const generate = vscode.commands.registerCommand("agentic-wiki.generate", async () => {
+    // Opening a missing Wiki passes the workspace folder it was opened for, the command palette passes nothing
+    const generate = vscode.commands.registerCommand("agentic-wiki.generate", async target => {
+        let folder: vscode.WorkspaceFolder | undefined;
+        try {
+            folder = target ?? (await pickWorkspaceFolder("Select the folder to generate the Wiki of"));
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
+            throw error;
+        }
+
         // Use progress bar to display generation process
         await vscode.window.withProgress(
             {
                 location: vscode.ProgressLocation.Notification,
-                title: "Generating Wiki page...",
+                title:
+                    folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                        ? `Generating Wiki page of ${folder.name}...`
+                        : "Generating Wiki page...",
                 cancellable: true,
             },
             async (progress, token) => {
@@ -19,6 +62,10 @@ export function registerGenerateCommand(context: vscode.ExtensionContext) {
                     return;
                 }
 
+                // Abort in-flight LLM requests as soon as the user cancels
+                const abortController = new AbortController();
+                const cancellation = token.onCancellationRequested(() => abortController.abort());
+
                 try {
                     // Initialize progress
                     progress.report({ increment: 0, message: "Initializing..." });
@@ -33,30 +80,99 @@ export function registerGenerateCommand(context: vscode.ExtensionContext) {
                     // Prepare file path
                     progress.report({ increment: 30, message: "Preparing files..." });
 
-                    // Get API key from secure storage
-                    const apiKey = await secretsManager.getApiKey();
-                    if (!apiKey) {
+                    // Settings of the selected folder, with defaults for settings added after they were saved
+                    const shared = { ...loadWorkspaceConfig(context, folder) } as SharedStore;
+                    // A relative output directory is inside the project, not the extension host's working directory
+                    shared.outputDir = path.resolve(shared.localDir, shared.outputDir);
+                    configureCache({ maxSizeMb: shared.cacheMaxSizeMb, ttlDays: shared.cacheTtlDays });
+
+                    // Fixtures of record and replay mode live next to the project unless configured elsewhere
+                    const llmFixturesDir = resolveFixturesDir(shared);
+                    const replay = shared.llmMode === "replay";
+
+                    // Get API key for the selected provider from secure storage, replay needs none
+                    const provider = shared.llmProvider;
+                    const llmProvider = applyLlmMode(
+                        createLlmProvider(provider, shared.llmProviders[provider]?.baseUrl),
+                        shared.llmMode,
+                        llmFixturesDir,
+                    );
+                    const apiKey = await secretsManager.getApiKey(provider);
+                    if (!apiKey && llmProvider.requiresApiKey) {
                         throw new Error("API key is not set. Please configure your API key in the extension settings.");
                     }
 
-                    const flow = createFlow();
-                    let shared = context.globalState.get<SharedStore>(CONFIG_KEY) || ({} as SharedStore);
+                    // Get the model from shared state or use the provider default
+                    const model = shared.llmModel || llmProvider.defaultModel;
 
-                    // Get the model from shared state or use default
-                    const model = shared.llmModel || "";
+                    // Context window and pricing of the models (including per-stage overrides),
+                    // used to fit prompts into the window and to estimate and track cost.
+                    // Replay stays offline and uses the details recorded with the fixtures so prompts come out the same
+                    const stageModels = Object.values(shared.stageModels || {}).filter((id): id is string => !!id);
+                    const llmModels = replay
+                        ? await loadFixtureModelDetails(llmFixturesDir)
+                        : await fetchModelDetails(apiKey, provider, shared.llmProviders[provider]?.baseUrl, [
+                              model,
+                              ...stageModels,
+                          ]);
+                    if (shared.llmMode === "record") {
+                        await saveFixtureModelDetails(llmFixturesDir, llmModels);
+                    }
+
+                    // Add API key, model, usage tracking and extension context to flow parameters but not to shared state
+                    // Replayed answers cost nothing, so don't price them or hold them to the spend limit
+                    const usageTracker = replay
+                        ? new UsageTracker({})
+                        : new UsageTracker(llmModels, shared.maxSpendUsd);
+                    const runParams: NodeParams = {
+                        llmApiKey: apiKey,
+                        llmModel: model,
+                        llmModels,
+                        llmFixturesDir,
+                        workspaceCacheDir: resolveWorkspaceCacheDir(shared),
+                        usageTracker,
+                        signal: abortController.signal,
+                        reportProgress: (message: string) => progress.report({ message }),
+                        context,
+                    };
 
-                    // Add API key, model, and extension context to flow parameters but not to shared state
-                    flow.setParams({ ...shared, llmApiKey: apiKey, llmModel: model, context });
-                    await flow.run(shared);
+                    // In monorepo mode every workspace package gets a Wiki of its own
+                    const packages = shared.monorepoMode ? await detectWorkspacePackages(shared.localDir) : [];
+                    if (shared.monorepoMode && packages.length === 0) {
+                        LoggerService.getInstance().info(
+                            "No workspace packages found, documenting the project as a whole",
+                        );
+                    }
+                    throwIfCancelled(abortController.signal);
+                    if (packages.length > 0) {
+                        await generatePackageWikis(shared, packages, runParams, abortController.signal);
+                    } else {
+                        const flow = createFlow(shared);
+                        flow.setParams({
+                            ...shared,
+                            ...runParams,
+                            confirmCost: async (estimate: CostEstimate) =>
+                                (await confirmCostEstimate(estimate, shared.maxSpendUsd)) !== undefined,
+                        });
+                        await waitForRun(flow.run(shared), abortController.signal);
+                    }
+                    reportPackedPrompts(shared);
+                    await reportUsage(context, shared, usageTracker);
 
                     progress.report({ increment: 30, message: "Writing files..." });
                     progress.report({ increment: 10, message: "Wiki page successfully generated!" });
                     await new Promise(resolve => setTimeout(resolve, 1000));
-                    vscode.commands.executeCommand("agentic-wiki.open");
+                    vscode.commands.executeCommand("agentic-wiki.open", folder);
                 } catch (error) {
+                    if (error instanceof vscode.CancellationError) {
+                        vscode.window.showInformationMessage("Wiki generation cancelled.");
+                        return;
+                    }
                     vscode.window.showErrorMessage(
                         `Failed to generate Wiki page: ${error instanceof Error ? error.message : String(error)}`,
                     );
+                } finally {
+                    cancellation.dispose();
                 }
             },
         );
@@ -64,3 +180,200 @@ export function registerGenerateCommand(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(generate);
 }
+
+/**
+ * Wait for a flow run to settle, so nothing of a cancelled run is left running in the background
+ * Cancelling aborts in-flight LLM requests and every node checks the signal before it starts, so a cancelled run
+ * stops at its current step and writes nothing
+ * @param run Running flow
+ * @param signal Signal aborted on cancellation
+ * @returns Result of the run
+ * @throws vscode.CancellationError if the run failed after it was cancelled, whatever error it stopped with
+ */
+async function waitForRun<T>(run: Promise<T>, signal: AbortSignal): Promise<T> {
+    try {
+        return await run;
+    } catch (error) {
+        throwIfCancelled(signal);
+        throw error;
+    }
+}
+
+/**
+ * Run the flow for every package of a monorepo, each into its own folder, and link the packages' Wikis
+ * from an index of the monorepo
+ * A package that fails is noted in the index and the other packages are still generated,
+ * cancelling or reaching the spend limit stops the whole run
+ * @param shared Shared store of the monorepo, receives the packing reports and the output directory
+ * @param packages Workspace packages
+ * @param runParams Flow parameters shared by every package
+ * @param signal Signal aborted on cancellation
+ * @throws Error if no package could be generated
+ */
+async function generatePackageWikis(
+    shared: SharedStore,
+    packages: WorkspacePackage[],
+    runParams: NodeParams,
+    signal: AbortSignal,
+) {
+    const logger = LoggerService.getInstance();
+    const rootName = shared.projectName || path.basename(path.resolve(shared.localDir));
+    const wikiDir = path.join(shared.outputDir, rootName);
+    logger.info(`Documenting ${packages.length} workspace packages: ${packages.map(pkg => pkg.name).join(", ")}`);
+
+    // Once the user confirms all packages, the remaining estimates are not shown
+    let confirmedAll = false;
+    const results: PackageWikiResult[] = [];
+    for (const pkg of packages) {
+        const packageShared: SharedStore = {
+            ...shared,
+            localDir: path.join(shared.localDir, pkg.dir),
+            projectName: pkg.name,
+            wikiDir: path.join(wikiDir, getPackageWikiDir(pkg)),
+            excludePatterns: [...shared.excludePatterns, ...getNestedPackageExcludes(pkg, packages)],
+            packingReports: undefined,
+        };
+        const flow = createFlow(packageShared);
+        flow.setParams({
+            ...packageShared,
+            ...runParams,
+            confirmCost: async (estimate: CostEstimate) => {
+                if (confirmedAll) {
+                    return true;
+                }
+                const choice = await confirmCostEstimate(estimate, shared.maxSpendUsd, pkg.name);
+                confirmedAll = choice === "Generate All Packages";
+                return choice !== undefined;
+            },
+            reportProgress: (message: string) => runParams.reportProgress?.(`${pkg.name}: ${message}`),
+        });
+
+        try {
+            await waitForRun(flow.run(packageShared), signal);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError || error instanceof SpendLimitExceededError) {
+                throw error;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn(`Failed to generate the Wiki of ${pkg.name}: ${message}`);
+            results.push({ pkg, error: message });
+            continue;
+        }
+        results.push({ pkg, summary: packageShared.relationships?.summary });
+        for (const [label, report] of Object.entries(packageShared.packingReports || {})) {
+            shared.packingReports = { ...shared.packingReports, [`${pkg.name}: ${label}`]: report };
+        }
+    }
+
+    if (results.every(result => result.error)) {
+        throw new Error(`No package could be documented: ${results[0].error}`);
+    }
+    await saveFile(path.join(wikiDir, "index.md"), formatWorkspaceIndex(rootName, results));
+    shared.finalOutputDir = wikiDir;
+}
+
+/**
+ * Show the estimated cost of a run and ask whether to go ahead
+ * @param estimate Cost estimate of the run
+ * @param maxSpendUsd Spend ceiling in dollars, 0 means no ceiling
+ * @param packageName Workspace package the run documents, also offers to confirm the remaining packages
+ * @returns The chosen button, undefined if the user declined
+ */
+async function confirmCostEstimate(
+    estimate: CostEstimate,
+    maxSpendUsd: number,
+    packageName?: string,
+): Promise<string | undefined> {
+    const stages = estimate.stages.map(
+        stage =>
+            `${stage.stage} with ${stage.model} (${stage.calls} call${stage.calls === 1 ? "" : "s"}): ~${stage.promptTokens} prompt + ~${stage.completionTokens} completion tokens, ${stage.pricingKnown ? `$${stage.cost.toFixed(4)}` : "price unknown"}`,
+    );
+    const notes = ["Estimates are rough upper bounds, cached responses are free."];
+    if (!estimate.pricingKnown) {
+        notes.push(
+            maxSpendUsd > 0
+                ? `The spend limit of $${maxSpendUsd.toFixed(2)} can't be enforced: calls to models without pricing count as free.`
+                : "Calls to models without pricing are not included in the estimate.",
+        );
+    } else if (maxSpendUsd > 0) {
+        notes.push(
+            estimate.cost > maxSpendUsd
+                ? `The estimate exceeds the spend limit of $${maxSpendUsd.toFixed(2)}, generation will stop once the limit is reached.`
+                : `Generation stops if spending reaches $${maxSpendUsd.toFixed(2)}.`,
+        );
+    }
+
+    if (packageName) {
+        notes.push("Generate All Packages skips the estimates of the remaining packages.");
+    }
+
+    const subject = packageName ? `the Wiki of ${packageName}` : "the Wiki";
+    const buttons = packageName ? ["Generate", "Generate All Packages"] : ["Generate"];
+    const detail = [...stages, "", ...notes].join("\n");
+    if (!estimate.pricingKnown) {
+        return vscode.window.showWarningMessage(
+            `The pricing of ${estimate.unpricedModels.join(", ")} is unknown, the cost of generating ${subject} can't be estimated.`,
+            { modal: true, detail },
+            ...buttons,
+        );
+    }
+    return vscode.window.showInformationMessage(
+        `Generating ${subject} with ${estimate.models.join(", ")} is estimated to cost $${estimate.cost.toFixed(4)}.`,
+        { modal: true, detail },
+        ...buttons,
+    );
+}
+
+/**
+ * Write the usage report of a run next to the generated Wiki and summarize it in a notification
+ * @param context VS Code extension context, keeps the totals for the cache statistics
+ * @param shared Shared store after the flow has run
+ * @param usageTracker Tracker that recorded the run's LLM calls
+ */
+async function reportUsage(context: vscode.ExtensionContext, shared: SharedStore, usageTracker: UsageTracker) {
+    const report = usageTracker.getReport();
+    const { total } = report;
+    const lastRunUsage: LastRunUsage = { ...total, finishedAt: report.finishedAt };
+    await context.globalState.update(LAST_RUN_USAGE_KEY, lastRunUsage);
+    const summary = `${total.calls} LLM call(s), ${total.cachedCalls} from cache, ${total.promptTokens + total.completionTokens} tokens, $${total.cost.toFixed(4)}`;
+    LoggerService.getInstance().info(`Usage: ${summary}`);
+
+    if (!shared.finalOutputDir) {
+        return;
+    }
+    const markdownPath = path.join(shared.finalOutputDir, USAGE_REPORT_MARKDOWN);
+    try {
+        await saveFile(path.join(shared.finalOutputDir, USAGE_REPORT_JSON), JSON.stringify(report, null, 2));
+        await saveFile(markdownPath, formatUsageReport(report));
+    } catch (error) {
+        // The Wiki itself was written, a missing report is not worth failing the run for
+        console.warn("WARNING", `Failed to write usage report: ${error}`);
+        return;
+    }
+
+    // Not awaited so opening the Wiki doesn't wait for the notification to be dismissed
+    vscode.window.showInformationMessage(`Wiki generated: ${summary}.`, "Show Usage").then(choice => {
+        if (choice === "Show Usage") {
+            vscode.window.showTextDocument(vscode.Uri.file(path.resolve(markdownPath)));
+        }
+    });
+}
+
+/**
+ * Tell the user which files didn't fit into the model's context window
+ * @param shared Shared store after the flow has run
+ */
+function reportPackedPrompts(shared: SharedStore) {
+    const reports = Object.entries(shared.packingReports || {});
+    if (reports.length === 0) {
+        return;
+    }
+
+    const logger = LoggerService.getInstance();
+    for (const [label, report] of reports) {
+        logger.info(describePackingReport(label, report));
+    }
+    vscode.window.showInformationMessage(
+        `Some files were outlined, truncated or omitted to fit the model's context window in ${reports.length} prompt(s). See the "Agentic Wiki" output for details.`,
+    );
+}
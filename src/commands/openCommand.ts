@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
+import { loadWorkspaceConfig, pickWorkspaceFolder } from "../services/config";
 import { getWikiPath } from "../utils";
 
 /**
@@ -13,9 +14,11 @@ async function isExtensionInstalled(extensionId: string): Promise<boolean> {
 }
 
 export function registerOpenCommand(context: vscode.ExtensionContext) {
-    const open = vscode.commands.registerCommand("agentic-wiki.open", async () => {
+    // Generation passes the folder it documented, the command palette passes nothing
+    const open = vscode.commands.registerCommand("agentic-wiki.open", async (target?: vscode.WorkspaceFolder) => {
         try {
-            const wikiPath = getWikiPath();
+            const folder = target ?? (await pickWorkspaceFolder("Select the folder whose Wiki to open"));
+            const wikiPath = getWikiPath(loadWorkspaceConfig(context, folder));
             const fileName = "index.md";
             const filePath = path.join(wikiPath, fileName);
 
@@ -28,7 +31,7 @@ export function registerOpenCommand(context: vscode.ExtensionContext) {
                 );
 
                 if (result === "Yes") {
-                    vscode.commands.executeCommand("agentic-wiki.generate");
+                    vscode.commands.executeCommand("agentic-wiki.generate", folder);
                 }
                 return;
             }
@@ -65,6 +68,9 @@ export function registerOpenCommand(context: vscode.ExtensionContext) {
                 vscode.window.setStatusBarMessage("Wiki page opened in editor", 3000);
             }
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
             vscode.window.showErrorMessage(
                 `Failed to open Wiki page: ${error instanceof Error ? error.message : String(error)}`,
             );
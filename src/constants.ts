@@ -1,13 +1,43 @@
-import { GlobalConfig } from "./types";
+import { FolderConfig, GlobalConfig, LlmProviderType, LlmStage } from "./types";
 
 export const CONFIG_KEY = "agentic-wiki.config";
+// Project settings of each workspace folder, keyed by folder path
+export const FOLDER_CONFIGS_KEY = "agentic-wiki.folderConfigs";
+// Usage totals of the last generation run, for the cache hit rate
+export const LAST_RUN_USAGE_KEY = "agentic-wiki.lastRunUsage";
 export const OUTPUT_DIR = "agentic-wiki";
+export const USAGE_REPORT_JSON = "usage.json";
+export const USAGE_REPORT_MARKDOWN = "usage.md";
 
 // OpenRouter API related constants
 export const OPENROUTER_API_URL = "https://openrouter.ai/api/v1";
 export const OPENROUTER_DEFAULT_MODEL = "deepseek/deepseek-r1:free";
 export const OPENROUTER_SIGNUP_URL = "https://openrouter.ai/keys";
 
+// Other LLM provider defaults
+export const DEFAULT_LLM_PROVIDER: LlmProviderType = "openrouter";
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = "http://localhost:8000/v1";
+export const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+
+// Flow stages that call the LLM, in the order they run
+export const LLM_STAGES: LlmStage[] = [
+    "identifyAbstractions",
+    "analyzeRelationships",
+    "orderChapters",
+    "writeChapters",
+];
+
+// Upper bound for the wait between two attempts of an LLM request
+export const LLM_RETRY_MAX_DELAY_MS = 60_000;
+
+// Context window assumed when the provider doesn't report one for the model
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+// Tokens kept free for the model's answer
+export const OUTPUT_TOKEN_RESERVE = 4_000;
+export const CHAPTER_OUTPUT_TOKEN_RESERVE = 8_000;
+// Budget for the summaries of earlier chapters in a chapter prompt
+export const PREVIOUS_CHAPTERS_TOKEN_BUDGET = 3_000;
+
 // Default inclusion patterns
 const DEFAULT_INCLUDE_PATTERNS = [
     "*.py",
@@ -66,9 +96,50 @@ const DEFAULT_EXCLUDE_PATTERNS = [
     "*.log",
 ];
 
+// Settings kept per workspace folder, the others are shared by every project
+export const FOLDER_CONFIG_KEYS: (keyof FolderConfig)[] = [
+    "localDir",
+    "projectName",
+    "outputDir",
+    "includePatterns",
+    "excludePatterns",
+    "maxFileSize",
+    "language",
+    "useCache",
+    "maxAbstractionNum",
+    "crawlMode",
+    "gitRef",
+    "monorepoMode",
+];
+
 export const DEFAULT_CONFIG: GlobalConfig = {
     llmApiKey: "",
     llmModel: OPENROUTER_DEFAULT_MODEL,
+    stageModels: {},
+    contextWindowTokens: 0,
+    llmProvider: DEFAULT_LLM_PROVIDER,
+    llmProviders: {
+        openrouter: { baseUrl: OPENROUTER_API_URL },
+        "openai-compatible": { baseUrl: OPENAI_COMPATIBLE_DEFAULT_BASE_URL },
+        ollama: { baseUrl: OLLAMA_DEFAULT_BASE_URL },
+    },
+    llmMaxRetries: 3,
+    llmRetryBaseDelayMs: 1000,
+    llmMode: "live",
+    llmFixturesDir: ".agentic-wiki/fixtures",
+    nodeMaxRetries: 3,
+    nodeRetryWait: 10,
+    maxRepairAttempts: 2,
+    confirmCostEstimate: true,
+    maxSpendUsd: 0,
+    parallelChapters: false,
+    chapterConcurrency: 4,
+    cacheMaxSizeMb: 200,
+    cacheTtlDays: 30,
+    cacheLocation: "global",
+    crawlMode: "working-tree",
+    gitRef: "HEAD",
+    monorepoMode: false,
     localDir: "",
     projectName: null,
     outputDir: OUTPUT_DIR,
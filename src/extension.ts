@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { registerGenerateCommand } from "./commands/generateCommand";
 import { registerOpenCommand } from "./commands/openCommand";
 import { registerConfigCommand } from "./commands/configCommand";
+import { registerCacheCommands } from "./commands/cacheCommands";
 import { registerEventListeners } from "./listeners";
 import { SecretsManager } from "./utils/secretsManager";
 import { LoggerService } from "./services/logger";
@@ -24,6 +25,7 @@ export async function activate(context: vscode.ExtensionContext) {
     registerGenerateCommand(context);
     registerOpenCommand(context);
     registerConfigCommand(context);
+    registerCacheCommands(context);
 
     registerEventListeners(context);
 }
@@ -1,23 +1,48 @@
 import { Flow } from "pocketflow";
-import { SharedStore } from "./types";
+import { DEFAULT_CONFIG } from "./constants";
+import { GlobalConfig, SharedStore } from "./types";
 import {
     AnalyzeRelationshipsNode,
     CombineTutorialNode,
+    EstimateCostNode,
     FetchRepoNode,
     IdentifyAbstractionsNode,
     OrderChaptersNode,
+    OutlineFilesNode,
+    ParallelWriteChaptersNode,
+    RankFilesNode,
     WriteChaptersNode,
 } from "./nodes";
 
-export function createFlow(): Flow {
-    const fetchRepoNode = new FetchRepoNode();
-    const identifyAbstractionNode = new IdentifyAbstractionsNode();
-    const analyzeRelationshipsNode = new AnalyzeRelationshipsNode();
-    const orderChaptersNode = new OrderChaptersNode();
-    const writeChaptersNode = new WriteChaptersNode();
-    const combineTutorialNode = new CombineTutorialNode();
+/**
+ * Create the wiki generation flow
+ * @param config Retry settings applied to every node doing I/O. A failed exec is re-run
+ * up to `nodeMaxRetries` times with `nodeRetryWait` seconds in between, unless the run was cancelled,
+ * hit the spend limit or failed on an LLM error no retry can fix.
+ * `parallelChapters` selects the node writing the chapters concurrently
+ * @returns Flow starting with the repository crawl
+ */
+export function createFlow({
+    nodeMaxRetries,
+    nodeRetryWait,
+    parallelChapters,
+}: Pick<GlobalConfig, "nodeMaxRetries" | "nodeRetryWait" | "parallelChapters"> = DEFAULT_CONFIG): Flow {
+    const fetchRepoNode = new FetchRepoNode(nodeMaxRetries, nodeRetryWait);
+    const rankFilesNode = new RankFilesNode();
+    const outlineFilesNode = new OutlineFilesNode();
+    const estimateCostNode = new EstimateCostNode();
+    const identifyAbstractionNode = new IdentifyAbstractionsNode(nodeMaxRetries, nodeRetryWait);
+    const analyzeRelationshipsNode = new AnalyzeRelationshipsNode(nodeMaxRetries, nodeRetryWait);
+    const orderChaptersNode = new OrderChaptersNode(nodeMaxRetries, nodeRetryWait);
+    const writeChaptersNode = parallelChapters
+        ? new ParallelWriteChaptersNode(nodeMaxRetries, nodeRetryWait)
+        : new WriteChaptersNode(nodeMaxRetries, nodeRetryWait);
+    const combineTutorialNode = new CombineTutorialNode(nodeMaxRetries, nodeRetryWait);
 
     fetchRepoNode
+        .next(rankFilesNode)
+        .next(outlineFilesNode)
+        .next(estimateCostNode)
         .next(identifyAbstractionNode)
         .next(analyzeRelationshipsNode)
         .next(orderChaptersNode)
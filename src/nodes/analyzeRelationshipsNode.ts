@@ -1,5 +1,3 @@
-import YAML from "yaml";
-import { Node } from "pocketflow";
 import {
     Abstraction,
     FileInfo,
@@ -7,13 +5,38 @@ import {
     AnalyzeRelationshipsPrepResult,
     RelationshipsResult,
     Relationship,
-    NodeParams,
 } from "../types";
-import { callLlm } from "../services/llm";
+import {
+    AbstractionDependency,
+    buildImportGraph,
+    extractSymbolOutlines,
+    findImportPath,
+    rollUpImportGraph,
+} from "../services/analysis";
+import {
+    callLlmStructured,
+    relationshipsSchema,
+    resolveContextWindow,
+    resolveLlmOptions,
+    resolveStageModel,
+} from "../services/llm";
+import { OUTPUT_TOKEN_RESERVE } from "../constants";
 import { getLanguageInstruction, getLanguageHint, getLanguageListNote } from "../utils/languageUtils";
-import { formatFileContent, formatAbstractionListing } from "../utils/fileUtils";
-
-export default class AnalyzeRelationshipsNode extends Node<SharedStore, NodeParams> {
+import { formatAbstractionListing, formatPackedFiles, getPackableOutlines } from "../utils/fileUtils";
+import {
+    describePackingReport,
+    estimateTokens,
+    getContentBudget,
+    hasPackingCuts,
+    packFiles,
+} from "../utils/tokenUtils";
+import RetryingNode from "./retryingNode";
+
+// Abstraction pairs listed as import evidence, and example file imports per pair
+const MAX_EVIDENCE_PAIRS = 40;
+const MAX_EVIDENCE_EXAMPLES = 2;
+
+export default class AnalyzeRelationshipsNode extends RetryingNode {
     /**
      * Prepare context and data needed for relationship analysis
      */
@@ -24,9 +47,10 @@ export default class AnalyzeRelationshipsNode extends Node<SharedStore, NodePara
         const language: string = shared.language || "english";
         const useCache: boolean = shared.useCache !== undefined ? shared.useCache : true;
 
-        // Create context with abstraction names, indices, descriptions, and relevant file snippets
+        // Create context with abstraction names, indices, descriptions, and relevant file outlines
         let context = "Identified Abstractions:\n";
-        const allRelevantIndices = new Set<number>();
+        // Number of abstractions referencing each file, shared files are packed first
+        const fileReferenceCounts = new Map<number, number>();
         const abstractionInfoForPrompt: Array<{ index: number; name: string }> = [];
 
         // Process each abstraction
@@ -43,24 +67,52 @@ export default class AnalyzeRelationshipsNode extends Node<SharedStore, NodePara
             abstractionInfoForPrompt.push({ index: i, name: abstr.name });
 
             // Collect all relevant file indices
-            abstr.files.forEach(idx => allRelevantIndices.add(idx));
+            abstr.files.forEach(idx => fileReferenceCounts.set(idx, (fileReferenceCounts.get(idx) || 0) + 1));
         }
 
-        // Add relevant file snippets
-        context += "\nRelevant File Snippets (Referenced by Index and Path):\n";
+        // Imports between the abstractions' files ground the relationships in the code
+        const importGraph = shared.importGraph ?? buildImportGraph(filesData);
+        const dependencies = rollUpImportGraph(
+            importGraph,
+            abstractions.map(abstr => abstr.files),
+        );
+        if (abstractions.some(abstr => abstr.files.some(idx => importGraph.analyzed[idx]))) {
+            context += `\n${this.formatImportEvidence(dependencies, abstractions, filesData)}\n`;
+        }
+
+        // Add relevant file outlines, the declarations of a file show what it offers to the others
+        context +=
+            "\nRelevant File Outlines (Declarations, Signatures and Doc Comments, Referenced by Index and Path):\n";
+
+        // Fit the outlines into what the model's window leaves after the rest of the prompt
+        const abstractionListing = formatAbstractionListing(abstractionInfoForPrompt);
+        const model = resolveStageModel(this._params, "analyzeRelationships");
+        const contextWindow = resolveContextWindow(this._params, model);
+        const promptOverhead = estimateTokens(this.buildPrompt(projectName, abstractionListing, context, language));
+        const prioritizedIndices = Array.from(fileReferenceCounts.keys()).sort(
+            (a, b) => fileReferenceCounts.get(b)! - fileReferenceCounts.get(a)! || a - b,
+        );
+        const { files: packedFiles, report } = packFiles(
+            getPackableOutlines(filesData, shared.fileOutlines ?? extractSymbolOutlines(filesData), prioritizedIndices),
+            getContentBudget(contextWindow, promptOverhead, OUTPUT_TOKEN_RESERVE),
+        );
+        if (hasPackingCuts(report)) {
+            shared.packingReports = { ...shared.packingReports, analyzeRelationships: report };
+            console.log(describePackingReport("Analyze relationships", report));
+        }
 
-        // Format file content using utility function
-        context += formatFileContent(filesData, Array.from(allRelevantIndices).sort());
+        // Format file outlines using utility function
+        context += formatPackedFiles(packedFiles);
 
         return {
             context,
-            abstractionListing: formatAbstractionListing(abstractionInfoForPrompt),
+            abstractionListing,
             projectName,
             language,
             useCache,
             numAbstractions: abstractions.length,
             apiKey: shared.llmApiKey!,
-            model: shared.llmModel,
+            model,
         };
     }
 
@@ -75,17 +127,19 @@ export default class AnalyzeRelationshipsNode extends Node<SharedStore, NodePara
         // Build prompt
         const prompt = this.buildPrompt(projectName, abstractionListing, context, language);
 
-        // Call LLM with extension context
-        const response = await callLlm(prompt, {
-            useCache,
+        // Call LLM with extension context, the answer is parsed and validated against the relationships schema
+        const result = await callLlmStructured(prompt, relationshipsSchema(numAbstractions), {
+            ...resolveLlmOptions(this._params),
+            usageTag: { node: "analyzeRelationships" },
+            // A retry means the cached answer was unusable, ask the model again and replace it
+            useCache: useCache,
+            refreshCache: this.currentRetry > 0,
             llmApiKey: prepRes.apiKey,
             context: this._params.context,
             model: prepRes.model,
+            promptTokenBudget: resolveContextWindow(this._params, prepRes.model) - OUTPUT_TOKEN_RESERVE,
         });
 
-        // Parse and validate response
-        const result = this.parseAndValidateResponse(response, numAbstractions);
-
         console.log("Project summary and relationship details generated.");
         return result;
     }
@@ -96,101 +150,72 @@ export default class AnalyzeRelationshipsNode extends Node<SharedStore, NodePara
     async post(shared: SharedStore, _: unknown, execRes: RelationshipsResult): Promise<string | undefined> {
         // Structure is now {"summary": str, "details": [{"from": int, "to": int, "label": str}]}
         // summary and label might be translated
-        shared.relationships = execRes;
+        shared.relationships = { ...execRes, details: this.flagUnverifiedRelationships(execRes.details, shared) };
         return undefined;
     }
 
-    private extractYamlFromResponse(response: string): string {
-        try {
-            return response.trim().split("```yaml")[1].split("```")[0].trim();
-        } catch (error) {
-            throw new Error(`Failed to extract YAML content from LLM response: ${response}`);
-        }
-    }
-
-    private validateRelationshipsData(data: any): boolean {
-        if (!data || typeof data !== "object") {
-            throw new Error("LLM output is not an object");
-        }
-
-        if (!("summary" in data) || !("relationships" in data)) {
-            throw new Error("LLM output is missing required keys ('summary', 'relationships')");
-        }
-
-        if (typeof data.summary !== "string") {
-            throw new Error("summary is not a string");
-        }
-
-        if (!Array.isArray(data.relationships)) {
-            throw new Error("relationships is not an array");
-        }
-
-        return true;
-    }
-
-    private validateRelationships(relationshipsData: any, numAbstractions: number): Relationship[] {
-        const validatedRelationships: Relationship[] = [];
-
-        for (const rel of relationshipsData.relationships) {
-            // Check required keys
-            if (
-                !rel ||
-                typeof rel !== "object" ||
-                !("from_abstraction" in rel) ||
-                !("to_abstraction" in rel) ||
-                !("label" in rel)
-            ) {
-                throw new Error(
-                    `Missing keys (expected from_abstraction, to_abstraction, label) in relationship item: ${JSON.stringify(rel)}`,
-                );
-            }
-
-            // Validate label is string
-            if (typeof rel.label !== "string") {
-                throw new Error(`Relationship label is not a string: ${JSON.stringify(rel)}`);
-            }
-
-            // Validate indices
-            try {
-                const fromIdx = parseInt(String(rel.from_abstraction).split("#")[0].trim());
-                const toIdx = parseInt(String(rel.to_abstraction).split("#")[0].trim());
-
-                if (!(0 <= fromIdx && fromIdx < numAbstractions) || !(0 <= toIdx && toIdx < numAbstractions)) {
-                    throw new Error(
-                        `Invalid indices in relationship: from=${fromIdx}, to=${toIdx}. Maximum index is ${numAbstractions - 1}.`,
-                    );
-                }
-
-                validatedRelationships.push({
-                    from: fromIdx,
-                    to: toIdx,
-                    label: rel.label, // Potentially translated label
-                });
-            } catch (error) {
-                throw new Error(`Failed to parse indices from relationship: ${JSON.stringify(rel)}`);
-            }
+    /**
+     * Describe the imports between abstractions for the prompt
+     * @param dependencies Imports rolled up to abstraction pairs
+     * @param abstractions Identified abstractions
+     * @param filesData Project files
+     * @returns Evidence section listing the pairs with the most imports first
+     */
+    private formatImportEvidence(
+        dependencies: AbstractionDependency[],
+        abstractions: Abstraction[],
+        filesData: FileInfo[],
+    ): string {
+        const lines = [...dependencies]
+            .sort((a, b) => b.fileImports.length - a.fileImports.length)
+            .slice(0, MAX_EVIDENCE_PAIRS)
+            .map(dependency => {
+                const examples = dependency.fileImports
+                    .slice(0, MAX_EVIDENCE_EXAMPLES)
+                    .map(([importer, imported]) => `${filesData[importer].path} -> ${filesData[imported].path}`)
+                    .join(", ");
+                return `- ${dependency.from} # ${abstractions[dependency.from].name} imports ${dependency.to} # ${abstractions[dependency.to].name}: ${dependency.fileImports.length} file imports, e.g. ${examples}`;
+            });
+        if (lines.length === 0) {
+            lines.push("- No imports were found between the files of different abstractions");
         }
-
-        return validatedRelationships;
+        return `Import Evidence (imports between the abstractions' files, found by static analysis of the code):\n${lines.join("\n")}`;
     }
 
-    private parseAndValidateResponse(response: string, numAbstractions: number): RelationshipsResult {
-        const yamlStr = this.extractYamlFromResponse(response);
+    /**
+     * Mark relationships that no import path between the two abstractions' files backs up
+     * Abstractions without a file in an analyzed language can't be checked and are left alone
+     * @param details Relationships proposed by the LLM
+     * @param shared Shared store with the abstractions, files and import graph
+     * @returns Relationships, the unbacked ones with `unverified` set
+     */
+    private flagUnverifiedRelationships(details: Relationship[], shared: SharedStore): Relationship[] {
+        const importGraph = shared.importGraph ?? buildImportGraph(shared.files);
+        const flagged = details.map(rel => {
+            const fromFiles = shared.abstractions[rel.from].files;
+            const toFiles = shared.abstractions[rel.to].files;
+            const checkable = [fromFiles, toFiles].every(files => files.some(idx => importGraph.analyzed[idx]));
+            const backed =
+                rel.from === rel.to ||
+                fromFiles.some(idx => toFiles.includes(idx)) ||
+                findImportPath(importGraph, fromFiles, toFiles) !== undefined ||
+                findImportPath(importGraph, toFiles, fromFiles) !== undefined;
+            return checkable && !backed ? { ...rel, unverified: true } : rel;
+        });
 
-        let relationshipsData: any;
-        try {
-            relationshipsData = YAML.parse(yamlStr);
-        } catch (error: any) {
-            throw new Error(`YAML parsing failed: ${error.message}\nYAML content:\n${yamlStr}`);
+        const unverified = flagged.filter(rel => rel.unverified);
+        if (unverified.length > 0) {
+            console.warn(
+                "WARNING",
+                `${unverified.length} of ${flagged.length} relationships have no backing import path: ${unverified
+                    .map(
+                        rel =>
+                            `${shared.abstractions[rel.from].name} -> ${shared.abstractions[rel.to].name} (${rel.label})`,
+                    )
+                    .join(", ")}`,
+            );
         }
-
-        this.validateRelationshipsData(relationshipsData);
-        const validatedRelationships = this.validateRelationships(relationshipsData, numAbstractions);
-
-        return {
-            summary: relationshipsData.summary,
-            details: validatedRelationships,
-        };
+        return flagged;
     }
 
     private buildPrompt(projectName: string, abstractionListing: string, context: string, language: string): string {
@@ -215,6 +240,7 @@ export default class AnalyzeRelationshipsNode extends Node<SharedStore, NodePara
           - \`to_abstraction\`: Index of the target abstraction (e.g., \`1 # AbstractionName2\`)
           - \`label\`: A brief label for the interaction **in just a few words**${langHint} (e.g., "Manages", "Inherits", "Uses").
           Ideally the relationship should be backed by one abstraction calling or passing parameters to another.
+          Use the Import Evidence: an import between two abstractions' files is strong evidence of a relationship, and relationships with no import path between them will be marked as unverified.
           Simplify the relationship and exclude those non-important ones.
 
       IMPORTANT: Make sure EVERY abstraction is involved in at least ONE relationship (either as source or target). Each abstraction index must appear at least once across all relationships.
@@ -1,8 +1,9 @@
 import fs from "fs";
 import path from "path";
-import { Node } from "pocketflow";
 
-import { SharedStore, NodeParams } from "../types";
+import { SharedStore } from "../types";
+import { throwIfCancelled } from "../utils/commonUtils";
+import RetryingNode from "./retryingNode";
 
 interface ChapterFile {
     filename: string;
@@ -15,11 +16,11 @@ interface CombineTutorialNodePrepResult {
     chapterFiles: ChapterFile[];
 }
 
-export default class CombineTutorialNode extends Node<SharedStore, NodeParams> {
+export default class CombineTutorialNode extends RetryingNode {
     async prep(shared: SharedStore): Promise<CombineTutorialNodePrepResult> {
         const projectName = shared.projectName;
         const outputBaseDir = shared.outputDir;
-        const outputPath = path.join(outputBaseDir, projectName || "tutorial");
+        const outputPath = shared.wikiDir ?? path.join(outputBaseDir, projectName || "tutorial");
 
         // Get potentially translated data
         const relationshipsData = shared.relationships; // {"summary": str, "details": [{"from": int, "to": int, "label": str}]} -> summary/label may be translated
@@ -48,7 +49,12 @@ export default class CombineTutorialNode extends Node<SharedStore, NodeParams> {
             if (edgeLabel.length > maxLabelLen) {
                 edgeLabel = edgeLabel.substring(0, maxLabelLen - 3) + "...";
             }
-            mermaidLines.push(`    ${fromNodeId} -- "${edgeLabel}" --> ${toNodeId}`); // Edge labels use potentially translated labels
+            // Relationships without an import path behind them are drawn dashed
+            mermaidLines.push(
+                rel.unverified
+                    ? `    ${fromNodeId} -.->|"${edgeLabel}"| ${toNodeId}`
+                    : `    ${fromNodeId} -- "${edgeLabel}" --> ${toNodeId}`,
+            ); // Edge labels use potentially translated labels
         }
 
         const mermaidDiagram = mermaidLines.join("\n");
@@ -63,6 +69,10 @@ export default class CombineTutorialNode extends Node<SharedStore, NodeParams> {
         indexContent += "```mermaid\n";
         indexContent += mermaidDiagram + "\n";
         indexContent += "```\n\n";
+        if (relationshipsData.details.some(rel => rel.unverified)) {
+            indexContent +=
+                "_Dashed arrows are relationships that no import between the abstractions' files backs up._\n\n";
+        }
 
         // Keep fixed strings in English
         indexContent += `## Chapters\n\n`;
@@ -112,6 +122,10 @@ export default class CombineTutorialNode extends Node<SharedStore, NodeParams> {
     async exec(prepRes: CombineTutorialNodePrepResult): Promise<string> {
         const { outputPath, indexContent, chapterFiles } = prepRes;
 
+        // Everything below is written synchronously, so checking once here means a cancelled run
+        // leaves either no output at all or a complete Wiki
+        throwIfCancelled(this._params.signal);
+
         console.log(`Combining tutorial into directory: ${outputPath}`);
         // Use fs.promises to ensure directory creation is done asynchronously
         fs.mkdirSync(outputPath, { recursive: true });
@@ -0,0 +1,54 @@
+import * as vscode from "vscode";
+import { LLM_STAGES } from "../constants";
+import { resolveContextWindow, resolveStageModel } from "../services/llm";
+import { CostEstimate, CostEstimateInput, estimateRunCost, StageModel } from "../services/usage";
+import { LlmStage, SharedStore } from "../types";
+import { throwIfCancelled } from "../utils/commonUtils";
+import RetryingNode from "./retryingNode";
+
+export default class EstimateCostNode extends RetryingNode {
+    async prep(shared: SharedStore): Promise<CostEstimateInput> {
+        const stageModels = {} as Record<LlmStage, StageModel>;
+        for (const stage of LLM_STAGES) {
+            const model = resolveStageModel(this._params, stage) || "";
+            stageModels[stage] = {
+                model,
+                modelDetails: this._params.llmModels?.[model],
+                contextWindow: resolveContextWindow(this._params, model),
+            };
+        }
+        return {
+            files: shared.files,
+            fileOutlines: shared.fileOutlines,
+            stageModels,
+            maxAbstractionNum: shared.maxAbstractionNum,
+        };
+    }
+
+    async exec(input: CostEstimateInput): Promise<CostEstimate> {
+        const estimate = estimateRunCost(input);
+        console.log(
+            `Estimated usage: ${estimate.promptTokens} prompt + ${estimate.completionTokens} completion tokens, $${estimate.cost.toFixed(4)}`,
+        );
+        return estimate;
+    }
+
+    async post(shared: SharedStore, _: unknown, estimate: CostEstimate): Promise<string | undefined> {
+        shared.costEstimate = estimate;
+
+        // Ask here rather than in exec so node retries never show the dialog twice.
+        // Free runs (local models, free tiers, replayed fixtures) go ahead without asking, a run of unknown cost
+        // isn't known to be free. The spend limit can't hold without prices, so such a run is asked about anyway
+        const askAboutEstimate = shared.confirmCostEstimate && (estimate.cost > 0 || !estimate.pricingKnown);
+        const askAboutSpendLimit = !estimate.pricingKnown && shared.maxSpendUsd > 0;
+        if (shared.llmMode !== "replay" && (askAboutEstimate || askAboutSpendLimit) && this._params.confirmCost) {
+            // The estimate may have taken a while, don't ask about a run the user already cancelled
+            throwIfCancelled(this._params.signal);
+            const confirmed = await this._params.confirmCost(estimate);
+            if (!confirmed) {
+                throw new vscode.CancellationError();
+            }
+        }
+        return undefined;
+    }
+}
@@ -1,39 +1,108 @@
 import path from "path";
-import { Node } from "pocketflow";
-import { crawlLocalFiles } from "../services/file";
-import { FileInfo, SharedStore, NodeParams } from "../types";
+import { CrawlProgress, CrawlResult, crawlGitFiles, crawlLocalFiles } from "../services/file";
+import { tryResolveHead } from "../services/git";
+import { FileInfo, SharedStore } from "../types";
+import RetryingNode from "./retryingNode";
 
-export default class FetchRepoNode extends Node<SharedStore, NodeParams> {
+const PROGRESS_REPORT_INTERVAL_MS = 250;
+
+interface FetchRepoResult {
+    files: FileInfo[];
+    sourceCommit?: string;
+}
+
+export default class FetchRepoNode extends RetryingNode {
     async prep(shared: SharedStore): Promise<SharedStore> {
-        // Read repo from shared
-        const projectName = path.basename(path.resolve(shared.localDir));
-        shared.projectName = projectName;
+        // Name the project after its directory unless a name was configured
+        shared.projectName = shared.projectName || path.basename(path.resolve(shared.localDir));
         return shared;
     }
 
-    async exec(preRes: SharedStore): Promise<FileInfo[]> {
-        console.log(`Fetching directory: ${preRes.localDir}...`);
+    async exec(preRes: SharedStore): Promise<FetchRepoResult> {
+        console.log(`Fetching directory: ${preRes.localDir} (${preRes.crawlMode})...`);
         try {
-            const result = crawlLocalFiles(
-                preRes.localDir,
-                preRes.includePatterns,
-                preRes.excludePatterns,
-                preRes.maxFileSize * 1024,
-            );
+            const excludePatterns = [...preRes.excludePatterns, ...this.getOutputExcludePatterns(preRes)];
+            const options = { signal: this._params.signal, onProgress: this.createProgressReporter() };
+            let result: CrawlResult;
+            let sourceCommit: string | undefined;
+            if (preRes.crawlMode === "tracked" || preRes.crawlMode === "ref") {
+                const gitResult = await crawlGitFiles(
+                    preRes.localDir,
+                    preRes.crawlMode === "ref" ? { mode: "ref", ref: preRes.gitRef || "HEAD" } : { mode: "tracked" },
+                    preRes.includePatterns,
+                    excludePatterns,
+                    preRes.maxFileSize * 1024,
+                    options,
+                );
+                result = gitResult;
+                sourceCommit = gitResult.commit;
+            } else {
+                result = await crawlLocalFiles(
+                    preRes.localDir,
+                    preRes.includePatterns,
+                    excludePatterns,
+                    preRes.maxFileSize * 1024,
+                    true,
+                    options,
+                );
+                // The working tree may have uncommitted changes, HEAD is still the closest commit
+                sourceCommit = await tryResolveHead(preRes.localDir);
+            }
             if (result.files.length === 0) {
                 throw new Error(`No files found in directory: ${preRes.localDir}`);
             }
-            console.log(`Fetched ${result.files.length} files.`);
-            return result.files;
+            console.log(
+                `Fetched ${result.files.length} files${sourceCommit ? ` at commit ${sourceCommit}` : ""}, skipped ${result.skipped.length}.`,
+            );
+            return { files: result.files, sourceCommit };
         } catch (error) {
             console.error(`Error fetching files: ${error instanceof Error ? error.message : String(error)}`);
             throw error;
         }
     }
 
-    async post(shared: SharedStore, _: unknown, execRes: FileInfo[]): Promise<string | undefined> {
+    /**
+     * Forward crawl progress to the progress notification, at most a few times per second
+     * @returns Progress callback for the crawler
+     */
+    private createProgressReporter(): ((progress: CrawlProgress) => void) | undefined {
+        const reportProgress = this._params.reportProgress;
+        if (!reportProgress) {
+            return undefined;
+        }
+        let lastReportAt = 0;
+        return progress => {
+            if (Date.now() - lastReportAt < PROGRESS_REPORT_INTERVAL_MS) {
+                return;
+            }
+            lastReportAt = Date.now();
+            const skipped = Object.values(progress.skipped).reduce((sum, count) => sum + count, 0);
+            reportProgress(
+                `Scanning files: ${progress.scanned} scanned, ${progress.included} included, ${skipped} skipped`,
+            );
+        };
+    }
+
+    /**
+     * Keep the generated Wiki (and a workspace cache inside it) out of the crawl
+     * Otherwise every run would document the previous run's output, and prompts would never repeat
+     * @param shared Shared store with the project and output directories
+     * @returns Exclude pattern for the output directory, none if it lies outside the project
+     * The directory itself is excluded, since "dir/*" would not match the dot directory of the cache
+     */
+    private getOutputExcludePatterns(shared: SharedStore): string[] {
+        const localDir = path.resolve(shared.localDir);
+        const relativeOutputDir = path.relative(localDir, path.resolve(localDir, shared.outputDir));
+        if (!relativeOutputDir || relativeOutputDir.startsWith("..") || path.isAbsolute(relativeOutputDir)) {
+            return [];
+        }
+        return [relativeOutputDir.split(path.sep).join("/")];
+    }
+
+    async post(shared: SharedStore, _: unknown, execRes: FetchRepoResult): Promise<string | undefined> {
         // Store the repo in shared
-        shared.files = execRes;
+        shared.files = execRes.files;
+        shared.sourceCommit = execRes.sourceCommit;
         return undefined;
     }
 }
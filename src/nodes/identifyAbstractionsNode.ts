@@ -1,12 +1,40 @@
-import { Node } from "pocketflow";
-import YAML from "yaml";
-
-import { Abstraction, FileInfo, IdentifyAbstractionsPrepResult, SharedStore, NodeParams } from "../types";
-import { callLlm } from "../services/llm";
+import {
+    Abstraction,
+    FileInfo,
+    HierarchicalIdentification,
+    IdentifyAbstractionsBatch,
+    IdentifyAbstractionsPrepResult,
+    SharedStore,
+    PackedFile,
+    PackingReport,
+} from "../types";
+import {
+    abstractionMergeSchema,
+    abstractionsSchema,
+    callLlmStructured,
+    resolveContextWindow,
+    resolveLlmOptions,
+    resolveStageModel,
+} from "../services/llm";
+import { batchFilesByDirectory, extractSymbolOutlines } from "../services/analysis";
+import { OUTPUT_TOKEN_RESERVE } from "../constants";
 import { getLanguageInstruction, getLanguageHint } from "../utils/languageUtils";
-import { formatAbstractionListing } from "../utils/fileUtils";
-
-export default class IdentifyAbstractionsNode extends Node<SharedStore, NodeParams> {
+import { formatAbstractionListing, getPackableOutlines, getPackModeNote } from "../utils/fileUtils";
+import {
+    describePackingReport,
+    estimateTokens,
+    getContentBudget,
+    hasPackingCuts,
+    packFiles,
+} from "../utils/tokenUtils";
+import RetryingNode from "./retryingNode";
+
+// Directories named in the prompt of a batch, the rest are counted
+const MAX_BATCH_DIRECTORIES_SHOWN = 5;
+// Files named per candidate in a merge prompt
+const MAX_CANDIDATE_FILES_SHOWN = 8;
+
+export default class IdentifyAbstractionsNode extends RetryingNode {
     // Build LLM context and parameters
     async prep(shared: SharedStore): Promise<IdentifyAbstractionsPrepResult> {
         const filesData: FileInfo[] = shared.files || [];
@@ -19,37 +47,60 @@ export default class IdentifyAbstractionsNode extends Node<SharedStore, NodePara
             throw new Error("Cannot identify abstractions because there is no file data.");
         }
 
-        const { context, fileInfo } = this.createLlmContext(filesData);
+        const fileInfo = filesData.map((file, index) => ({ index, path: file.path }));
         const fileListingForPrompt = formatAbstractionListing(fileInfo);
-
-        return {
-            context,
-            fileListingForPrompt,
+        const outlines = shared.fileOutlines ?? extractSymbolOutlines(filesData);
+        const rankedIndices = shared.fileRanks?.map(({ index }) => index) ?? fileInfo.map(({ index }) => index);
+
+        // Fit file outlines into what the model's window leaves after the rest of the prompt, most important
+        // files first
+        const model = resolveStageModel(this._params, "identifyAbstractions");
+        const contextWindow = resolveContextWindow(this._params, model);
+        const promptOverhead = estimateTokens(
+            this.buildPrompt(projectName, "", language, maxAbstractionNum, fileListingForPrompt),
+        );
+        const { files: packedFiles, report } = packFiles(
+            getPackableOutlines(filesData, outlines, rankedIndices),
+            getContentBudget(contextWindow, promptOverhead, OUTPUT_TOKEN_RESERVE),
+        );
+
+        const common = {
             fileCount: filesData.length,
             projectName,
             language,
             useCache,
             maxAbstractionNum,
             apiKey: shared.llmApiKey,
-            model: shared.llmModel,
+            model,
         };
+        if (!hasPackingCuts(report)) {
+            return { ...common, context: this.createLlmContext(packedFiles), fileListingForPrompt };
+        }
+
+        // The codebase doesn't fit one prompt: identify candidates directory by directory, then merge them
+        const hierarchy = this.prepareHierarchy(shared, outlines, rankedIndices, contextWindow);
+        console.log(
+            `Codebase too large for one prompt, identifying abstractions in ${hierarchy.batches.length} batches`,
+        );
+        return { ...common, context: "", fileListingForPrompt: "", hierarchy };
     }
 
     // Call LLM to identify abstractions and validate results
     async exec(preRes: IdentifyAbstractionsPrepResult): Promise<Abstraction[]> {
-        const { context, fileListingForPrompt, fileCount, projectName, language, useCache, maxAbstractionNum } = preRes;
+        const { context, fileListingForPrompt, fileCount, projectName, language, maxAbstractionNum } = preRes;
+        if (preRes.hierarchy) {
+            return this.identifyHierarchically(preRes, preRes.hierarchy);
+        }
+
         console.log("Using LLM to identify abstractions...");
         const prompt = this.buildPrompt(projectName, context, language, maxAbstractionNum, fileListingForPrompt);
 
         // Pass the extension context from flow parameters if available
-        const response = await callLlm(prompt, {
-            useCache,
-            llmApiKey: preRes.apiKey,
-            context: this._params.context,
-            model: preRes.model,
-        });
-
-        const validatedAbstractions = this.parseAndValidateResponse(response, fileCount);
+        const validatedAbstractions = await callLlmStructured(
+            prompt,
+            abstractionsSchema(fileCount),
+            this.llmOptions(preRes),
+        );
 
         console.log(`Identified ${validatedAbstractions.length} abstractions.`);
         return validatedAbstractions;
@@ -61,41 +112,251 @@ export default class IdentifyAbstractionsNode extends Node<SharedStore, NodePara
         return undefined;
     }
 
-    private createLlmContext(filesData: FileInfo[]) {
-        const contextParts: string[] = [];
-        const fileInfo: Array<{ index: number; path: string }> = [];
+    private llmOptions(preRes: IdentifyAbstractionsPrepResult) {
+        return {
+            ...resolveLlmOptions(this._params),
+            usageTag: { node: "identifyAbstractions" },
+            // A retry means the cached answer was unusable, ask the model again and replace it
+            useCache: preRes.useCache,
+            refreshCache: this.currentRetry > 0,
+            llmApiKey: preRes.apiKey,
+            context: this._params.context,
+            model: preRes.model,
+            promptTokenBudget: resolveContextWindow(this._params, preRes.model) - OUTPUT_TOKEN_RESERVE,
+        };
+    }
 
-        filesData.forEach((file, index) => {
-            contextParts.push(`--- File Index ${index}: ${file.path} ---\n${file.content}\n\n`);
-            fileInfo.push({ index, path: file.path });
+    /**
+     * Group the files by directory into batches that each fit one prompt, and pack their outlines
+     */
+    private prepareHierarchy(
+        shared: SharedStore,
+        outlines: string[],
+        rankedIndices: number[],
+        contextWindow: number,
+    ): HierarchicalIdentification {
+        const projectName = shared.projectName || "Unknown Project";
+        const language = shared.language || "english";
+        const maxAbstractionNum = shared.maxAbstractionNum || 10;
+        const filesData = shared.files;
+
+        // A file takes its outline, its header and its line in the file listing
+        const batchOverhead = estimateTokens(
+            this.buildPrompt(projectName, "", language, maxAbstractionNum, "", this.describeBatch([""])),
+        );
+        const batchBudget = getContentBudget(contextWindow, batchOverhead, OUTPUT_TOKEN_RESERVE);
+        const fileBatches = batchFilesByDirectory(
+            filesData.map((file, index) => ({
+                index,
+                path: file.path,
+                tokens:
+                    estimateTokens(outlines[index]) + 2 * estimateTokens(`--- File Index ${index}: ${file.path} ---`),
+            })),
+            batchBudget,
+        );
+
+        const rankPositions = new Map(rankedIndices.map((index, position) => [index, position]));
+        const combinedReport: PackingReport = {
+            budgetTokens: 0,
+            usedTokens: 0,
+            truncated: [],
+            outlined: [],
+            omitted: [],
+        };
+        const batches = fileBatches.map((fileBatch): IdentifyAbstractionsBatch => {
+            const fileListingForPrompt = formatAbstractionListing(
+                fileBatch.indices.map(index => ({ index, path: filesData[index].path })),
+            );
+            const promptOverhead = estimateTokens(
+                this.buildPrompt(
+                    projectName,
+                    "",
+                    language,
+                    maxAbstractionNum,
+                    fileListingForPrompt,
+                    this.describeBatch(fileBatch.directories),
+                ),
+            );
+            const prioritizedIndices = [...fileBatch.indices].sort(
+                (a, b) => (rankPositions.get(a) ?? a) - (rankPositions.get(b) ?? b),
+            );
+            const { files: packedFiles, report } = packFiles(
+                getPackableOutlines(filesData, outlines, prioritizedIndices),
+                getContentBudget(contextWindow, promptOverhead, OUTPUT_TOKEN_RESERVE),
+            );
+            combinedReport.budgetTokens += report.budgetTokens;
+            combinedReport.usedTokens += report.usedTokens;
+            combinedReport.truncated.push(...report.truncated);
+            combinedReport.outlined.push(...report.outlined);
+            combinedReport.omitted.push(...report.omitted);
+            return {
+                directories: fileBatch.directories,
+                context: this.createLlmContext(packedFiles),
+                fileListingForPrompt,
+                fileIndices: fileBatch.indices,
+            };
         });
+        // Only files too large for a batch of their own are cut
+        if (hasPackingCuts(combinedReport)) {
+            shared.packingReports = { ...shared.packingReports, identifyAbstractions: combinedReport };
+            console.log(describePackingReport("Identify abstractions", combinedReport));
+        }
 
         return {
-            context: contextParts.join(""),
-            fileInfo,
+            batches,
+            filePaths: filesData.map(file => file.path),
+            mergeBudgetTokens: getContentBudget(
+                contextWindow,
+                estimateTokens(this.buildMergePrompt(projectName, "", language, maxAbstractionNum)),
+                OUTPUT_TOKEN_RESERVE,
+            ),
         };
     }
 
+    /**
+     * Identify candidate abstractions batch by batch and merge them into the final abstractions
+     * Candidates keep the global indices of their files, the merge only picks candidates, so file
+     * indices never go through the model twice
+     */
+    private async identifyHierarchically(
+        preRes: IdentifyAbstractionsPrepResult,
+        hierarchy: HierarchicalIdentification,
+    ): Promise<Abstraction[]> {
+        const { fileCount, projectName, language, maxAbstractionNum } = preRes;
+        const candidates: Abstraction[] = [];
+        for (const [i, batch] of hierarchy.batches.entries()) {
+            const part = this.describeBatch(batch.directories);
+            console.log(
+                `Using LLM to identify candidate abstractions in batch ${i + 1}/${hierarchy.batches.length}...`,
+            );
+            const prompt = this.buildPrompt(
+                projectName,
+                batch.context,
+                language,
+                maxAbstractionNum,
+                batch.fileListingForPrompt,
+                part,
+            );
+            candidates.push(
+                ...(await callLlmStructured(
+                    prompt,
+                    abstractionsSchema(fileCount, new Set(batch.fileIndices)),
+                    this.llmOptions(preRes),
+                )),
+            );
+        }
+        console.log(`Identified ${candidates.length} candidate abstractions.`);
+        if (hierarchy.batches.length === 1) {
+            return candidates;
+        }
+
+        // Merge in rounds while the candidate listing is larger than one prompt. Every group holds at least
+        // twice as many candidates as a merge returns, so each round shrinks the pool
+        let pool = candidates;
+        for (;;) {
+            const groups: number[][] = [];
+            let groupTokens = 0;
+            pool.forEach((candidate, i) => {
+                const tokens = estimateTokens(this.formatCandidate(candidate, i, hierarchy.filePaths));
+                const group = groups[groups.length - 1];
+                if (
+                    !group ||
+                    (groupTokens + tokens > hierarchy.mergeBudgetTokens && group.length >= 2 * maxAbstractionNum)
+                ) {
+                    groups.push([i]);
+                    groupTokens = tokens;
+                } else {
+                    group.push(i);
+                    groupTokens += tokens;
+                }
+            });
+
+            const merged: Abstraction[] = [];
+            for (const group of groups) {
+                console.log(`Using LLM to merge ${group.length} candidate abstractions...`);
+                const groupCandidates = group.map(i => pool[i]);
+                const listing = groupCandidates
+                    .map((candidate, i) => this.formatCandidate(candidate, i, hierarchy.filePaths))
+                    .join("\n");
+                const merges = await callLlmStructured(
+                    this.buildMergePrompt(projectName, listing, language, maxAbstractionNum),
+                    abstractionMergeSchema(groupCandidates.length),
+                    this.llmOptions(preRes),
+                );
+                // Intermediate rounds must shrink the pool, the final merge is taken as answered
+                merged.push(
+                    ...(groups.length > 1 ? merges.slice(0, maxAbstractionNum) : merges).map(merge => ({
+                        name: merge.name,
+                        description: merge.description,
+                        files: [...new Set(merge.candidates.flatMap(i => groupCandidates[i].files))].sort(
+                            (a, b) => a - b,
+                        ),
+                    })),
+                );
+            }
+            if (groups.length === 1) {
+                console.log(`Identified ${merged.length} abstractions.`);
+                return merged;
+            }
+            pool = merged;
+        }
+    }
+
+    /**
+     * Name the directories of a batch for its prompt
+     */
+    private describeBatch(directories: string[]): string {
+        const names = directories.map(dir => (dir ? `${dir}/` : "files at the project root"));
+        const shown = names.slice(0, MAX_BATCH_DIRECTORIES_SHOWN).join(", ");
+        return names.length > MAX_BATCH_DIRECTORIES_SHOWN
+            ? `${shown} and ${names.length - MAX_BATCH_DIRECTORIES_SHOWN} more directories`
+            : shown;
+    }
+
+    private formatCandidate(candidate: Abstraction, index: number, filePaths: string[]): string {
+        const paths = candidate.files.slice(0, MAX_CANDIDATE_FILES_SHOWN).map(i => filePaths[i]);
+        const more =
+            candidate.files.length > MAX_CANDIDATE_FILES_SHOWN
+                ? ` and ${candidate.files.length - MAX_CANDIDATE_FILES_SHOWN} more`
+                : "";
+        const description = candidate.description.replace(/\s+/g, " ");
+        return `- ${index} # ${candidate.name.replace(/\s+/g, " ")}\n  Description: ${description}\n  Files: ${paths.join(", ")}${more}`;
+    }
+
+    private createLlmContext(packedFiles: PackedFile[]): string {
+        return packedFiles
+            .map(
+                file =>
+                    `--- File Index ${file.index}: ${file.path}${getPackModeNote(file.mode)} ---\n${file.content}\n\n`,
+            )
+            .join("");
+    }
+
     private buildPrompt(
         projectName: string,
         context: string,
         language: string,
         maxAbstractionNum: number,
         fileListingForPrompt: string,
+        part?: string,
     ): string {
         // Use utility functions for language handling
         const languageInstruction = getLanguageInstruction(language, ["name", "description"]);
         const nameLangHint = getLanguageHint(language, " (value in");
         const descLangHint = getLanguageHint(language, " (value in");
+        const task = part
+            ? `The codebase is too large to analyze at once, this is one part of it: ${part}.
+Identify up to ${maxAbstractionNum} candidate abstractions in this part, they are merged with the candidates of the other parts afterwards.`
+            : `Identify the top 5-${maxAbstractionNum} core most important abstractions to help those new to the codebase.`;
 
         return `
 For the project \`${projectName}\`:
 
-Codebase Context:
+Codebase Context (outlines of the files: their declarations, signatures and doc comments):
 ${context}
 
 ${languageInstruction}Analyze the codebase context.
-Identify the top 5-${maxAbstractionNum} core most important abstractions to help those new to the codebase.
+${task}
 
 For each abstraction, provide:
 1. A concise \`name\`${nameLangHint}.
@@ -126,98 +387,45 @@ Format the output as a YAML list of dictionaries:
 \`\`\``;
     }
 
-    private parseAndValidateResponse(response: string, fileCount: number): Abstraction[] {
-        let yamlStr = "";
-        try {
-            yamlStr = response.trim().split("```yaml")[1].split("```")[0].trim();
-        } catch (error) {
-            throw new Error(`Unable to extract YAML content from LLM response: ${response}`);
-        }
-
-        let rawAbstractions: any;
-        try {
-            rawAbstractions = YAML.parse(yamlStr);
-        } catch (error: any) {
-            throw new Error(`YAML parsing failed: ${error.message}\nYAML content:\n${yamlStr}`);
-        }
-
-        if (!Array.isArray(rawAbstractions)) {
-            throw new Error(`LLM output is not a list (array). Actual type: ${typeof rawAbstractions}`);
-        }
-
-        return this.validateAbstractions(rawAbstractions, fileCount);
-    }
-
-    private validateAbstractions(rawAbstractions: any[], fileCount: number): Abstraction[] {
-        const validatedAbstractions: Abstraction[] = [];
+    private buildMergePrompt(
+        projectName: string,
+        candidateListing: string,
+        language: string,
+        maxAbstractionNum: number,
+    ): string {
+        const languageInstruction = getLanguageInstruction(language, ["name", "description"]);
+        const nameLangHint = getLanguageHint(language, " (value in");
+        const descLangHint = getLanguageHint(language, " (value in");
 
-        for (const item of rawAbstractions) {
-            if (typeof item !== "object" || item === null) {
-                console.warn(`Skipping invalid abstraction item (not an object): ${JSON.stringify(item)}`);
-                continue;
-            }
+        return `
+For the project \`${projectName}\`:
 
-            if (
-                !item.name ||
-                typeof item.name !== "string" ||
-                !item.description ||
-                typeof item.description !== "string" ||
-                !item.file_indices ||
-                !Array.isArray(item.file_indices)
-            ) {
-                throw new Error(
-                    `Abstraction item missing required keys (name, description, file_indices) or type error: ${JSON.stringify(item)}`,
-                );
-            }
+The codebase was too large to analyze at once, so candidate abstractions were identified in parts of it.
+Candidates found in different parts may describe the same concept.
 
-            const validatedIndices = this.validateFileIndices(item.file_indices, fileCount, item.name);
+Candidate Abstractions:
+${candidateListing}
 
-            validatedAbstractions.push({
-                name: item.name.trim(),
-                description: item.description.trim(),
-                files: validatedIndices,
-            });
-        }
+${languageInstruction}Merge the candidates into the top 5-${maxAbstractionNum} core most important abstractions to help those new to the codebase.
+Candidates describing the same concept become one abstraction. A candidate too minor to explain on its own can be merged into a related abstraction or left out.
 
-        if (validatedAbstractions.length === 0 && rawAbstractions.length > 0) {
-            throw new Error("All abstraction items returned from LLM are invalid.");
-        }
-
-        return validatedAbstractions;
-    }
+For each abstraction, provide:
+1. A concise \`name\`${nameLangHint}.
+2. A beginner-friendly \`description\` explaining what it is with a simple analogy, in around 100 words${descLangHint}.
+3. A list of the \`candidate_indices\` (integers) it is made of, using the format \`idx # candidate name\`.
 
-    private validateFileIndices(rawIndices: any[], fileCount: number, abstractionName: string): number[] {
-        const validatedIndices: Set<number> = new Set(); // Use Set to remove duplicates
-
-        for (const idxEntry of rawIndices) {
-            let idx: number | null = null;
-            try {
-                if (typeof idxEntry === "number") {
-                    idx = idxEntry;
-                } else if (typeof idxEntry === "string") {
-                    // Try to match "number # comment" or just number
-                    const match = idxEntry.match(/^\s*(\d+)/);
-                    if (match) {
-                        idx = parseInt(match[1], 10);
-                    } else {
-                        throw new Error(`Cannot parse index from string '${idxEntry}'`);
-                    }
-                } else {
-                    throw new Error(`Invalid index entry type: ${typeof idxEntry}`);
-                }
+Format the output as a YAML list of dictionaries:
 
-                if (idx === null || isNaN(idx) || idx < 0 || idx >= fileCount) {
-                    throw new Error(`Invalid file index ${idx}. Valid range is 0 to ${fileCount - 1}.`);
-                }
-                validatedIndices.add(idx);
-            } catch (error: any) {
-                // Wrap error message, provide more context
-                throw new Error(
-                    `Failed to parse file index for abstraction "${abstractionName}": entry '${idxEntry}', error: ${error.message}`,
-                );
-            }
-        }
-        // Sort and convert to array
-        return Array.from(validatedIndices).sort((a, b) => a - b);
+\`\`\`yaml
+- name: |
+    Query Processing${nameLangHint}
+  description: |
+    Explains what the abstraction does.
+    It's like a central dispatcher routing requests.${descLangHint}
+  candidate_indices:
+    - 0 # Query Parser
+    - 7 # Request Router
+# ... up to ${maxAbstractionNum} abstractions
+\`\`\``;
     }
 }
@@ -1,6 +1,10 @@
 export { default as FetchRepoNode } from "./fetchRepoNode";
+export { default as RankFilesNode } from "./rankFilesNode";
+export { default as OutlineFilesNode } from "./outlineFilesNode";
+export { default as EstimateCostNode } from "./estimateCostNode";
 export { default as IdentifyAbstractionsNode } from "./identifyAbstractionsNode";
 export { default as AnalyzeRelationshipsNode } from "./analyzeRelationshipsNode";
 export { default as OrderChaptersNode } from "./orderChaptersNode";
 export { default as WriteChaptersNode } from "./writeChaptersNode";
+export { default as ParallelWriteChaptersNode } from "./parallelWriteChaptersNode";
 export { default as CombineTutorialNode } from "./combineTutorialNode";
@@ -1,11 +1,17 @@
-import { Node } from "pocketflow";
-import YAML from "yaml";
-import { callLlm } from "../services/llm";
-import { ChapterOrderPreResult, SharedStore, NodeParams } from "../types";
+import { OUTPUT_TOKEN_RESERVE } from "../constants";
+import {
+    callLlmStructured,
+    chapterOrderSchema,
+    resolveContextWindow,
+    resolveLlmOptions,
+    resolveStageModel,
+} from "../services/llm";
+import { ChapterOrderPreResult, SharedStore } from "../types";
 import { getLanguageListNote, capitalizeFirstLetter } from "../utils/languageUtils";
 import { formatAbstractionListing } from "../utils/fileUtils";
+import RetryingNode from "./retryingNode";
 
-export default class OrderChaptersNode extends Node<SharedStore, NodeParams> {
+export default class OrderChaptersNode extends RetryingNode {
     async prep(shared: SharedStore): Promise<ChapterOrderPreResult> {
         const abstractions = shared.abstractions; // Names/descriptions may be translated
         const relationships = shared.relationships; // Summary/labels may be translated
@@ -46,7 +52,7 @@ export default class OrderChaptersNode extends Node<SharedStore, NodeParams> {
             listLangNote,
             useCache,
             apiKey,
-            model: shared.llmModel,
+            model: resolveStageModel(this._params, "orderChapters"),
         };
     }
 
@@ -80,60 +86,18 @@ export default class OrderChaptersNode extends Node<SharedStore, NodeParams> {
 
     Now, provide the YAML output:
     `;
-        const response = await callLlm(prompt, {
+        const orderedIndices = await callLlmStructured(prompt, chapterOrderSchema(numAbstractions), {
+            ...resolveLlmOptions(this._params),
+            usageTag: { node: "orderChapters" },
             llmApiKey: prepRes.apiKey,
-            useCache,
+            // A retry means the cached answer was unusable, ask the model again and replace it
+            useCache: useCache,
+            refreshCache: this.currentRetry > 0,
             context: this._params.context,
             model: prepRes.model,
+            promptTokenBudget: resolveContextWindow(this._params, prepRes.model) - OUTPUT_TOKEN_RESERVE,
         });
 
-        // --- Validation ---
-        const yamlStr = response.trim().split("```yaml")[1].split("```")[0].trim();
-        const orderedIndicesRaw = YAML.parse(yamlStr) as any[];
-
-        if (!Array.isArray(orderedIndicesRaw)) {
-            throw new Error("LLM output is not a list");
-        }
-
-        const orderedIndices: number[] = [];
-        const seenIndices = new Set<number>();
-
-        for (const entry of orderedIndicesRaw) {
-            try {
-                let idx: number;
-
-                if (typeof entry === "number") {
-                    idx = entry;
-                } else if (typeof entry === "string" && entry.includes("#")) {
-                    idx = parseInt(entry.split("#")[0].trim(), 10);
-                } else {
-                    idx = parseInt(String(entry).trim(), 10);
-                }
-
-                if (!(0 <= idx && idx < numAbstractions)) {
-                    throw new Error(`Invalid index ${idx} in ordered list. Max index is ${numAbstractions - 1}.`);
-                }
-
-                if (seenIndices.has(idx)) {
-                    throw new Error(`Duplicate index ${idx} found in ordered list.`);
-                }
-
-                orderedIndices.push(idx);
-                seenIndices.add(idx);
-            } catch (error) {
-                throw new Error(`Could not parse index from ordered list entry: ${entry}`);
-            }
-        }
-
-        // Check if all abstractions are included
-        if (orderedIndices.length !== numAbstractions) {
-            const missingIndices = [...Array(numAbstractions).keys()].filter(i => !seenIndices.has(i));
-
-            throw new Error(
-                `Ordered list length (${orderedIndices.length}) does not match number of abstractions (${numAbstractions}). Missing indices: ${missingIndices}`,
-            );
-        }
-
         console.log(`Determined chapter order (indices): ${orderedIndices}`);
         return orderedIndices; // Return list of indices
     }
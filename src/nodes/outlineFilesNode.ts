@@ -0,0 +1,25 @@
+import { extractSymbolOutlines } from "../services/analysis";
+import { FileInfo, SharedStore } from "../types";
+import { estimateTokens } from "../utils/tokenUtils";
+import RetryingNode from "./retryingNode";
+
+export default class OutlineFilesNode extends RetryingNode {
+    async prep(shared: SharedStore): Promise<FileInfo[]> {
+        return shared.files;
+    }
+
+    // Identification and relationship analysis only need to know what each file declares, so they get
+    // outlines instead of whole files. Chapters are still written from the full content
+    async exec(files: FileInfo[]): Promise<string[]> {
+        const outlines = extractSymbolOutlines(files);
+        const fileTokens = files.reduce((sum, file) => sum + estimateTokens(file.content), 0);
+        const outlineTokens = outlines.reduce((sum, outline) => sum + estimateTokens(outline), 0);
+        console.log(`Outlined ${files.length} files: ${outlineTokens} tokens instead of ${fileTokens}`);
+        return outlines;
+    }
+
+    async post(shared: SharedStore, _: unknown, outlines: string[]): Promise<string | undefined> {
+        shared.fileOutlines = outlines;
+        return undefined;
+    }
+}
@@ -0,0 +1,58 @@
+import { DEFAULT_CONFIG } from "../constants";
+import { ChapterItem } from "../types";
+import { mapWithConcurrency, throwIfCancelled } from "../utils/commonUtils";
+import { truncateToTokens } from "../utils/tokenUtils";
+import RetryingNode from "./retryingNode";
+import WriteChaptersNode, { TutorialContext } from "./writeChaptersNode";
+
+/**
+ * Writes chapters concurrently, like pocketflow's ParallelBatchNode but with at most
+ * `chapterConcurrency` chapters in flight so providers' rate limits aren't hit all at once
+ * Chapters can't see each other's text, so each one gets the chapter listing with the
+ * abstraction descriptions instead
+ */
+export default class ParallelWriteChaptersNode extends WriteChaptersNode {
+    async _exec(items: ChapterItem[]): Promise<string[]> {
+        if (!Array.isArray(items)) {
+            return [];
+        }
+        const concurrency = this._params.chapterConcurrency ?? DEFAULT_CONFIG.chapterConcurrency;
+        console.log(`Writing ${items.length} chapters, at most ${concurrency} at a time...`);
+
+        // One failed chapter fails the node, so it stops the other chapters instead of letting them spend tokens.
+        // Their signal is also aborted when the run is cancelled
+        const runSignal = this._params.signal;
+        const chapterAbort = new AbortController();
+        const abortChapters = () => chapterAbort.abort();
+        runSignal?.addEventListener("abort", abortChapters, { once: true });
+        if (runSignal?.aborted) {
+            abortChapters();
+        }
+
+        try {
+            // Each chapter runs on its own clone so the retry counters of concurrent chapters don't mix.
+            // Clones share the packing reports object with this node
+            const chapters = await mapWithConcurrency(items, concurrency, async item => {
+                // Queued chapters don't start once a chapter has failed
+                throwIfCancelled(chapterAbort.signal);
+                const chapterNode = this.clone().setParams({ ...this._params, signal: chapterAbort.signal });
+                try {
+                    return await RetryingNode.prototype._exec.call(chapterNode, item);
+                } catch (error) {
+                    abortChapters();
+                    throw error;
+                }
+            });
+            return chapters as string[];
+        } finally {
+            runSignal?.removeEventListener("abort", abortChapters);
+        }
+    }
+
+    protected getTutorialContext(item: ChapterItem, maxTokens: number): TutorialContext {
+        return {
+            heading: "Overview of all chapters (they are written at the same time, so their text is not available)",
+            content: truncateToTokens(item.chapterOverview, maxTokens),
+        };
+    }
+}
@@ -0,0 +1,50 @@
+import { buildImportGraph, ImportGraph, rankFiles } from "../services/analysis";
+import { FileInfo, FileRank, SharedStore } from "../types";
+import RetryingNode from "./retryingNode";
+
+// Files listed in the log after ranking
+const LOGGED_TOP_FILES = 5;
+
+interface RankFilesResult {
+    importGraph: ImportGraph;
+    ranks: FileRank[];
+}
+
+interface RankFilesPrepResult {
+    files: FileInfo[];
+    localDir: string;
+    sourceCommit?: string;
+}
+
+export default class RankFilesNode extends RetryingNode {
+    async prep(shared: SharedStore): Promise<RankFilesPrepResult> {
+        return {
+            files: shared.files,
+            localDir: shared.localDir,
+            sourceCommit: shared.sourceCommit,
+        };
+    }
+
+    // Score files by import in-degree, entry point status, size and churn, so prompts that can't hold
+    // every file get the most important ones in full. The import graph is kept to check relationships later
+    async exec(preRes: RankFilesPrepResult): Promise<RankFilesResult> {
+        const importGraph = buildImportGraph(preRes.files);
+        const ranks = await rankFiles(preRes.files, importGraph, {
+            rootDir: preRes.localDir,
+            sourceCommit: preRes.sourceCommit,
+        });
+        console.log(
+            `Ranked ${ranks.length} files, top: ${ranks
+                .slice(0, LOGGED_TOP_FILES)
+                .map(rank => `${rank.path} (${rank.score.toFixed(1)})`)
+                .join(", ")}`,
+        );
+        return { importGraph, ranks };
+    }
+
+    async post(shared: SharedStore, _: unknown, execRes: RankFilesResult): Promise<string | undefined> {
+        shared.importGraph = execRes.importGraph;
+        shared.fileRanks = execRes.ranks;
+        return undefined;
+    }
+}
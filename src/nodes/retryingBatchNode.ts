@@ -0,0 +1,17 @@
+import RetryingNode from "./retryingNode";
+
+/**
+ * Batch node running exec for each item in turn, retrying each item like RetryingNode
+ */
+export default class RetryingBatchNode extends RetryingNode {
+    async _exec(items: unknown[]): Promise<unknown[]> {
+        if (!Array.isArray(items)) {
+            return [];
+        }
+        const results: unknown[] = [];
+        for (const item of items) {
+            results.push(await super._exec(item));
+        }
+        return results;
+    }
+}
@@ -0,0 +1,53 @@
+import { Node } from "pocketflow";
+import * as vscode from "vscode";
+import { NonRetryableLlmError } from "../services/llm/llmErrors";
+import { SpendLimitExceededError } from "../services/usage";
+import { NodeParams, SharedStore } from "../types";
+import { throwIfCancelled } from "../utils/commonUtils";
+import { sleep } from "../utils/retryUtils";
+
+/**
+ * Check whether running a node again can't help: the user cancelled, the spend limit was reached,
+ * the LLM rejected the request for good (a bad API key, an unknown model or a missing fixture),
+ * or a transient LLM failure outlasted the retries of the call
+ * @param error Error thrown by exec
+ * @returns True if the error should end the run at once
+ */
+function isNonRetryableError(error: unknown): boolean {
+    return (
+        error instanceof vscode.CancellationError ||
+        error instanceof SpendLimitExceededError ||
+        error instanceof NonRetryableLlmError
+    );
+}
+
+/**
+ * Node re-running a failed exec like pocketflow's Node, except for errors no retry can fix, which are rethrown at once
+ * LLM calls already retry transient failures on their own, so node retries of those would multiply the attempts.
+ * A cancelled run stops before the next node starts
+ */
+export default class RetryingNode extends Node<SharedStore, NodeParams> {
+    async _run(shared: SharedStore): Promise<string | undefined> {
+        throwIfCancelled(this._params.signal);
+        return super._run(shared);
+    }
+
+    async _exec(prepRes: unknown): Promise<unknown> {
+        for (this.currentRetry = 0; ; this.currentRetry++) {
+            try {
+                return await this.exec(prepRes);
+            } catch (error) {
+                if (isNonRetryableError(error)) {
+                    throw error;
+                }
+                if (this.currentRetry >= this.maxRetries - 1) {
+                    return await this.execFallback(prepRes, error as Error);
+                }
+                if (this.wait > 0) {
+                    await sleep(this.wait * 1000, this._params.signal);
+                }
+                throwIfCancelled(this._params.signal);
+            }
+        }
+    }
+}
@@ -1,19 +1,31 @@
-import { BatchNode } from "pocketflow";
-import { callLlm } from "../services/llm";
-import { ChapterInfo, ChapterItem, SharedStore, NodeParams } from "../types";
-import { getContentForIndices } from "../utils";
+import { callLlm, resolveContextWindow, resolveLlmOptions, resolveStageModel } from "../services/llm";
+import { ChapterInfo, ChapterItem, SharedStore, PackingReport } from "../types";
+import { CHAPTER_OUTPUT_TOKEN_RESERVE, PREVIOUS_CHAPTERS_TOKEN_BUDGET } from "../constants";
+import { ChapterSummary, formatChapterSummaries, summarizeChapter } from "../utils/chapterSummaryUtils";
 import { getChapterLanguageContext, capitalizeFirstLetter } from "../utils/languageUtils";
-import { formatContentMap, createSafeFilename } from "../utils/fileUtils";
-
-interface WriteChaptersNodePrepResult {
-    itemsToProcess: ChapterItem[];
-    shared: SharedStore;
+import { createSafeFilename, formatPackedFiles, getPackableFiles } from "../utils/fileUtils";
+import {
+    describePackingReport,
+    estimateTokens,
+    getContentBudget,
+    hasPackingCuts,
+    packFiles,
+} from "../utils/tokenUtils";
+import RetryingBatchNode from "./retryingBatchNode";
+
+/**
+ * What a chapter prompt is told about the rest of the tutorial
+ */
+export interface TutorialContext {
+    heading: string;
+    content: string;
 }
 
-export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams> {
-    private chaptersWrittenSoFar: string[] = [];
+export default class WriteChaptersNode extends RetryingBatchNode {
+    protected chapterSummaries: ChapterSummary[] = [];
+    protected packingReports: Record<string, PackingReport> = {};
 
-    async prep(shared: SharedStore): Promise<WriteChaptersNodePrepResult> {
+    async prep(shared: SharedStore): Promise<ChapterItem[]> {
         const chapterOrder = shared.chapterOrder;
         const abstractions = shared.abstractions;
         const filesData = shared.files;
@@ -22,10 +34,12 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
         const useCache = shared.useCache !== undefined ? shared.useCache : true;
 
         // Reset temporary storage
-        this.chaptersWrittenSoFar = [];
+        this.chapterSummaries = [];
+        this.packingReports = {};
 
         // Create complete list of all chapters
         const allChapters: string[] = [];
+        const chapterOverview: string[] = [];
         const chapterFilenames: Record<number, ChapterInfo> = {};
 
         for (let i = 0; i < chapterOrder.length; i++) {
@@ -40,6 +54,9 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
 
                 // Use link format (with potentially translated name)
                 allChapters.push(`${chapterNum}. [${chapterName}](${filename})`);
+                chapterOverview.push(
+                    `${chapterNum}. [${chapterName}](${filename}): ${abstractions[abstractionIndex].description}`,
+                );
 
                 // Store mapping from chapter index to filename, for links
                 chapterFilenames[abstractionIndex] = {
@@ -65,7 +82,7 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
                 const relatedFileIndices = abstractionDetails.files || [];
 
                 // Use helper function to get content, passing indices
-                const relatedFilesContentMap = getContentForIndices(filesData, relatedFileIndices);
+                const relatedFiles = getPackableFiles(filesData, relatedFileIndices);
 
                 // Get previous chapter info for transitions (using potentially translated names)
                 let prevChapter = null;
@@ -85,9 +102,10 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
                     chapterNum: i + 1,
                     abstractionIndex: abstractionIndex,
                     abstractionDetails: abstractionDetails, // Has potentially translated name/description
-                    relatedFilesContentMap: relatedFilesContentMap,
+                    relatedFiles: relatedFiles,
                     projectName: shared.projectName || "", // Add project name
                     fullChapterListing: fullChapterListing, // Add complete chapter list (using potentially translated names)
+                    chapterOverview: chapterOverview.join("\n"), // Add chapter list with abstraction descriptions
                     chapterFilenames: chapterFilenames, // Add chapter filename mapping (using potentially translated names)
                     prevChapter: prevChapter, // Add previous chapter info (using potentially translated names)
                     nextChapter: nextChapter, // Add next chapter info (using potentially translated names)
@@ -99,28 +117,91 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
         }
 
         console.log(`Preparing to write ${itemsToProcess.length} chapters...`);
-        return {
-            itemsToProcess,
-            shared,
-        }; // Iterable object for BatchNode
+        return itemsToProcess; // BatchNode runs exec for each item of this array
     }
 
     async exec(item: ChapterItem): Promise<string> {
         // This runs for each item prepared above
         const abstractionName = item.abstractionDetails.name; // Name may be translated
-        const abstractionDescription = item.abstractionDetails.description; // Description may be translated
         const chapterNum = item.chapterNum;
-        const projectName = item.projectName;
-        const language = item.language || "english";
+        const model = resolveStageModel(this._params, "writeChapters");
 
         console.log(`Using LLM to write Chapter ${chapterNum}: ${abstractionName}...`);
 
-        // Prepare file context string from mapping using utility function
-        const fileContextStr = formatContentMap(item.relatedFilesContentMap);
+        // Context about the rest of the tutorial may take at most half of the window
+        const contextWindow = resolveContextWindow(this._params, model);
+        const tutorialContext = this.getTutorialContext(item, Math.floor(contextWindow / 2));
+
+        // Fit related code into what the window leaves after the rest of the prompt
+        const promptOverhead = estimateTokens(this.buildPrompt(item, tutorialContext, ""));
+        const { files: packedFiles, report } = packFiles(
+            item.relatedFiles,
+            getContentBudget(contextWindow, promptOverhead, CHAPTER_OUTPUT_TOKEN_RESERVE),
+        );
+        if (hasPackingCuts(report)) {
+            this.packingReports[`writeChapter${chapterNum}`] = report;
+            console.log(describePackingReport(`Chapter ${chapterNum}`, report));
+        }
+
+        // Prepare file context string from packed files using utility function
+        const fileContextStr = formatPackedFiles(packedFiles);
+        const prompt = this.buildPrompt(item, tutorialContext, fileContextStr);
+
+        const chapterContent = await callLlm(prompt, {
+            ...resolveLlmOptions(this._params),
+            usageTag: { node: "writeChapters", chapter: chapterNum },
+            // A retry means the cached answer was unusable, ask the model again and replace it
+            useCache: this._params.useCache as boolean,
+            refreshCache: this.currentRetry > 0,
+            llmApiKey: this._params.llmApiKey as string,
+            context: this._params.context,
+            model,
+        });
+
+        // Basic validation/cleanup
+        const actualHeading = `# Chapter ${chapterNum}: ${abstractionName}`; // Use potentially translated name
+
+        let finalContent = chapterContent;
+        if (!chapterContent.trim().startsWith(`# Chapter ${chapterNum}`)) {
+            // If missing or incorrect, add title, try to preserve content
+            const lines = chapterContent.trim().split("\n");
+
+            if (lines.length > 0 && lines[0].trim().startsWith("#")) {
+                // If there's some kind of title, replace it
+                lines[0] = actualHeading;
+                finalContent = lines.join("\n");
+            } else {
+                // Otherwise, add to the front
+                finalContent = `${actualHeading}\n\n${chapterContent}`;
+            }
+        }
+
+        // Later chapters get a short summary instead of the full text, so prompts don't grow with every chapter
+        this.chapterSummaries.push(summarizeChapter(finalContent, item.chapterFilenames[item.abstractionIndex]));
 
-        // Get summary of chapters written before this one
-        // Use temporary instance variable
-        const previousChaptersSummary = this.chaptersWrittenSoFar.join("\n---\n");
+        return finalContent; // Return Markdown string (may be translated)
+    }
+
+    /**
+     * Get the context a chapter is written with: summaries of the chapters written before it
+     * @param item Chapter to write
+     * @param maxTokens Token budget of the context
+     * @returns Heading and content of the context section of the prompt
+     */
+    protected getTutorialContext(_item: ChapterItem, maxTokens: number): TutorialContext {
+        const budget = Math.min(maxTokens, PREVIOUS_CHAPTERS_TOKEN_BUDGET);
+        return {
+            heading: "Summaries of previous chapters",
+            content: formatChapterSummaries(this.chapterSummaries, budget) || "This is the first chapter.",
+        };
+    }
+
+    private buildPrompt(item: ChapterItem, tutorialContext: TutorialContext, fileContextStr: string): string {
+        const abstractionName = item.abstractionDetails.name; // Name may be translated
+        const abstractionDescription = item.abstractionDetails.description; // Description may be translated
+        const chapterNum = item.chapterNum;
+        const projectName = item.projectName;
+        const language = item.language || "english";
 
         // Use utility function to get language context
         const {
@@ -135,7 +216,7 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
             toneNote,
         } = getChapterLanguageContext(language);
 
-        const prompt = `
+        return `
     ${languageInstruction}Write a very beginner-friendly tutorial chapter (in Markdown format) for project \`${projectName}\` about the concept: "${abstractionName}". This is Chapter ${chapterNum}.
 
     Concept details${conceptDetailsNote}:
@@ -146,8 +227,8 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
     Complete tutorial structure${structureNote}:
     ${item.fullChapterListing}
 
-    Context from previous chapters${prevSummaryNote}:
-    ${previousChaptersSummary || "This is the first chapter."}
+    ${tutorialContext.heading}${prevSummaryNote}:
+    ${tutorialContext.content}
 
     Related code snippets (code itself remains unchanged):
     ${fileContextStr || "No specific code snippets provided for this abstraction."}
@@ -183,47 +264,17 @@ export default class WriteChaptersNode extends BatchNode<SharedStore, NodeParams
 
     Now, directly provide a super beginner-friendly Markdown output (no need for \`\`\`markdown\`\`\` tags):
     `;
-
-        const chapterContent = await callLlm(prompt, {
-            useCache: this._params.useCache as boolean,
-            llmApiKey: this._params.llmApiKey as string,
-            context: this._params.context,
-            model: this._params.llmModel as string,
-        });
-
-        // Basic validation/cleanup
-        const actualHeading = `# Chapter ${chapterNum}: ${abstractionName}`; // Use potentially translated name
-
-        let finalContent = chapterContent;
-        if (!chapterContent.trim().startsWith(`# Chapter ${chapterNum}`)) {
-            // If missing or incorrect, add title, try to preserve content
-            const lines = chapterContent.trim().split("\n");
-
-            if (lines.length > 0 && lines[0].trim().startsWith("#")) {
-                // If there's some kind of title, replace it
-                lines[0] = actualHeading;
-                finalContent = lines.join("\n");
-            } else {
-                // Otherwise, add to the front
-                finalContent = `${actualHeading}\n\n${chapterContent}`;
-            }
-        }
-
-        // Add the generated content to our temporary list for context in the next iteration
-        this.chaptersWrittenSoFar.push(finalContent);
-
-        return finalContent; // Return Markdown string (may be translated)
     }
 
-    async post(
-        shared: SharedStore,
-        _: WriteChaptersNodePrepResult,
-        execResList: string[],
-    ): Promise<string | undefined> {
+    async post(shared: SharedStore, _: ChapterItem[], execResList: string[]): Promise<string | undefined> {
         // execResList contains generated Markdown for each chapter, in order
         shared.chapters = execResList;
-        // Clean up temporary instance variable
-        this.chaptersWrittenSoFar = [];
+        if (Object.keys(this.packingReports).length > 0) {
+            shared.packingReports = { ...shared.packingReports, ...this.packingReports };
+        }
+        // Clean up temporary instance variables
+        this.chapterSummaries = [];
+        this.packingReports = {};
         console.log(`Completed writing ${execResList.length} chapters.`);
         return undefined;
     }
@@ -0,0 +1,125 @@
+import path from "path";
+
+/**
+ * A file with the prompt tokens it takes
+ */
+export interface BatchableFile {
+    /** Global file index */
+    index: number;
+    path: string;
+    tokens: number;
+}
+
+/**
+ * Files sent together in one prompt
+ */
+export interface FileBatch {
+    /** Directories whose files the batch holds, "" for the project root */
+    directories: string[];
+    /** Global file indices, in path order */
+    indices: number[];
+    tokens: number;
+}
+
+/**
+ * A directory and the files below it
+ */
+interface DirectoryNode {
+    path: string;
+    files: BatchableFile[];
+    children: Map<string, DirectoryNode>;
+    tokens: number;
+}
+
+/**
+ * Build the directory tree of a file list, with the tokens of every subtree
+ * @param files Files to place in the tree
+ * @returns Root directory
+ */
+function buildDirectoryTree(files: BatchableFile[]): DirectoryNode {
+    const root: DirectoryNode = { path: "", files: [], children: new Map(), tokens: 0 };
+    for (const file of files) {
+        let node = root;
+        node.tokens += file.tokens;
+        const segments = file.path.split(/[\\/]/).slice(0, -1);
+        for (const segment of segments) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = { path: path.posix.join(node.path, segment), files: [], children: new Map(), tokens: 0 };
+                node.children.set(segment, child);
+            }
+            child.tokens += file.tokens;
+            node = child;
+        }
+        node.files.push(file);
+    }
+    return root;
+}
+
+/**
+ * Collect every file below a directory, in path order
+ * @param node Directory
+ * @returns Files of the directory and its subdirectories
+ */
+function collectFiles(node: DirectoryNode): BatchableFile[] {
+    return [...node.files, ...[...node.children.values()].flatMap(collectFiles)];
+}
+
+/**
+ * Split a directory into groups that each fit the budget: whole subtrees where possible,
+ * the files directly in a directory too large to keep together are chunked on their own
+ * @param node Directory to split
+ * @param budgetTokens Token budget of a group
+ * @returns Groups in path order
+ */
+function splitDirectory(node: DirectoryNode, budgetTokens: number): FileBatch[] {
+    if (node.tokens <= budgetTokens) {
+        const files = collectFiles(node);
+        return [{ directories: [node.path], indices: files.map(file => file.index), tokens: node.tokens }];
+    }
+
+    const groups: FileBatch[] = [];
+    let chunk: FileBatch | undefined;
+    for (const file of node.files) {
+        if (!chunk || chunk.tokens + file.tokens > budgetTokens) {
+            chunk = { directories: [node.path], indices: [], tokens: 0 };
+            groups.push(chunk);
+        }
+        chunk.indices.push(file.index);
+        chunk.tokens += file.tokens;
+    }
+    const children = [...node.children.values()].sort((a, b) => a.path.localeCompare(b.path));
+    for (const child of children) {
+        groups.push(...splitDirectory(child, budgetTokens));
+    }
+    return groups;
+}
+
+/**
+ * Group files into batches that each fit a token budget, keeping directories together
+ * Directories are split only when they don't fit, and neighbouring small directories share a batch.
+ * A single file larger than the budget gets a batch of its own
+ * @param files Files with their token counts
+ * @param budgetTokens Token budget of a batch
+ * @returns Batches in path order
+ */
+export function batchFilesByDirectory(files: BatchableFile[], budgetTokens: number): FileBatch[] {
+    const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+    const groups = splitDirectory(buildDirectoryTree(sortedFiles), budgetTokens);
+
+    const batches: FileBatch[] = [];
+    let current: FileBatch | undefined;
+    for (const group of groups) {
+        if (group.indices.length === 0) {
+            continue;
+        }
+        if (!current || current.tokens + group.tokens > budgetTokens) {
+            current = { directories: [], indices: [], tokens: 0 };
+            batches.push(current);
+        }
+        current.directories.push(...group.directories.filter(dir => !current!.directories.includes(dir)));
+        current.indices.push(...group.indices);
+        current.tokens += group.tokens;
+    }
+    return batches;
+}
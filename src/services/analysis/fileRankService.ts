@@ -0,0 +1,176 @@
+import fs from "fs/promises";
+import path from "path";
+import { FileInfo, FileRank, FileRankSignals } from "../../types";
+import { getFileChurn } from "../git";
+import { LoggerService } from "../logger";
+import { countImporters, ImportGraph } from "./importGraphService";
+
+// Weights of the ranking signals, counts are damped with a logarithm so no single signal dominates
+const IMPORTER_WEIGHT = 2;
+const ENTRY_POINT_BONUS = 4;
+const CHURN_WEIGHT = 1;
+const SIZE_WEIGHT = 0.5;
+// Beyond about a thousand lines a file doesn't explain more of the project
+const MAX_SIZE_LOG = 3;
+// Recent commits read for churn
+const CHURN_COMMITS = 500;
+
+// Files that start a program by convention
+const ENTRY_POINT_FILENAMES = new Set([
+    "main.go",
+    "__main__.py",
+    "main.py",
+    "app.py",
+    "manage.py",
+    "main.rs",
+    "lib.rs",
+    "main.c",
+    "main.cc",
+    "main.cpp",
+]);
+// package.json points at build output, whose sources usually live in src/
+const BUILD_OUTPUT_DIR_PATTERN = /^(dist|lib|build|out)\//;
+
+export interface RankFilesOptions {
+    /** Project directory the file paths are relative to */
+    rootDir: string;
+    /** Commit whose history is used for churn, no churn is used without one */
+    sourceCommit?: string;
+}
+
+/**
+ * Strip the extension and the leading "./" of a path so sources and their build output compare equal
+ * @param filePath Path relative to the project, with forward slashes
+ * @returns Normalized path without extension
+ */
+function normalizeModulePath(filePath: string): string {
+    const posixPath = path.posix.normalize(filePath);
+    const extension = path.posix.extname(posixPath);
+    return extension ? posixPath.slice(0, -extension.length) : posixPath;
+}
+
+/**
+ * Collect the paths a package.json names as entry points: main, module, bin and exports
+ * @param manifest Parsed package.json
+ * @returns Paths relative to the package directory
+ */
+function getManifestEntryPaths(manifest: Record<string, unknown>): string[] {
+    const paths: string[] = [];
+    const collect = (value: unknown) => {
+        if (typeof value === "string") {
+            paths.push(value);
+        } else if (value && typeof value === "object") {
+            Object.values(value).forEach(collect);
+        }
+    };
+    collect(manifest.main);
+    collect(manifest.module);
+    collect(manifest.bin);
+    collect(manifest.exports);
+    return paths;
+}
+
+/**
+ * Find the entry points of a project: files named in a package.json or conventional main files
+ * Manifests are read from every directory that holds a project file
+ * @param files Project files
+ * @param rootDir Project directory
+ * @returns Indices of the entry point files
+ */
+async function findEntryPoints(files: FileInfo[], rootDir: string): Promise<Set<number>> {
+    const posixPaths = files.map(file => file.path.split(path.sep).join("/"));
+    const entryPoints = new Set<number>();
+    posixPaths.forEach((filePath, i) => {
+        if (ENTRY_POINT_FILENAMES.has(path.posix.basename(filePath))) {
+            entryPoints.add(i);
+        }
+    });
+
+    // Directories of the project files and their parents
+    const directories = new Set<string>([""]);
+    for (const filePath of posixPaths) {
+        for (let dir = path.posix.dirname(filePath); dir !== "."; dir = path.posix.dirname(dir)) {
+            directories.add(dir);
+        }
+    }
+
+    const entryModules = new Set<string>();
+    await Promise.all(
+        [...directories].map(async dir => {
+            let manifest: Record<string, unknown>;
+            try {
+                manifest = JSON.parse(await fs.readFile(path.join(rootDir, dir, "package.json"), "utf-8"));
+            } catch {
+                return;
+            }
+            for (const entryPath of getManifestEntryPaths(manifest)) {
+                const modulePath = normalizeModulePath(path.posix.join(dir, entryPath));
+                entryModules.add(modulePath);
+                const relativeToPackage = normalizeModulePath(entryPath);
+                if (BUILD_OUTPUT_DIR_PATTERN.test(relativeToPackage)) {
+                    entryModules.add(path.posix.join(dir, relativeToPackage.replace(BUILD_OUTPUT_DIR_PATTERN, "src/")));
+                }
+            }
+        }),
+    );
+    posixPaths.forEach((filePath, i) => {
+        if (entryModules.has(normalizeModulePath(filePath))) {
+            entryPoints.add(i);
+        }
+    });
+    return entryPoints;
+}
+
+/**
+ * Combine the signals of a file into a score
+ * @param signals Ranking signals
+ * @returns Score, higher is more important
+ */
+function scoreFile(signals: FileRankSignals): number {
+    return (
+        IMPORTER_WEIGHT * Math.log2(1 + signals.importers) +
+        (signals.entryPoint ? ENTRY_POINT_BONUS : 0) +
+        CHURN_WEIGHT * Math.log2(1 + signals.commits) +
+        SIZE_WEIGHT * Math.min(Math.log10(1 + signals.lines), MAX_SIZE_LOG)
+    );
+}
+
+/**
+ * Rank files by how much they tell about the project
+ * Signals are import in-degree, entry point status, size and recent git churn
+ * @param files Project files
+ * @param importGraph Import graph of the files
+ * @param options Project directory and source commit
+ * @returns Every file with its score and signals, most important first
+ */
+export async function rankFiles(
+    files: FileInfo[],
+    importGraph: ImportGraph,
+    { rootDir, sourceCommit }: RankFilesOptions,
+): Promise<FileRank[]> {
+    const importers = countImporters(importGraph);
+    const entryPoints = await findEntryPoints(files, rootDir);
+
+    let churn = new Map<string, number>();
+    if (sourceCommit) {
+        try {
+            churn = await getFileChurn(rootDir, sourceCommit, CHURN_COMMITS);
+        } catch (error) {
+            LoggerService.getInstance().info(
+                `Ranking files without git churn: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+    }
+
+    return files
+        .map((file, index): FileRank => {
+            const signals: FileRankSignals = {
+                importers: importers[index],
+                entryPoint: entryPoints.has(index),
+                commits: churn.get(file.path.split(path.sep).join("/")) ?? 0,
+                lines: file.content.split("\n").length,
+            };
+            return { index, path: file.path, score: scoreFile(signals), signals };
+        })
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+}
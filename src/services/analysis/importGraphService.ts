@@ -0,0 +1,423 @@
+import path from "path";
+import { FileInfo } from "../../types";
+
+/**
+ * Languages whose imports are resolved to files
+ */
+type ImportLanguage = "js" | "python" | "go" | "java";
+
+const LANGUAGE_BY_EXTENSION: Record<string, ImportLanguage> = {
+    ".js": "js",
+    ".jsx": "js",
+    ".mjs": "js",
+    ".cjs": "js",
+    ".ts": "js",
+    ".tsx": "js",
+    ".mts": "js",
+    ".cts": "js",
+    ".py": "python",
+    ".pyi": "python",
+    ".pyx": "python",
+    ".go": "go",
+    ".java": "java",
+};
+
+// Files that stand for their directory when it is imported
+const INDEX_MODULE_NAMES = new Set(["index", "__init__"]);
+
+const JS_IMPORT_PATTERNS = [
+    /\b(?:import|export)\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?["']([^"'\n]+)["']/g,
+    /\brequire\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+    /\bimport\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+];
+// Only a parenthesized name list may span lines
+const PYTHON_FROM_IMPORT_PATTERN = /^\s*from\s+(\.*[\w.]*)\s+import\s+(?:\(([\w\s,*]+)\)|([\w \t,*]+))/gm;
+const PYTHON_IMPORT_PATTERN = /^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm;
+const GO_IMPORT_BLOCK_PATTERN = /^\s*import\s*\(([^)]*)\)/gm;
+const GO_IMPORT_LINE_PATTERN = /^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm;
+const GO_IMPORT_PATH_PATTERN = /"([^"]+)"/g;
+const JAVA_IMPORT_PATTERN = /^\s*import\s+(static\s+)?([\w.]+?)(\.\*)?\s*;/gm;
+
+/**
+ * An import statement, with the paths it may refer to from most to least specific
+ * - module: a file, e.g. `./utils` or `pkg.module`
+ * - package: every file of a directory, e.g. a Go package or a Java wildcard import
+ */
+interface ImportReference {
+    kind: "module" | "package";
+    candidates: string[];
+}
+
+/**
+ * File-level dependency graph of a project
+ */
+export interface ImportGraph {
+    /** For each file index, the indices of the project files it imports, sorted */
+    imports: number[][];
+    /** For each file index, whether its language is analyzed, other files never have imports */
+    analyzed: boolean[];
+}
+
+/**
+ * Imports between the files of two abstractions
+ */
+export interface AbstractionDependency {
+    /** Index of the importing abstraction */
+    from: number;
+    /** Index of the imported abstraction */
+    to: number;
+    /** File index pairs [importer, imported] */
+    fileImports: [number, number][];
+}
+
+/**
+ * Lookup tables from module and directory paths to file indices
+ */
+interface ModuleIndex {
+    /** Module path (file path without extension, POSIX separators) to files */
+    modules: Map<string, number[]>;
+    /** Every trailing part of a module path, e.g. `b/c` of `a/b/c`, to files */
+    moduleSuffixes: Map<string, number[]>;
+    /** Directory path to the source files directly in it */
+    directories: Map<string, number[]>;
+    /** Every trailing part of a directory path to the source files directly in it */
+    directorySuffixes: Map<string, number[]>;
+    /** Directory of each file, by file index */
+    fileDirectories: string[];
+    /** Language of each file, imports only resolve to files of the importer's language */
+    fileLanguages: (ImportLanguage | undefined)[];
+}
+
+/**
+ * Detect the language of a file from its extension
+ * @param filePath File path
+ * @returns Import language, undefined for files whose imports aren't analyzed
+ */
+function getImportLanguage(filePath: string): ImportLanguage | undefined {
+    return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Convert a file path to its module path: POSIX separators, no extension
+ * @param filePath File path relative to the project
+ * @returns Module path, e.g. `src/utils/index` for `src\utils\index.ts`
+ */
+function toModulePath(filePath: string): string {
+    const posixPath = filePath.split(path.sep).join("/");
+    const extension = path.posix.extname(posixPath);
+    return extension ? posixPath.slice(0, -extension.length) : posixPath;
+}
+
+/**
+ * Add a value to the list under a key
+ */
+function addToIndex(index: Map<string, number[]>, key: string, value: number) {
+    const values = index.get(key);
+    if (values) {
+        values.push(value);
+    } else {
+        index.set(key, [value]);
+    }
+}
+
+/**
+ * Add every trailing part of a path to an index
+ */
+function addSuffixesToIndex(index: Map<string, number[]>, modulePath: string, value: number) {
+    const parts = modulePath.split("/");
+    for (let i = 0; i < parts.length; i++) {
+        addToIndex(index, parts.slice(i).join("/"), value);
+    }
+}
+
+/**
+ * Build the lookup tables for resolving imports to source files
+ * @param files Project files
+ * @returns Module index
+ */
+function buildModuleIndex(files: FileInfo[]): ModuleIndex {
+    const index: ModuleIndex = {
+        modules: new Map(),
+        moduleSuffixes: new Map(),
+        directories: new Map(),
+        directorySuffixes: new Map(),
+        fileDirectories: [],
+        fileLanguages: [],
+    };
+    files.forEach((file, i) => {
+        const language = getImportLanguage(file.path);
+        index.fileLanguages[i] = language;
+        if (!language) {
+            return;
+        }
+        const modulePath = toModulePath(file.path);
+        const directory = path.posix.dirname(modulePath);
+        const names = [modulePath];
+        // `import "./utils"` and `import pkg` load the directory's index module
+        if (INDEX_MODULE_NAMES.has(path.posix.basename(modulePath)) && directory !== ".") {
+            names.push(directory);
+        }
+        for (const name of names) {
+            addToIndex(index.modules, name, i);
+            addSuffixesToIndex(index.moduleSuffixes, name, i);
+        }
+        const directoryKey = directory === "." ? "" : directory;
+        index.fileDirectories[i] = directoryKey;
+        addToIndex(index.directories, directoryKey, i);
+        if (directoryKey) {
+            addSuffixesToIndex(index.directorySuffixes, directoryKey, i);
+        }
+    });
+    return index;
+}
+
+/**
+ * Find the import statements of a JavaScript or TypeScript file
+ */
+function extractJsImports(content: string): ImportReference[] {
+    const specifiers = JS_IMPORT_PATTERNS.flatMap(pattern => [...content.matchAll(pattern)].map(match => match[1]));
+    return specifiers.map(specifier => ({ kind: "module", candidates: [specifier] }));
+}
+
+/**
+ * Find the import statements of a Python file, as dotted module names
+ */
+function extractPythonImports(content: string): ImportReference[] {
+    const references: ImportReference[] = [];
+    for (const [, module, groupedNames, names] of content.matchAll(PYTHON_FROM_IMPORT_PATTERN)) {
+        // A trailing comma of a parenthesized list leaves an empty name
+        const importedNames = (groupedNames ?? names).split(",").map(part => part.trim().split(/\s+/)[0]);
+        for (const name of importedNames.filter(Boolean)) {
+            // `from pkg import mod` imports a module or a name defined in pkg
+            const separator = module.endsWith(".") ? "" : ".";
+            const candidates = name !== "*" ? [`${module}${separator}${name}`, module] : [module];
+            references.push({ kind: "module", candidates });
+        }
+    }
+    for (const [, modules] of content.matchAll(PYTHON_IMPORT_PATTERN)) {
+        for (const module of modules.split(",").map(part => part.trim().split(/\s+/)[0])) {
+            references.push({ kind: "module", candidates: [module] });
+        }
+    }
+    return references;
+}
+
+/**
+ * Find the imported package paths of a Go file
+ */
+function extractGoImports(content: string): ImportReference[] {
+    const importPaths = [...content.matchAll(GO_IMPORT_LINE_PATTERN)].map(match => match[1]);
+    for (const [, block] of content.matchAll(GO_IMPORT_BLOCK_PATTERN)) {
+        importPaths.push(...[...block.matchAll(GO_IMPORT_PATH_PATTERN)].map(match => match[1]));
+    }
+    return importPaths.map(importPath => ({ kind: "package", candidates: [importPath] }));
+}
+
+/**
+ * Find the imported classes and packages of a Java file
+ */
+function extractJavaImports(content: string): ImportReference[] {
+    return [...content.matchAll(JAVA_IMPORT_PATTERN)].map(([, isStatic, name, wildcard]): ImportReference => {
+        const parts = name.split(".");
+        if (wildcard && !isStatic) {
+            return { kind: "package", candidates: [parts.join("/")] };
+        }
+        // A static import names a member of a class, a static wildcard the class itself
+        return {
+            kind: "module",
+            candidates: isStatic && !wildcard ? [parts.slice(0, -1).join("/")] : [parts.join("/")],
+        };
+    });
+}
+
+/**
+ * Pick the files a lookup found, ambiguous suffix matches resolve to nothing
+ * @param matches Files under the looked up key
+ * @returns The single matching file, or no file
+ */
+function uniqueMatch(matches: number[] | undefined): number[] {
+    return matches?.length === 1 ? matches : [];
+}
+
+/**
+ * Resolve an import to project files
+ * @param reference Import statement
+ * @param language Language of the importing file
+ * @param importerPath Module path of the importing file
+ * @param index Module index of the project
+ * @returns Indices of the imported files, empty for imports of external packages
+ */
+function resolveImport(
+    reference: ImportReference,
+    language: ImportLanguage,
+    importerPath: string,
+    index: ModuleIndex,
+): number[] {
+    const importerDir = path.posix.dirname(importerPath);
+
+    for (const candidate of reference.candidates) {
+        let resolved: number[] = [];
+        if (language === "js") {
+            if (candidate.startsWith(".")) {
+                // ESM TypeScript imports name the compiled `.js` file
+                const target = path.posix.normalize(path.posix.join(importerDir, candidate));
+                resolved = index.modules.get(target) ?? index.modules.get(toModulePath(target)) ?? [];
+            } else {
+                // Path aliases such as `@/utils/x`, bare package names are left to the package manager
+                const aliased = candidate.replace(/^[@~#]\//, "");
+                if (aliased.split("/").length >= 2 && !aliased.startsWith("@")) {
+                    resolved = uniqueMatch(index.moduleSuffixes.get(aliased));
+                }
+            }
+        } else if (language === "python") {
+            const dots = candidate.match(/^\.*/)?.[0].length ?? 0;
+            const modulePath = candidate.slice(dots).split(".").filter(Boolean).join("/");
+            if (dots > 0) {
+                // One dot is the importer's package, each further dot a parent package
+                const base = path.posix.join(importerDir, ...Array<string>(dots - 1).fill(".."));
+                resolved = index.modules.get(path.posix.normalize(path.posix.join(base, modulePath))) ?? [];
+            } else if (modulePath) {
+                resolved = uniqueMatch(index.moduleSuffixes.get(modulePath));
+            }
+        } else if (language === "go") {
+            // The module path prefix is unknown, so match the longest trailing part that is a project directory
+            const parts = candidate.split("/");
+            for (let i = 0; i < parts.length && resolved.length === 0; i++) {
+                resolved = index.directories.get(parts.slice(i).join("/")) ?? [];
+            }
+        } else {
+            resolved =
+                reference.kind === "package"
+                    ? uniqueDirectory(index.directorySuffixes.get(candidate), index)
+                    : uniqueMatch(index.moduleSuffixes.get(candidate));
+        }
+        resolved = resolved.filter(i => index.fileLanguages[i] === language);
+        if (resolved.length > 0) {
+            return resolved;
+        }
+    }
+    return [];
+}
+
+/**
+ * Pick the files of a directory a suffix lookup found, if the suffix names a single directory
+ * @param matches Files in directories ending with the looked up suffix
+ * @param index Module index of the project
+ * @returns Files of the directory, none if several directories match
+ */
+function uniqueDirectory(matches: number[] | undefined, index: ModuleIndex): number[] {
+    const directories = new Set(matches?.map(i => index.fileDirectories[i]));
+    return matches && directories.size === 1 ? matches : [];
+}
+
+/**
+ * Build the file-level import graph of a project from the file contents
+ * Imports of TypeScript/JavaScript, Python, Go and Java files are matched against the project files.
+ * Imports of external packages and imports that can't be resolved without a build setup are left out
+ * @param files Project files
+ * @returns Import graph indexed like the files
+ */
+export function buildImportGraph(files: FileInfo[]): ImportGraph {
+    const index = buildModuleIndex(files);
+    const imports = files.map((file, i) => {
+        const language = getImportLanguage(file.path);
+        if (!language) {
+            return [];
+        }
+        const references =
+            language === "js"
+                ? extractJsImports(file.content)
+                : language === "python"
+                  ? extractPythonImports(file.content)
+                  : language === "go"
+                    ? extractGoImports(file.content)
+                    : extractJavaImports(file.content);
+        const importerPath = toModulePath(file.path);
+        const targets = new Set(
+            references.flatMap(reference => resolveImport(reference, language, importerPath, index)),
+        );
+        targets.delete(i);
+        return [...targets].sort((a, b) => a - b);
+    });
+    return { imports, analyzed: files.map(file => getImportLanguage(file.path) !== undefined) };
+}
+
+/**
+ * Count the files importing each file
+ * @param graph Import graph
+ * @returns Number of importers per file index
+ */
+export function countImporters(graph: ImportGraph): number[] {
+    const counts = graph.imports.map(() => 0);
+    for (const targets of graph.imports) {
+        for (const target of targets) {
+            counts[target]++;
+        }
+    }
+    return counts;
+}
+
+/**
+ * Roll the file-level graph up to imports between abstractions through the files each abstraction covers
+ * A file shared by two abstractions is not an import between them
+ * @param graph Import graph
+ * @param abstractionFiles File indices of each abstraction
+ * @returns Abstraction pairs with at least one import, ordered by abstraction indices
+ */
+export function rollUpImportGraph(graph: ImportGraph, abstractionFiles: number[][]): AbstractionDependency[] {
+    const abstractionsByFile = new Map<number, number[]>();
+    abstractionFiles.forEach((files, abstraction) => {
+        for (const file of new Set(files)) {
+            abstractionsByFile.set(file, [...(abstractionsByFile.get(file) ?? []), abstraction]);
+        }
+    });
+
+    const dependencies = new Map<string, AbstractionDependency>();
+    graph.imports.forEach((targets, importer) => {
+        for (const from of abstractionsByFile.get(importer) ?? []) {
+            for (const imported of targets) {
+                for (const to of abstractionsByFile.get(imported) ?? []) {
+                    if (from === to || abstractionFiles[from].includes(imported)) {
+                        continue;
+                    }
+                    const key = `${from}:${to}`;
+                    const dependency = dependencies.get(key) ?? { from, to, fileImports: [] };
+                    dependency.fileImports.push([importer, imported]);
+                    dependencies.set(key, dependency);
+                }
+            }
+        }
+    });
+    return [...dependencies.values()].sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+/**
+ * Find a chain of imports leading from one set of files to another, through any project files
+ * @param graph Import graph
+ * @param fromFiles Files the chain starts at
+ * @param toFiles Files the chain may end at
+ * @returns File indices of the shortest chain, undefined if none of the target files is reachable
+ */
+export function findImportPath(graph: ImportGraph, fromFiles: number[], toFiles: number[]): number[] | undefined {
+    const targets = new Set(toFiles);
+    // Breadth-first search remembering where each file was reached from
+    const previous = new Map<number, number | null>(fromFiles.map(file => [file, null]));
+    const queue = [...new Set(fromFiles)];
+    for (let head = 0; head < queue.length; head++) {
+        const file = queue[head];
+        if (targets.has(file) && previous.get(file) !== null) {
+            const chain = [file];
+            for (let step = previous.get(file); step !== null && step !== undefined; step = previous.get(step)) {
+                chain.unshift(step);
+            }
+            return chain;
+        }
+        for (const next of graph.imports[file] ?? []) {
+            if (!previous.has(next)) {
+                previous.set(next, file);
+                queue.push(next);
+            }
+        }
+    }
+    return undefined;
+}
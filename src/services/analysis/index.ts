@@ -0,0 +1,4 @@
+export * from "./importGraphService";
+export * from "./fileRankService";
+export * from "./symbolOutlineService";
+export * from "./fileBatchService";
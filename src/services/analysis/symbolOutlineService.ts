@@ -0,0 +1,571 @@
+import path from "path";
+import * as ts from "typescript";
+import { FileInfo } from "../../types";
+import { outlineContent } from "../../utils/tokenUtils";
+
+/**
+ * Languages with a dedicated outline extractor, other files fall back to their declaration lines
+ */
+type OutlineLanguage = "typescript" | "python" | "go" | "java" | "markdown";
+
+const LANGUAGE_BY_EXTENSION: Record<string, OutlineLanguage> = {
+    ".js": "typescript",
+    ".jsx": "typescript",
+    ".mjs": "typescript",
+    ".cjs": "typescript",
+    ".ts": "typescript",
+    ".tsx": "typescript",
+    ".mts": "typescript",
+    ".cts": "typescript",
+    ".py": "python",
+    ".pyi": "python",
+    ".go": "go",
+    ".java": "java",
+    ".md": "markdown",
+    ".mdx": "markdown",
+};
+
+const SCRIPT_KIND_BY_EXTENSION: Record<string, ts.ScriptKind> = {
+    ".js": ts.ScriptKind.JS,
+    ".mjs": ts.ScriptKind.JS,
+    ".cjs": ts.ScriptKind.JS,
+    ".jsx": ts.ScriptKind.JSX,
+    ".tsx": ts.ScriptKind.TSX,
+};
+
+const INDENT = "    ";
+// Longest doc comment summary, type alias or initializer kept verbatim
+const MAX_DOC_LENGTH = 160;
+const MAX_INLINE_LENGTH = 200;
+// Go struct and interface bodies with more lines are cut
+const MAX_GO_TYPE_BODY_LINES = 20;
+// Lines kept from a file nothing could be outlined from
+const FALLBACK_LINES = 20;
+
+const PYTHON_DEFINITION_PATTERN = /^(\s*)(?:async\s+def|def|class)\s+\w+/;
+const PYTHON_DECORATOR_PATTERN = /^\s*@[\w.]+/;
+const PYTHON_DOCSTRING_PATTERN = /^\s*[rRuU]?("""|''')([\s\S]*)$/;
+const GO_FUNC_PATTERN = /^func\s/;
+const GO_TYPE_PATTERN = /^type\s/;
+const JAVA_TYPE_PATTERN =
+    /^\s*(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|protected|private|abstract|static|final|sealed|non-sealed|strictfp)\s+)*(class|interface|enum|record|@interface)\s+\w+/;
+const JAVA_METHOD_PATTERN =
+    /^\s*(?:@\w+(?:\([^)]*\))?\s+)*((?:(?:public|protected|private|abstract|static|final|synchronized|default|native)\s+)*)(?:<[^>]+>\s+)?(?:[\w.<>[\]?,]+\s+)?\w+\s*\(/;
+const JAVA_STATEMENT_KEYWORDS = /^\s*(return|new|if|for|while|switch|else|throw|catch|try|do|case|yield)\b/;
+const MARKDOWN_HEADING_PATTERN = /^#{1,6}\s+\S/;
+const MARKDOWN_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Collapse the whitespace of a code fragment onto one line
+ * @param text Code fragment
+ * @returns Fragment on a single line
+ */
+function collapse(text: string): string {
+    return text
+        .replace(/\s+/g, " ")
+        .replace(/([([]) /g, "$1")
+        .replace(/,? ([)\]])/g, "$1")
+        .trim();
+}
+
+/**
+ * Shorten a fragment to a maximum length, marking the cut
+ * @param text Fragment to shorten
+ * @param maxLength Maximum length
+ * @returns Fragment, ending in "…" if it was cut
+ */
+function clip(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Reduce a doc comment or docstring to its first sentence
+ * The sentence ends at a full stop or at the end of its line, unless the next line continues it in lower case
+ * @param text Comment text without delimiters
+ * @returns Summary on one line, empty if the comment has no text before its tags
+ */
+function summarizeDoc(text: string): string {
+    const lines = text
+        .split(/^\s*@/m)[0]
+        .split("\n")
+        .map(line => line.trim());
+    const start = lines.findIndex(Boolean);
+    if (start < 0) {
+        return "";
+    }
+    let summary = lines[start];
+    for (let i = start + 1; i < lines.length && /^[a-z(]/.test(lines[i]) && !/[.!?:]$/.test(summary); i++) {
+        summary += ` ${lines[i]}`;
+    }
+    const sentence = summary.match(/^.*?[.!?](?=\s|$)/);
+    return clip(sentence ? sentence[0] : summary, MAX_DOC_LENGTH);
+}
+
+/**
+ * Outline a TypeScript or JavaScript file with the compiler's parser
+ */
+class TypeScriptOutliner {
+    private readonly sourceFile: ts.SourceFile;
+    private readonly lines: string[] = [];
+
+    constructor(file: FileInfo) {
+        const extension = path.extname(file.path).toLowerCase();
+        this.sourceFile = ts.createSourceFile(
+            file.path,
+            file.content,
+            ts.ScriptTarget.Latest,
+            false,
+            SCRIPT_KIND_BY_EXTENSION[extension] ?? ts.ScriptKind.TS,
+        );
+    }
+
+    outline(): string {
+        this.addStatements(this.sourceFile.statements, "");
+        return this.lines.join("\n");
+    }
+
+    private addStatements(statements: ts.NodeArray<ts.Statement>, indent: string) {
+        for (const statement of statements) {
+            this.addStatement(statement, indent);
+        }
+    }
+
+    private addStatement(node: ts.Statement, indent: string) {
+        if (ts.isFunctionDeclaration(node)) {
+            this.add(node, indent, this.signature(node, node.body));
+        } else if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) {
+            this.addMembers(node, indent);
+        } else if (ts.isTypeAliasDeclaration(node)) {
+            this.add(node, indent, clip(collapse(node.getText(this.sourceFile)), MAX_INLINE_LENGTH));
+        } else if (ts.isEnumDeclaration(node)) {
+            const members = node.members.map(member => member.name.getText(this.sourceFile)).join(", ");
+            this.add(node, indent, `${this.textBetween(node, node.members.pos)} ${clip(members, MAX_INLINE_LENGTH)} }`);
+        } else if (ts.isVariableStatement(node)) {
+            this.addVariables(node, indent);
+        } else if (ts.isModuleDeclaration(node)) {
+            if (node.body && ts.isModuleBlock(node.body)) {
+                this.add(node, indent, this.textBetween(node, node.body.statements.pos));
+                this.addStatements(node.body.statements, indent + INDENT);
+                this.lines.push(`${indent}}`);
+            } else {
+                this.add(node, indent, collapse(node.getText(this.sourceFile)));
+            }
+        } else if (ts.isExportDeclaration(node) || ts.isExportAssignment(node)) {
+            this.add(node, indent, clip(collapse(node.getText(this.sourceFile)), MAX_INLINE_LENGTH));
+        } else if (ts.isExpressionStatement(node) && /^(module\.)?exports\b/.test(node.getText(this.sourceFile))) {
+            // CommonJS exports
+            this.add(node, indent, clip(collapse(node.getText(this.sourceFile)), MAX_INLINE_LENGTH));
+        }
+    }
+
+    private addMembers(node: ts.ClassDeclaration | ts.InterfaceDeclaration, indent: string) {
+        this.add(node, indent, this.textBetween(node, node.members.pos));
+        const memberIndent = indent + INDENT;
+        for (const member of node.members as ts.NodeArray<ts.ClassElement | ts.TypeElement>) {
+            if (this.isPrivate(member)) {
+                continue;
+            }
+            if (
+                ts.isMethodDeclaration(member) ||
+                ts.isConstructorDeclaration(member) ||
+                ts.isGetAccessorDeclaration(member) ||
+                ts.isSetAccessorDeclaration(member)
+            ) {
+                this.add(member, memberIndent, this.signature(member, member.body));
+            } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+                this.add(member, memberIndent, this.declarationWithoutInitializer(member, member.initializer));
+            } else if (!ts.isClassStaticBlockDeclaration(member) && !ts.isSemicolonClassElement(member)) {
+                this.add(member, memberIndent, collapse(member.getText(this.sourceFile)).replace(/[;,]$/, ""));
+            }
+        }
+        this.lines.push(`${indent}}`);
+    }
+
+    private addVariables(node: ts.VariableStatement, indent: string) {
+        const isExported = node.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+        const declarations = node.declarationList.declarations;
+        // "export const " and the like
+        const keyword = this.textBetween(node, declarations[0].getStart(this.sourceFile));
+        for (const declaration of declarations) {
+            const initializer = declaration.initializer;
+            const isFunction = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+            // Only functions of private variables tell something about the file
+            if (!isExported && !isFunction) {
+                continue;
+            }
+            let text: string;
+            if (isFunction) {
+                text = collapse(
+                    this.sourceFile.text.slice(
+                        declaration.getStart(this.sourceFile),
+                        initializer.body.getStart(this.sourceFile),
+                    ),
+                );
+            } else if (initializer && collapse(declaration.getText(this.sourceFile)).length <= MAX_INLINE_LENGTH) {
+                text = collapse(declaration.getText(this.sourceFile));
+            } else {
+                text = initializer
+                    ? this.declarationWithoutInitializer(declaration, initializer)
+                    : collapse(declaration.getText(this.sourceFile));
+            }
+            this.lines.push(...this.docLines(declarations.length === 1 ? node : declaration, indent));
+            this.lines.push(`${indent}${keyword} ${text}`);
+        }
+    }
+
+    private add(node: ts.Node, indent: string, text: string) {
+        this.lines.push(...this.docLines(node, indent));
+        this.lines.push(`${indent}${text}`);
+    }
+
+    /**
+     * First sentence of the JSDoc comment right before a node
+     */
+    private docLines(node: ts.Node, indent: string): string[] {
+        const comment = ts
+            .getLeadingCommentRanges(this.sourceFile.text, node.pos)
+            ?.filter(range => this.sourceFile.text.startsWith("/**", range.pos))
+            .pop();
+        if (!comment) {
+            return [];
+        }
+        const text = this.sourceFile.text.slice(comment.pos + 3, comment.end - 2).replace(/^\s*\* ?/gm, "");
+        const summary = summarizeDoc(text);
+        return summary ? [`${indent}/** ${summary} */`] : [];
+    }
+
+    /**
+     * Declaration of a function-like node up to its body
+     */
+    private signature(node: ts.Node, body: ts.Node | undefined): string {
+        return body ? this.textBetween(node, body.getStart(this.sourceFile)) : collapse(node.getText(this.sourceFile));
+    }
+
+    private declarationWithoutInitializer(node: ts.Node, initializer: ts.Node): string {
+        return this.textBetween(node, initializer.pos).replace(/\s*=$/, "");
+    }
+
+    private textBetween(node: ts.Node, end: number): string {
+        return collapse(this.sourceFile.text.slice(node.getStart(this.sourceFile), end));
+    }
+
+    private isPrivate(member: ts.ClassElement | ts.TypeElement): boolean {
+        return (
+            (member.name !== undefined && ts.isPrivateIdentifier(member.name)) ||
+            (ts.canHaveModifiers(member) &&
+                (ts.getModifiers(member) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword))
+        );
+    }
+}
+
+/**
+ * Outline a Python file: classes, functions and methods with their decorators and the first line of
+ * their docstrings. Functions nested in functions are left out
+ * @param content File content
+ * @returns Outline
+ */
+function outlinePython(content: string): string {
+    const lines = content.split("\n");
+    const outline: string[] = [];
+    // Enclosing definitions, a function hides everything inside it
+    const scopes: Array<{ indent: number; isFunction: boolean }> = [];
+    let decorators: string[] = [];
+
+    const docstringAfter = (start: number): string => {
+        let i = start;
+        while (i < lines.length && !lines[i].trim()) {
+            i++;
+        }
+        const match = lines[i]?.match(PYTHON_DOCSTRING_PATTERN);
+        if (!match) {
+            return "";
+        }
+        const [, quote, rest] = match;
+        // Up to the line holding the closing quotes
+        const body = [rest];
+        for (let j = i + 1; !body[body.length - 1].includes(quote) && j < lines.length; j++) {
+            body.push(lines[j]);
+        }
+        return summarizeDoc(body.join("\n").split(quote)[0]);
+    };
+
+    const moduleDoc = docstringAfter(0);
+    if (moduleDoc) {
+        outline.push(`"""${moduleDoc}"""`);
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (PYTHON_DECORATOR_PATTERN.test(line)) {
+            decorators.push(line.trim());
+            continue;
+        }
+        const match = line.match(PYTHON_DEFINITION_PATTERN);
+        if (!match) {
+            if (line.trim()) {
+                decorators = [];
+            }
+            continue;
+        }
+
+        const indent = match[1].length;
+        while (scopes.length > 0 && scopes[scopes.length - 1].indent >= indent) {
+            scopes.pop();
+        }
+        const hidden = scopes.some(scope => scope.isFunction);
+        const isFunction = !/^\s*class\b/.test(line);
+        scopes.push({ indent, isFunction });
+
+        // The signature ends at the colon closing the header, parameters may span several lines
+        const header = [line];
+        let depth = 0;
+        for (let j = i; j < lines.length; j++) {
+            if (j > i) {
+                header.push(lines[j]);
+            }
+            depth += (lines[j].match(/[([{]/g) || []).length - (lines[j].match(/[)\]}]/g) || []).length;
+            if (depth <= 0 && /:\s*(#.*)?$/.test(lines[j])) {
+                i = j;
+                break;
+            }
+        }
+        if (!hidden) {
+            const prefix = INDENT.repeat(scopes.length - 1);
+            outline.push(...decorators.map(decorator => prefix + decorator));
+            // Comments after parameters on their own lines would end up inside the signature
+            const signature = header.map(headerLine => headerLine.replace(/\s*#[^'"]*$/, "")).join(" ");
+            outline.push(prefix + collapse(signature).replace(/:\s*$/, ""));
+            const doc = docstringAfter(i + 1);
+            if (doc) {
+                outline.push(`${prefix}${INDENT}"""${doc}"""`);
+            }
+        }
+        decorators = [];
+    }
+    return outline.join("\n");
+}
+
+/**
+ * Outline a Go file: top-level functions, methods and types with the first line of their doc comments
+ * @param content File content
+ * @returns Outline
+ */
+function outlineGo(content: string): string {
+    const lines = content.split("\n");
+    const outline: string[] = [];
+    let doc: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.startsWith("//")) {
+            doc.push(line.replace(/^\/\/\s?/, ""));
+            continue;
+        }
+        const docLine = doc.length > 0 ? summarizeDoc(doc.join("\n")) : "";
+        doc = [];
+
+        if (GO_FUNC_PATTERN.test(line)) {
+            // Parameters may span several lines, the signature ends where the body opens
+            const header = [line];
+            while (!/\{\s*(\/\/.*)?$/.test(header[header.length - 1]) && i + 1 < lines.length && lines[i + 1]) {
+                header.push(lines[++i]);
+            }
+            if (docLine) {
+                outline.push(`// ${docLine}`);
+            }
+            outline.push(collapse(header.join(" ")).replace(/\s*\{\s*(\/\/.*)?$/, ""));
+        } else if (GO_TYPE_PATTERN.test(line)) {
+            if (docLine) {
+                outline.push(`// ${docLine}`);
+            }
+            outline.push(line.trimEnd());
+            if (!/[{(]\s*$/.test(line)) {
+                continue;
+            }
+            // Fields, methods or grouped types, up to the closing brace at the start of a line
+            const body: string[] = [];
+            while (i + 1 < lines.length && !/^[})]/.test(lines[i + 1])) {
+                const bodyLine = lines[++i];
+                if (bodyLine.trim() && !bodyLine.trim().startsWith("//")) {
+                    body.push(bodyLine.trimEnd());
+                }
+            }
+            i++;
+            outline.push(...body.slice(0, MAX_GO_TYPE_BODY_LINES));
+            if (body.length > MAX_GO_TYPE_BODY_LINES) {
+                outline.push(`${INDENT}…`);
+            }
+            outline.push(line.trimEnd().endsWith("(") ? ")" : "}");
+        }
+    }
+    return outline.join("\n");
+}
+
+/**
+ * Remove string literals and line comments from a line of Java so its braces can be counted
+ * @param line Line of code
+ * @returns Line without strings and comments
+ */
+function stripJavaLiterals(line: string): string {
+    return line
+        .replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, '""')
+        .replace(/\/\/.*$/, "")
+        .replace(/\/\*.*?\*\//g, "");
+}
+
+/**
+ * Outline a Java file: types and their public and protected members with the first sentence of
+ * their Javadoc. Interface members are kept whatever their modifiers
+ * @param content File content
+ * @returns Outline
+ */
+function outlineJava(content: string): string {
+    const lines = content.split("\n");
+    const outline: string[] = [];
+    // Types being declared, with the brace depth of their bodies
+    const types: Array<{ depth: number; isInterface: boolean }> = [];
+    let depth = 0;
+    let javadoc: string[] | undefined;
+    let lastJavadoc = "";
+    let inComment = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (javadoc) {
+            javadoc.push(line.replace(/^\s*\*?\s?/, "").replace(/\*\/.*$/, ""));
+            if (line.includes("*/")) {
+                lastJavadoc = summarizeDoc(javadoc.join("\n"));
+                javadoc = undefined;
+            }
+            continue;
+        }
+        if (inComment) {
+            inComment = !line.includes("*/");
+            continue;
+        }
+        if (/^\s*\/\*\*/.test(line)) {
+            javadoc = [line.replace(/^\s*\/\*\*\s?/, "").replace(/\*\/.*$/, "")];
+            if (line.includes("*/")) {
+                lastJavadoc = summarizeDoc(javadoc.join("\n"));
+                javadoc = undefined;
+            }
+            continue;
+        }
+        if (/^\s*\/\*/.test(line) && !line.includes("*/")) {
+            inComment = true;
+            continue;
+        }
+
+        while (types.length > 0 && depth < types[types.length - 1].depth) {
+            types.pop();
+        }
+        const enclosing = types[types.length - 1];
+        const isMemberLevel = types.length === 0 || depth === enclosing.depth;
+
+        let declaration: string | undefined;
+        const typeMatch = isMemberLevel ? line.match(JAVA_TYPE_PATTERN) : null;
+        const methodMatch =
+            isMemberLevel && enclosing && !typeMatch && !JAVA_STATEMENT_KEYWORDS.test(line)
+                ? line.match(JAVA_METHOD_PATTERN)
+                : null;
+        if (typeMatch || methodMatch) {
+            // The declaration ends where its body opens or with a semicolon
+            const header = [line];
+            let j = i;
+            while (!/[{;]/.test(stripJavaLiterals(lines[j])) && j + 1 < lines.length) {
+                header.push(lines[++j]);
+            }
+            const modifiers = methodMatch?.[1] ?? "";
+            const isVisible =
+                typeMatch ||
+                /\b(public|protected)\b/.test(modifiers) ||
+                (enclosing?.isInterface && !/\bprivate\b/.test(modifiers));
+            if (isVisible) {
+                declaration = collapse(stripJavaLiterals(header.join(" "))).replace(/\s*[{;].*$/, "");
+            }
+            if (typeMatch) {
+                types.push({ depth: depth + 1, isInterface: /interface/.test(typeMatch[1]) });
+            }
+        }
+
+        if (declaration) {
+            const prefix = INDENT.repeat(types.length - (typeMatch ? 1 : 0));
+            if (lastJavadoc) {
+                outline.push(`${prefix}/** ${lastJavadoc} */`);
+            }
+            outline.push(prefix + declaration);
+        }
+        if (line.trim() && !line.trim().startsWith("@")) {
+            lastJavadoc = "";
+        }
+        const code = stripJavaLiterals(line);
+        depth += (code.match(/\{/g) || []).length - (code.match(/\}/g) || []).length;
+    }
+    return outline.join("\n");
+}
+
+/**
+ * Outline a Markdown file by its headings, a "#" line in a fenced code block is not one
+ * @param content File content
+ * @returns Headings, one per line
+ */
+function outlineMarkdown(content: string): string {
+    let inCodeBlock = false;
+    return content
+        .split("\n")
+        .filter(line => {
+            if (MARKDOWN_FENCE_PATTERN.test(line)) {
+                inCodeBlock = !inCodeBlock;
+                return false;
+            }
+            return !inCodeBlock && MARKDOWN_HEADING_PATTERN.test(line);
+        })
+        .map(line => line.trimEnd())
+        .join("\n");
+}
+
+/**
+ * Build a compact outline of a file for prompts that need to know what a file declares but not how
+ * TypeScript and JavaScript are parsed with the TypeScript compiler, Python, Go, Java and Markdown with
+ * lightweight line parsers. Other files keep their declaration lines, or their first lines if none
+ * @param file File to outline
+ * @returns Outline of the file's declarations, signatures and doc comments
+ */
+export function extractSymbolOutline(file: FileInfo): string {
+    const language = LANGUAGE_BY_EXTENSION[path.extname(file.path).toLowerCase()];
+    let outline = "";
+    try {
+        switch (language) {
+            case "typescript":
+                outline = new TypeScriptOutliner(file).outline();
+                break;
+            case "python":
+                outline = outlinePython(file.content);
+                break;
+            case "go":
+                outline = outlineGo(file.content);
+                break;
+            case "java":
+                outline = outlineJava(file.content);
+                break;
+            case "markdown":
+                outline = outlineMarkdown(file.content);
+                break;
+        }
+    } catch (error) {
+        console.warn("WARNING", `Failed to outline ${file.path}:`, error);
+    }
+    if (!outline) {
+        outline = outlineContent(file.content);
+    }
+    return outline || file.content.split("\n").slice(0, FALLBACK_LINES).join("\n");
+}
+
+/**
+ * Outline every file of a project
+ * @param files Project files
+ * @returns Outline of each file, by file index
+ */
+export function extractSymbolOutlines(files: FileInfo[]): string[] {
+    return files.map(extractSymbolOutline);
+}
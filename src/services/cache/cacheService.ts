@@ -1,117 +1,550 @@
-import * as fs from 'fs/promises';
-import path from 'path';
-import * as vscode from 'vscode';
-import { ensureDirectoryExists } from '../../utils';
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import path from "path";
+import * as vscode from "vscode";
+import { DEFAULT_CONFIG } from "../../constants";
+import { GlobalConfig, TokenUsage } from "../../types";
+import { ensureDirectoryExists, withFileLock } from "../../utils";
 
-// Cache file constants
-const CACHE_FILENAME = "agentic-wiki.llm_cache.json";
-let cacheFilePath: string = "";
+// Cache storage constants: one JSON file per entry, in subdirectories named after the first two key characters
+const CACHE_DIRNAME = "llm_cache";
+const CACHE_LOCK_FILENAME = ".lock";
+// Cache kept in the workspace, next to the generated Wiki, so it can be committed
+const WORKSPACE_CACHE_DIRNAME = ".cache";
+// Single-file cache of earlier versions, migrated into the entry files
+const LEGACY_CACHE_FILENAME = "agentic-wiki.llm_cache.json";
+// Bump when the key derivation changes, old keys then simply stop matching
+const CACHE_KEY_VERSION = 1;
+// Minimum time between two eviction passes
+const PRUNE_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export interface Cache {
-    [key: string]: string;
+let cacheLimits: CacheLimits = { maxSizeMb: DEFAULT_CONFIG.cacheMaxSizeMb, ttlDays: DEFAULT_CONFIG.cacheTtlDays };
+// Last eviction pass of each cache directory
+const lastPruneAt = new Map<string, number>();
+const migratedStoragePaths = new Set<string>();
+
+/**
+ * A cache directory, passed to every cache function so runs and commands on different folders don't share state
+ */
+export interface CacheStore {
+    dir: string;
+    /**
+     * Kept in the workspace and shared through version control: entries leave out prompts and local paths,
+     * and are never expired or evicted since they are committed files. Only clearing the cache removes them
+     */
+    shared: boolean;
 }
 
 /**
- * Initialize the cache file path using the extension context
- * This should be called during extension activation
+ * What an LLM answer depends on, and therefore what it is cached under
+ */
+export interface CacheKeyInput {
+    provider: string;
+    model: string;
+    prompt: string;
+    /** Sampling parameters sent with the request, omitted while requests use the server's defaults */
+    params?: Record<string, unknown>;
+}
+
+/**
+ * A cached LLM answer with the details of the request that produced it
+ */
+export interface CacheEntry {
+    response: string;
+    /** Provider and model that answered, missing for entries migrated from the prompt-keyed cache */
+    provider?: string;
+    model?: string;
+    prompt?: string;
+    /** Project directory the request was made for, not part of the key */
+    workspace?: string;
+    createdAt: string;
+    usage?: TokenUsage;
+}
+
+/**
+ * A stored entry as listed for browsing, without its prompt and response
+ */
+export interface CacheEntryInfo {
+    key: string;
+    provider?: string;
+    model?: string;
+    workspace?: string;
+    createdAt: string;
+    lastUsedAt: string;
+    bytes: number;
+    /** Start of the prompt */
+    promptPreview: string;
+}
+
+/**
+ * Size of the cache on disk
+ */
+export interface CacheStats {
+    directory: string;
+    entries: number;
+    bytes: number;
+}
+
+/**
+ * Bounds of the cache, 0 disables a bound
+ */
+export interface CacheLimits {
+    /** Least recently used entries are evicted once the cache grows past this size */
+    maxSizeMb: number;
+    /** Entries older than this are dropped */
+    ttlDays: number;
+}
+
+/**
+ * Result of an eviction pass
+ */
+export interface PruneResult {
+    expired: number;
+    evicted: number;
+    remainingEntries: number;
+    remainingBytes: number;
+}
+
+/**
+ * An entry file on disk
+ */
+interface EntryFile {
+    path: string;
+    size: number;
+    /** Modification time, updated whenever the entry is used */
+    lastUsed: number;
+}
+
+/**
+ * Single-file cache of the previous version
+ */
+interface LegacyCacheFile {
+    version: 2;
+    entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Single-file cache of the first version: the raw prompt mapped to the answer
+ */
+type PromptKeyedCacheFile = Record<string, string>;
+
+/**
+ * Get the cache directory inside the workspace if the configuration asks for one
+ * @param config Cache location, project directory and output directory
+ * @returns Workspace cache directory, undefined if the cache lives in the extension's global storage
+ */
+export function resolveWorkspaceCacheDir(
+    config: Pick<GlobalConfig, "cacheLocation" | "localDir" | "outputDir">,
+): string | undefined {
+    if (config.cacheLocation !== "workspace" || !config.localDir) {
+        return undefined;
+    }
+    return path.resolve(config.localDir, config.outputDir, WORKSPACE_CACHE_DIRNAME);
+}
+
+/**
+ * Initialize a cache directory, migrating a single-file cache of earlier versions
  * @param context VS Code extension context
- * @returns Promise that resolves when initialization is complete
+ * @param workspaceCacheDir Cache directory inside the workspace, the extension's global storage is used if omitted
+ * @returns The cache to pass to the other cache functions
  */
-export async function initializeCachePath(context: vscode.ExtensionContext): Promise<void> {
+export async function initializeCachePath(
+    context: vscode.ExtensionContext,
+    workspaceCacheDir?: string,
+): Promise<CacheStore> {
+    if (workspaceCacheDir) {
+        const store: CacheStore = { dir: workspaceCacheDir, shared: true };
+        try {
+            await ensureDirectoryExists(store.dir);
+            // Keep the lock and temporary files out of commits
+            await fs.writeFile(path.join(store.dir, ".gitignore"), `${CACHE_LOCK_FILENAME}\n*.tmp\n`, {
+                flag: "wx",
+            });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                console.error("ERROR", `Failed to create cache directory: ${error}`);
+            }
+        }
+        return store;
+    }
+
     // Use the extension's global storage path for cache
     const storagePath = context.globalStorageUri.fsPath;
-    cacheFilePath = path.join(storagePath, CACHE_FILENAME);
+    const store: CacheStore = { dir: path.join(storagePath, CACHE_DIRNAME), shared: false };
 
     try {
         // Ensure the storage directory exists
-        await ensureDirectoryExists(storagePath);
-        console.log("INFO", `Cache file path initialized: ${cacheFilePath}`);
+        await ensureDirectoryExists(store.dir);
+        if (!migratedStoragePaths.has(storagePath)) {
+            migratedStoragePaths.add(storagePath);
+            await migrateCacheFile(store, path.join(storagePath, LEGACY_CACHE_FILENAME));
+            console.log("INFO", `Cache directory initialized: ${store.dir}`);
+        }
     } catch (error) {
         console.error("ERROR", `Failed to create cache directory: ${error}`);
     }
+    return store;
+}
+
+/**
+ * Set the size and age bounds of the cache
+ * @param limits Cache bounds
+ */
+export function configureCache(limits: CacheLimits): void {
+    cacheLimits = limits;
 }
 
 /**
- * Read cache from file with proper error handling
- * @returns Cache object or empty object if file doesn't exist or is invalid
+ * Sort object keys recursively so equal parameters always serialize the same way
  */
-export async function readCache(): Promise<Cache> {
-    // Check if cache path is initialized
-    if (!cacheFilePath) {
-        console.warn("WARNING", "Cache file path not initialized, using empty cache");
-        return {};
+function canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(canonicalize);
+    }
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.keys(value)
+                .sort()
+                .map(key => [key, canonicalize((value as Record<string, unknown>)[key])]),
+        );
     }
+    return value;
+}
+
+/**
+ * Derive the cache key of a request
+ * @param input Provider, model, prompt and sampling parameters of the request
+ * @returns Hex SHA-256 hash, so keys stay short however long the prompt is
+ */
+export function createCacheKey({ provider, model, prompt, params = {} }: CacheKeyInput): string {
+    return createHash("sha256")
+        .update(JSON.stringify([CACHE_KEY_VERSION, provider, model, canonicalize(params), prompt]))
+        .digest("hex");
+}
+
+/**
+ * Key of an entry migrated from the prompt-keyed cache, which didn't record the model
+ * @param prompt Prompt of the entry
+ * @returns Hex SHA-256 hash
+ */
+function createLegacyCacheKey(prompt: string): string {
+    return createHash("sha256")
+        .update(JSON.stringify([CACHE_KEY_VERSION, "legacy", prompt]))
+        .digest("hex");
+}
+
+/**
+ * Get the file an entry is stored in
+ * @param store Cache
+ * @param key Cache key
+ * @returns Path of the entry file
+ */
+function getEntryPath(store: CacheStore, key: string): string {
+    return path.join(store.dir, key.slice(0, 2), `${key}.json`);
+}
+
+/**
+ * Check whether an entry has outlived the TTL
+ * @param entry Cache entry
+ * @returns True if the entry must not be used anymore
+ */
+function isExpired(entry: CacheEntry): boolean {
+    return cacheLimits.ttlDays > 0 && Date.now() - Date.parse(entry.createdAt) > cacheLimits.ttlDays * DAY_MS;
+}
 
+/**
+ * Read an entry file, marking the entry as recently used
+ * @param store Cache
+ * @param key Cache key
+ * @returns The entry, or null if there is none, it is unreadable or it expired
+ */
+async function readEntry(store: CacheStore, key: string): Promise<CacheEntry | null> {
+    const entryPath = getEntryPath(store, key);
+    let entry: CacheEntry;
     try {
-        // Check if cache file exists using async access
+        entry = JSON.parse(await fs.readFile(entryPath, "utf-8"));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.warn("WARNING", `Failed to read cache entry ${entryPath}: ${error}`);
+        }
+        return null;
+    }
+
+    if (!store.shared && isExpired(entry)) {
+        await fs.rm(entryPath, { force: true });
+        return null;
+    }
+    // The modification time tracks the last use, eviction removes the least recently used entries first
+    const now = new Date();
+    await fs.utimes(entryPath, now, now).catch(() => undefined);
+    return entry;
+}
+
+/**
+ * Write an entry file
+ * Written to a uniquely named temporary file and renamed, so concurrent writers never produce a torn entry
+ * @param store Cache
+ * @param key Cache key
+ * @param entry Entry to store
+ */
+async function writeEntry(store: CacheStore, key: string, entry: CacheEntry): Promise<void> {
+    const entryPath = getEntryPath(store, key);
+    await fs.mkdir(path.dirname(entryPath), { recursive: true });
+    const tempFilePath = `${entryPath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(tempFilePath, JSON.stringify(entry, null, 2));
+    await fs.rename(tempFilePath, entryPath);
+}
+
+/**
+ * Move the entries of a single-file cache of earlier versions into entry files
+ * @param store Cache the entries are moved into
+ * @param filePath Path of the single-file cache
+ */
+async function migrateCacheFile(store: CacheStore, filePath: string): Promise<void> {
+    await withFileLock(path.join(store.dir, CACHE_LOCK_FILENAME), async () => {
+        let data: string;
         try {
-            await fs.access(cacheFilePath);
+            data = await fs.readFile(filePath, "utf-8");
         } catch {
-            // File doesn't exist
-            return {};
+            // Nothing to migrate, or another window migrated it already
+            return;
+        }
+
+        let entries: Record<string, CacheEntry> = {};
+        try {
+            const parsed = data.trim() ? JSON.parse(data) : {};
+            if ((parsed as LegacyCacheFile).version === 2 && parsed.entries) {
+                entries = (parsed as LegacyCacheFile).entries;
+            } else {
+                const createdAt = new Date().toISOString();
+                for (const [prompt, response] of Object.entries(parsed as PromptKeyedCacheFile)) {
+                    if (typeof response === "string") {
+                        entries[createLegacyCacheKey(prompt)] = { response, prompt, createdAt };
+                    }
+                }
+            }
+        } catch (error) {
+            console.warn("WARNING", `Discarding unreadable cache file ${filePath}: ${error}`);
         }
 
-        // Read file asynchronously
-        const data = await fs.readFile(cacheFilePath, "utf-8");
-        
-        // Check if file is empty
-        if (!data.trim()) {
-            return {};
+        for (const [key, entry] of Object.entries(entries)) {
+            await writeEntry(store, key, entry);
         }
-        
-        return JSON.parse(data);
-    } catch (error) {
-        console.warn("WARNING", `Failed to read cache file: ${error}`);
-        return {};
+        await fs.rm(filePath, { force: true });
+        console.log("INFO", `Migrated ${Object.keys(entries).length} entries of ${filePath}`);
+    });
+}
+
+/**
+ * Look up the cached answer of a request
+ * An entry migrated from the prompt-keyed cache is claimed by the first request with its prompt,
+ * and is stored under that request's key from then on
+ * @param store Cache
+ * @param input Provider, model, prompt and sampling parameters of the request
+ * @returns The cached entry or null if not found
+ */
+export async function getCacheEntry(store: CacheStore, input: CacheKeyInput): Promise<CacheEntry | null> {
+    const key = createCacheKey(input);
+    const entry = await readEntry(store, key);
+    if (entry) {
+        return entry;
+    }
+
+    const legacyKey = createLegacyCacheKey(input.prompt);
+    const legacyEntry = await readEntry(store, legacyKey);
+    if (!legacyEntry) {
+        return null;
     }
+    const claimedEntry: CacheEntry = { ...legacyEntry, provider: input.provider, model: input.model };
+    await writeEntry(store, key, claimedEntry);
+    await fs.rm(getEntryPath(store, legacyKey), { force: true });
+    return claimedEntry;
 }
 
 /**
- * Write cache to file with proper error handling
- * @param cache Cache object to write
+ * Cache the answer of a request
+ * @param store Cache
+ * @param input Provider, model, prompt and sampling parameters of the request
+ * @param response The answer to cache
+ * @param details Token usage of the request and the project it was made for, if known
  */
-export async function writeCache(cache: Cache): Promise<void> {
-    // Check if cache path is initialized
-    if (!cacheFilePath) {
-        console.warn("WARNING", "Cache file path not initialized, cannot write cache");
-        return;
+export async function setCacheEntry(
+    store: CacheStore,
+    input: CacheKeyInput,
+    response: string,
+    { usage, workspace }: Pick<CacheEntry, "usage" | "workspace"> = {},
+): Promise<void> {
+    await writeEntry(store, createCacheKey(input), {
+        response,
+        provider: input.provider,
+        model: input.model,
+        prompt: store.shared ? undefined : input.prompt,
+        workspace: store.shared ? undefined : workspace,
+        createdAt: new Date().toISOString(),
+        usage,
+    });
+
+    if (!store.shared && Date.now() - (lastPruneAt.get(store.dir) ?? 0) > PRUNE_INTERVAL_MS) {
+        lastPruneAt.set(store.dir, Date.now());
+        try {
+            await pruneCache(store);
+        } catch (error) {
+            console.warn("WARNING", `Failed to prune cache: ${error}`);
+        }
     }
+}
 
-    try {
-        // Ensure the directory exists
-        const cacheDir = path.dirname(cacheFilePath);
-        await ensureDirectoryExists(cacheDir);
-
-        // Write to a temporary file first (asynchronously)
-        const tempFilePath = `${cacheFilePath}.tmp`;
-        await fs.writeFile(tempFilePath, JSON.stringify(cache, null, 2));
-
-        // Rename the temporary file to the actual cache file (atomic operation, asynchronously)
-        await fs.rename(tempFilePath, cacheFilePath);
-        
-        console.log("INFO", "Cache updated successfully");
-    } catch (error) {
-        console.error("ERROR", `Failed to write cache file: ${error}`);
+/**
+ * List the entry files of the cache
+ * @param store Cache
+ * @returns Path, size and last use of every entry file
+ */
+async function listEntryFiles(store: CacheStore): Promise<EntryFile[]> {
+    const files: EntryFile[] = [];
+    const shards = await fs.readdir(store.dir, { withFileTypes: true }).catch(() => []);
+    for (const shard of shards.filter(entry => entry.isDirectory())) {
+        const shardDir = path.join(store.dir, shard.name);
+        for (const name of await fs.readdir(shardDir)) {
+            const filePath = path.join(shardDir, name);
+            const stat = await fs.stat(filePath).catch(() => undefined);
+            if (stat) {
+                files.push({ path: filePath, size: stat.size, lastUsed: stat.mtimeMs });
+            }
+        }
+    }
+    return files;
+}
+
+/**
+ * Drop expired entries, then evict least recently used entries until the cache fits its size limit
+ * Holds the cache lock so two windows don't prune at the same time.
+ * A shared workspace cache consists of committed files and is left alone
+ * @param store Cache
+ * @returns Number of removed and remaining entries
+ */
+export async function pruneCache(store: CacheStore): Promise<PruneResult> {
+    const result: PruneResult = { expired: 0, evicted: 0, remainingEntries: 0, remainingBytes: 0 };
+    return withFileLock(path.join(store.dir, CACHE_LOCK_FILENAME), async () => {
+        const files = await listEntryFiles(store);
+        if (store.shared) {
+            result.remainingEntries = files.length;
+            result.remainingBytes = files.reduce((sum, file) => sum + file.size, 0);
+            return result;
+        }
+
+        // An entry unused for longer than the TTL is older than the TTL as well
+        const ttlMs = cacheLimits.ttlDays * DAY_MS;
+        const live = files.filter(file => {
+            if (ttlMs > 0 && Date.now() - file.lastUsed > ttlMs) {
+                result.expired++;
+                return false;
+            }
+            return true;
+        });
+        for (const file of files.filter(file => !live.includes(file))) {
+            await fs.rm(file.path, { force: true });
+        }
+
+        let totalBytes = live.reduce((sum, file) => sum + file.size, 0);
+        const maxBytes = cacheLimits.maxSizeMb * 1024 * 1024;
+        if (maxBytes > 0 && totalBytes > maxBytes) {
+            // Least recently used first
+            live.sort((a, b) => a.lastUsed - b.lastUsed);
+            for (const file of live) {
+                if (totalBytes <= maxBytes) {
+                    break;
+                }
+                await fs.rm(file.path, { force: true });
+                totalBytes -= file.size;
+                result.evicted++;
+            }
+        }
+
+        result.remainingEntries = live.length - result.evicted;
+        result.remainingBytes = totalBytes;
+        if (result.expired > 0 || result.evicted > 0) {
+            console.log("INFO", `Cache pruned: ${result.expired} expired, ${result.evicted} evicted`);
+        }
+        return result;
+    });
+}
+
+/**
+ * Get the size of the cache
+ * @param store Cache
+ * @returns Number of entries and their total size
+ */
+export async function getCacheStats(store: CacheStore): Promise<CacheStats> {
+    const files = (await listEntryFiles(store)).filter(file => file.path.endsWith(".json"));
+    return { directory: store.dir, entries: files.length, bytes: files.reduce((sum, file) => sum + file.size, 0) };
+}
+
+/**
+ * List the stored entries, most recently used first
+ * @param store Cache
+ * @returns Details of every readable entry
+ */
+export async function listCacheEntries(store: CacheStore): Promise<CacheEntryInfo[]> {
+    const entries: CacheEntryInfo[] = [];
+    for (const file of await listEntryFiles(store)) {
+        if (!file.path.endsWith(".json")) {
+            continue;
+        }
+        try {
+            const entry: CacheEntry = JSON.parse(await fs.readFile(file.path, "utf-8"));
+            entries.push({
+                key: path.basename(file.path, ".json"),
+                provider: entry.provider,
+                model: entry.model,
+                workspace: entry.workspace,
+                createdAt: entry.createdAt,
+                lastUsedAt: new Date(file.lastUsed).toISOString(),
+                bytes: file.size,
+                promptPreview: (entry.prompt ?? "").trim().replace(/\s+/g, " ").slice(0, 200),
+            });
+        } catch (error) {
+            console.warn("WARNING", `Skipping unreadable cache entry ${file.path}: ${error}`);
+        }
     }
+    return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
 }
 
 /**
- * Get a value from the cache
- * @param key The cache key
- * @returns The cached value or null if not found
+ * Read a stored entry without counting it as used
+ * @param store Cache
+ * @param key Cache key
+ * @returns The entry, or null if there is none
  */
-export async function getCacheValue(key: string): Promise<string | null> {
-    const cache = await readCache();
-    return key in cache ? cache[key] : null;
+export async function loadCacheEntry(store: CacheStore, key: string): Promise<CacheEntry | null> {
+    try {
+        return JSON.parse(await fs.readFile(getEntryPath(store, key), "utf-8"));
+    } catch {
+        return null;
+    }
 }
 
 /**
- * Set a value in the cache
- * @param key The cache key
- * @param value The value to cache
+ * Remove entries from the cache
+ * @param store Cache
+ * @param keys Keys of the entries to remove, all entries if omitted
+ * @returns Number of removed entries
  */
-export async function setCacheValue(key: string, value: string): Promise<void> {
-    const cache = await readCache();
-    cache[key] = value;
-    await writeCache(cache);
+export async function clearCache(store: CacheStore, keys?: string[]): Promise<number> {
+    return withFileLock(path.join(store.dir, CACHE_LOCK_FILENAME), async () => {
+        const files = keys
+            ? keys.map(key => getEntryPath(store, key))
+            : (await listEntryFiles(store)).map(file => file.path);
+        let removed = 0;
+        for (const file of files) {
+            try {
+                await fs.rm(file);
+                removed++;
+            } catch {
+                // Already gone
+            }
+        }
+        console.log("INFO", `Removed ${removed} cache entries`);
+        return removed;
+    });
 }
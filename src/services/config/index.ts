@@ -1 +1,2 @@
 export * from './configService';
+export * from './workspaceConfigService';
@@ -0,0 +1,95 @@
+import * as vscode from "vscode";
+import path from "path";
+import { CONFIG_KEY, DEFAULT_CONFIG, FOLDER_CONFIG_KEYS, FOLDER_CONFIGS_KEY } from "../../constants";
+import { FolderConfig, GlobalConfig } from "../../types";
+
+/**
+ * Pick the project settings out of a configuration
+ * @param config Configuration
+ * @returns Settings kept per workspace folder
+ */
+function pickFolderConfig(config: Partial<GlobalConfig>): Partial<FolderConfig> {
+    return Object.fromEntries(
+        FOLDER_CONFIG_KEYS.filter(key => key in config).map(key => [key, config[key]]),
+    ) as Partial<FolderConfig>;
+}
+
+/**
+ * Ask which workspace folder a command works on
+ * A single folder is used without asking
+ * @param placeHolder Prompt of the folder picker
+ * @returns Selected folder, undefined if no folder is open
+ * @throws vscode.CancellationError if the user dismissed the picker
+ */
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length <= 1) {
+        return folders[0];
+    }
+    const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder, ignoreFocusOut: true });
+    if (!folder) {
+        throw new vscode.CancellationError();
+    }
+    return folder;
+}
+
+/**
+ * Load the configuration of a workspace folder: the shared settings with the folder's project settings
+ * A folder without settings of its own documents the folder with default project settings,
+ * unless it is the project the settings of earlier versions were saved for
+ * @param context VS Code extension context
+ * @param folder Workspace folder, undefined uses the shared settings alone
+ * @returns Configuration with defaults for unset settings
+ */
+export function loadWorkspaceConfig(context: vscode.ExtensionContext, folder?: vscode.WorkspaceFolder): GlobalConfig {
+    const savedConfig = context.globalState.get<Partial<GlobalConfig>>(CONFIG_KEY) || {};
+    if (!folder) {
+        return { ...DEFAULT_CONFIG, ...savedConfig };
+    }
+
+    const folderPath = folder.uri.fsPath;
+    const folderConfigs = context.globalState.get<Record<string, Partial<FolderConfig>>>(FOLDER_CONFIGS_KEY) || {};
+    let folderConfig = folderConfigs[folderPath];
+    if (!folderConfig) {
+        const isLegacyProject = !!savedConfig.localDir && path.resolve(savedConfig.localDir) === folderPath;
+        folderConfig = isLegacyProject ? pickFolderConfig(savedConfig) : { localDir: folderPath };
+    }
+    return {
+        ...DEFAULT_CONFIG,
+        ...savedConfig,
+        ...pickFolderConfig(DEFAULT_CONFIG),
+        localDir: folderPath,
+        ...folderConfig,
+    };
+}
+
+/**
+ * Save a configuration: the project settings for the workspace folder, the rest for every project
+ * The project settings of other folders are left as they are
+ * @param context VS Code extension context
+ * @param config Configuration to save, without the API key
+ * @param folder Workspace folder, undefined saves every setting as shared
+ */
+export async function saveWorkspaceConfig(
+    context: vscode.ExtensionContext,
+    config: GlobalConfig,
+    folder?: vscode.WorkspaceFolder,
+): Promise<void> {
+    if (!folder) {
+        await context.globalState.update(CONFIG_KEY, config);
+        return;
+    }
+
+    const savedConfig = context.globalState.get<Partial<GlobalConfig>>(CONFIG_KEY) || {};
+    const sharedConfig = Object.fromEntries(
+        Object.entries(config).filter(([key]) => !(FOLDER_CONFIG_KEYS as string[]).includes(key)),
+    );
+    // Project settings saved by earlier versions stay in the shared settings for the folder they belong to
+    await context.globalState.update(CONFIG_KEY, { ...savedConfig, ...sharedConfig });
+
+    const folderConfigs = context.globalState.get<Record<string, Partial<FolderConfig>>>(FOLDER_CONFIGS_KEY) || {};
+    await context.globalState.update(FOLDER_CONFIGS_KEY, {
+        ...folderConfigs,
+        [folder.uri.fsPath]: pickFolderConfig(config),
+    });
+}
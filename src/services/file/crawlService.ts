@@ -1,128 +1,473 @@
-import fs from "fs";
+import fs from "fs/promises";
 import path from "path";
 import { minimatch } from "minimatch";
-import ignore from "ignore";
 import { FileInfo } from "../../types";
+import { createConcurrencyLimiter, throwIfCancelled } from "../../utils/commonUtils";
+import { decodeText, detectGenerated } from "../../utils/encodingUtils";
+import { getRepoPrefix, GitTreeFile, listTrackedFiles, listTreeFiles, readBlobs, resolveCommit } from "../git";
 import { LoggerService } from "../logger";
+import { IgnoreSource, IgnoreStack, PROJECT_IGNORE_FILENAME } from "./ignoreService";
 
-interface CrawlResult {
+// File system operations in flight at once, enough to hide latency without exhausting file handles
+const DEFAULT_IO_CONCURRENCY = 32;
+
+/**
+ * Why a file or directory was left out of the crawl
+ */
+export type CrawlSkipReason =
+    | "gitignored"
+    | "wikiignored"
+    | "excluded"
+    | "not-included"
+    | "too-large"
+    | "binary"
+    | "minified"
+    | "generated"
+    | "symlink-loop"
+    | "unreadable";
+
+const IGNORE_SKIP_REASONS: Record<IgnoreSource, CrawlSkipReason> = {
+    gitignore: "gitignored",
+    agenticwikiignore: "wikiignored",
+};
+
+export interface SkippedFile {
+    path: string;
+    reason: CrawlSkipReason;
+}
+
+export interface CrawlResult {
     files: FileInfo[];
+    /** Files and directories left out, with the reason */
+    skipped: SkippedFile[];
+}
+
+/**
+ * Which version of the files a git crawl reads
+ * - tracked: the working tree content of the files git tracks
+ * - ref: the content of a commit, branch or tag, read from the repository without checking it out
+ */
+export type GitCrawlSource = { mode: "tracked" } | { mode: "ref"; ref: string };
+
+export interface GitCrawlResult extends CrawlResult {
+    /** SHA of the crawled commit, HEAD for tracked files */
+    commit: string;
+}
+
+/**
+ * Counts reported while the crawl is running
+ */
+export interface CrawlProgress {
+    /** Files looked at so far */
+    scanned: number;
+    included: number;
+    skipped: Record<CrawlSkipReason, number>;
+    /** Path of the last file looked at */
+    currentPath: string;
+}
+
+export interface CrawlOptions {
+    /** Maximum number of file system operations in flight */
+    concurrency?: number;
+    /** Aborted when the user cancels the run */
+    signal?: AbortSignal;
+    /** Called after every file or skipped directory */
+    onProgress?: (progress: CrawlProgress) => void;
+}
+
+/**
+ * Skipped files and progress counters of one crawl
+ */
+class CrawlTracker {
+    private readonly skipped: SkippedFile[] = [];
+    private readonly progress: CrawlProgress = {
+        scanned: 0,
+        included: 0,
+        skipped: {
+            gitignored: 0,
+            wikiignored: 0,
+            excluded: 0,
+            "not-included": 0,
+            "too-large": 0,
+            binary: 0,
+            minified: 0,
+            generated: 0,
+            "symlink-loop": 0,
+            unreadable: 0,
+        },
+        currentPath: "",
+    };
+
+    constructor(private readonly onProgress?: (progress: CrawlProgress) => void) {}
+
+    scan() {
+        this.progress.scanned++;
+    }
+
+    skip(relPath: string, reason: CrawlSkipReason) {
+        this.skipped.push({ path: relPath, reason });
+        this.progress.skipped[reason]++;
+        this.report(relPath);
+    }
+
+    include(relPath: string) {
+        this.progress.included++;
+        this.report(relPath);
+    }
+
+    /**
+     * @param files Files included by the crawl
+     * @returns Crawl result, with the skips sorted by path since they were recorded in completion order
+     */
+    finish(files: FileInfo[]): CrawlResult {
+        this.skipped.sort((a, b) => a.path.localeCompare(b.path));
+        return { files, skipped: this.skipped };
+    }
+
+    private report(relPath: string) {
+        this.progress.currentPath = relPath;
+        this.onProgress?.({ ...this.progress, skipped: { ...this.progress.skipped } });
+    }
+}
+
+/**
+ * Check a file path against the include patterns
+ * @param relPath Path relative to the crawl root
+ * @param includePatterns File patterns to include, none includes every file
+ * @returns Whether the file is included
+ */
+function isIncluded(relPath: string, includePatterns?: string[]): boolean {
+    return (
+        !includePatterns ||
+        includePatterns.includes("*") ||
+        includePatterns.some(pattern => minimatch(relPath, pattern))
+    );
+}
+
+/**
+ * Check a path against the exclude patterns
+ * @param relPath Path relative to the crawl root
+ * @param excludePatterns File patterns to exclude
+ * @returns Whether the path is excluded
+ */
+function isExcluded(relPath: string, excludePatterns?: string[]): boolean {
+    return excludePatterns?.some(pattern => minimatch(relPath, pattern)) ?? false;
+}
+
+/**
+ * Check a file path against the exclude patterns, itself or through one of its directories
+ * Matches what the directory crawl leaves out, which doesn't enter an excluded directory
+ * @param relPath File path relative to the crawl root
+ * @param excludePatterns File patterns to exclude
+ * @returns Whether the file is excluded
+ */
+function isPathExcluded(relPath: string, excludePatterns?: string[]): boolean {
+    const parts = relPath.split(path.sep);
+    return parts.some((_, i) => isExcluded(parts.slice(0, i + 1).join(path.sep), excludePatterns));
+}
+
+/**
+ * Decode the content of a file that passed the path filters
+ * Binary files, minified and generated code are skipped, text is decoded in its own encoding
+ * @param bytes File content
+ * @param relPath Path of the file in the crawl result
+ * @param tracker Tracker of the crawl
+ * @returns File info, null if the file was skipped
+ */
+function decodeFile(bytes: Buffer, relPath: string, tracker: CrawlTracker): FileInfo | null {
+    // Skip binary files and decode text in its own encoding
+    const decoded = decodeText(bytes);
+    if (!decoded) {
+        tracker.skip(relPath, "binary");
+        return null;
+    }
+    if (decoded.encoding !== "utf-8") {
+        LoggerService.getInstance().info(`Decoded ${relPath} as ${decoded.encoding}`);
+    }
+
+    // Skip minified and generated code
+    const generated = detectGenerated(decoded.text);
+    if (generated) {
+        tracker.skip(relPath, generated);
+        return null;
+    }
+
+    tracker.include(relPath);
+    return { path: relPath, content: decoded.text };
 }
 
 /**
  * Crawl files in a local directory, using an interface similar to crawlGithubFiles
+ * Directories are read concurrently, but files come back in a stable, sorted order
  * @param directory Local directory path
  * @param includePatterns File patterns to include (e.g., ["*.py", "*.js"])
  * @param excludePatterns File patterns to exclude (e.g., ["tests/*"])
  * @param maxFileSize Maximum file size (bytes)
  * @param useRelativePaths Whether to use paths relative to the directory
- * @returns {CrawlResult} Object containing file paths and contents
+ * @param options I/O concurrency, cancellation and progress reporting
+ * @returns {CrawlResult} Object containing file paths and contents, and the skipped paths
+ * @throws vscode.CancellationError if the signal is aborted during the crawl
  */
-export function crawlLocalFiles(
+export async function crawlLocalFiles(
     directory: string,
     includePatterns?: string[],
     excludePatterns?: string[],
     maxFileSize?: number,
     useRelativePaths: boolean = true,
-): CrawlResult {
+    { concurrency = DEFAULT_IO_CONCURRENCY, signal, onProgress }: CrawlOptions = {},
+): Promise<CrawlResult> {
     const logger = LoggerService.getInstance();
+    const limit = createConcurrencyLimiter(concurrency);
+    const tracker = new CrawlTracker(onProgress);
 
-    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    const rootStats = await fs.stat(directory).catch(() => undefined);
+    if (!rootStats?.isDirectory()) {
         throw new Error(`Directory does not exist: ${directory}`);
     }
 
-    const filesList: FileInfo[] = [];
+    // Nested .gitignore and .agenticwikiignore files are loaded as the crawl reaches their directory
+    const rootIgnores = await IgnoreStack.forRoot(directory);
 
-    // --- Load .gitignore ---
-    const gitignorePath = path.join(directory, ".gitignore");
-    let gitignoreSpec: ReturnType<typeof ignore> | null = null;
+    /**
+     * Read a file that passed every path filter
+     * @returns File info, null if the file was skipped
+     */
+    async function readIncludedFile(itemPath: string, relPath: string, size: number): Promise<FileInfo | null> {
+        // Check file size
+        if (maxFileSize && size > maxFileSize) {
+            tracker.skip(relPath, "too-large");
+            return null;
+        }
 
-    if (fs.existsSync(gitignorePath)) {
+        // Read file content
+        let bytes: Buffer;
         try {
-            const gitignorePatterns = fs.readFileSync(gitignorePath, "utf-8").split("\n");
-            gitignoreSpec = ignore().add(gitignorePatterns);
-            logger.info(`Loaded .gitignore patterns from ${gitignorePath}`);
+            bytes = await limit(() => fs.readFile(itemPath));
         } catch (e) {
-            logger.warn(`Unable to read or parse .gitignore file ${gitignorePath}: ${e}`);
+            logger.warn(`Unable to read file ${itemPath}: ${e}`);
+            tracker.skip(relPath, "unreadable");
+            return null;
         }
+        return decodeFile(bytes, relPath, tracker);
     }
-    // --- End loading .gitignore ---
 
-    // Recursively traverse directory
-    function traverseDirectory(currentPath: string) {
-        const items = fs.readdirSync(currentPath);
+    /**
+     * Recursively traverse a directory
+     * @param currentPath Directory to read
+     * @param ancestors Real paths of the directories above it, a symlink back to one of them is a loop
+     * @param ignores Ignore rules that apply inside the directory
+     * @returns Files found below the directory, in sorted order
+     */
+    async function traverseDirectory(
+        currentPath: string,
+        ancestors: Set<string>,
+        ignores: IgnoreStack,
+    ): Promise<FileInfo[]> {
+        throwIfCancelled(signal);
+        const items = (await limit(() => fs.readdir(currentPath))).sort();
 
-        for (const item of items) {
-            const itemPath = path.join(currentPath, item);
-            const stats = fs.statSync(itemPath);
+        const results = await Promise.all(
+            items.map(async (item): Promise<FileInfo[]> => {
+                const itemPath = path.join(currentPath, item);
+                // Get relative path, ignore rules are always matched against the path from the root
+                const rootRelPath = path.relative(directory, itemPath);
+                const relPath = useRelativePaths ? rootRelPath : itemPath;
 
-            // Get relative path
-            const relPath = useRelativePaths ? path.relative(directory, itemPath) : itemPath;
+                // Follows symlinks, a broken link can't be read
+                const stats = await limit(() => fs.stat(itemPath)).catch(() => undefined);
+                if (!stats?.isDirectory()) {
+                    tracker.scan();
+                }
+                if (!stats) {
+                    tracker.skip(relPath, "unreadable");
+                    return [];
+                }
 
-            // --- Exclusion checks ---
-            let excluded = false;
+                // --- Exclusion checks ---
+                // 1. First check the ignore files, like git an ignored directory is not entered at all
+                const ignoredBy = ignores.ignoredBy(rootRelPath, stats.isDirectory());
+                if (ignoredBy) {
+                    tracker.skip(relPath, IGNORE_SKIP_REASONS[ignoredBy]);
+                    return [];
+                }
 
-            // 1. First check .gitignore
-            if (gitignoreSpec && gitignoreSpec.ignores(relPath)) {
-                excluded = true;
-            }
+                // 2. If not ignored, check standard exclusion patterns
+                if (isExcluded(relPath, excludePatterns)) {
+                    tracker.skip(relPath, "excluded");
+                    return [];
+                }
 
-            // 2. If not excluded by .gitignore, check standard exclusion patterns
-            if (!excluded && excludePatterns) {
-                for (const pattern of excludePatterns) {
-                    if (minimatch(relPath, pattern)) {
-                        excluded = true;
-                        break;
+                // If it's a directory and not excluded, traverse recursively
+                if (stats.isDirectory()) {
+                    const realPath = await limit(() => fs.realpath(itemPath));
+                    if (ancestors.has(realPath)) {
+                        logger.info(`Skipping ${itemPath}: symbolic link back to ${realPath}`);
+                        tracker.skip(relPath, "symlink-loop");
+                        return [];
                     }
+                    const childIgnores = await limit(() => ignores.enter(itemPath, rootRelPath));
+                    return traverseDirectory(itemPath, new Set(ancestors).add(realPath), childIgnores);
                 }
-            }
 
-            // If it's a directory and not excluded, traverse recursively
-            if (stats.isDirectory() && !excluded) {
-                traverseDirectory(itemPath);
-                continue;
-            }
-
-            // If not a file or already excluded, skip
-            if (!stats.isFile() || excluded) {
-                continue;
-            }
+                // If not a file, skip
+                if (!stats.isFile()) {
+                    return [];
+                }
 
-            // Check inclusion patterns
-            let included = false;
-            if (!includePatterns || includePatterns?.includes("*")) {
-                included = true;
-            } else {
-                for (const pattern of includePatterns) {
-                    if (minimatch(relPath, pattern)) {
-                        included = true;
-                        break;
-                    }
+                // Check inclusion patterns
+                if (!isIncluded(relPath, includePatterns)) {
+                    tracker.skip(relPath, "not-included");
+                    return [];
                 }
-            }
 
-            // If not included, skip
-            if (!included) {
-                continue;
-            }
+                const file = await readIncludedFile(itemPath, relPath, stats.size);
+                return file ? [file] : [];
+            }),
+        );
+        return results.flat();
+    }
 
-            // Check file size
-            if (maxFileSize && stats.size > maxFileSize) {
-                continue;
-            }
+    // Start traversal
+    const files = await traverseDirectory(directory, new Set([await fs.realpath(directory)]), rootIgnores);
+    throwIfCancelled(signal);
+    return tracker.finish(files);
+}
 
-            // Read file content
-            try {
-                const content = fs.readFileSync(itemPath, "utf-8");
-                filesList.push({ path: relPath, content });
-            } catch (e) {
-                logger.warn(`Unable to read file ${itemPath}: ${e}`);
-            }
+/**
+ * Crawl the files git knows about below a directory, instead of everything in the working tree
+ * `.gitignore` rules don't apply since these files are in git on purpose, `.agenticwikiignore` files do,
+ * including those of the directories above it up to the repository root
+ * @param directory Directory inside a git repository
+ * @param source Tracked files in the working tree, or the files of a commit, branch or tag
+ * @param includePatterns File patterns to include (e.g., ["*.py", "*.js"])
+ * @param excludePatterns File patterns to exclude (e.g., ["tests/*"])
+ * @param maxFileSize Maximum file size (bytes)
+ * @param options I/O concurrency, cancellation and progress reporting
+ * @returns {GitCrawlResult} Files with paths relative to the directory, the skipped paths and the commit SHA
+ * @throws Error if the directory is not in a git repository or the ref does not exist
+ * @throws vscode.CancellationError if the signal is aborted during the crawl
+ */
+export async function crawlGitFiles(
+    directory: string,
+    source: GitCrawlSource,
+    includePatterns?: string[],
+    excludePatterns?: string[],
+    maxFileSize?: number,
+    { concurrency = DEFAULT_IO_CONCURRENCY, signal, onProgress }: CrawlOptions = {},
+): Promise<GitCrawlResult> {
+    const logger = LoggerService.getInstance();
+    const limit = createConcurrencyLimiter(concurrency);
+    const tracker = new CrawlTracker(onProgress);
+
+    const commit = await resolveCommit(directory, source.mode === "ref" ? source.ref : "HEAD");
+    // In ref mode files are read from the commit's blobs, in tracked mode from the working tree
+    const treeFiles = source.mode === "ref" ? await listTreeFiles(directory, commit) : undefined;
+    const gitPaths = treeFiles ? treeFiles.map(file => file.path) : await listTrackedFiles(directory);
+    // .agenticwikiignore files of the directories above the crawled one, as paths like "../.agenticwikiignore"
+    const rootPrefix = await getRepoPrefix(directory);
+    const depth = rootPrefix ? rootPrefix.split("/").length : 0;
+    let ancestorTreeFiles: GitTreeFile[] = [];
+    let ancestorIgnorePaths: string[] = [];
+    if (depth > 0) {
+        const candidates = Array.from({ length: depth }, (_, i) => "../".repeat(depth - i) + PROJECT_IGNORE_FILENAME);
+        ancestorTreeFiles = treeFiles ? await listTreeFiles(directory, commit, candidates) : [];
+        ancestorIgnorePaths = treeFiles
+            ? ancestorTreeFiles.map(file => file.path)
+            : await listTrackedFiles(directory, candidates);
+    }
+    const objectIds = new Map([...(treeFiles ?? []), ...ancestorTreeFiles].map(file => [file.path, file.objectId]));
+    const sizes = new Map(treeFiles?.map(file => [file.path, file.size]));
+    throwIfCancelled(signal);
+
+    /**
+     * Read files of the crawled version
+     * @param paths git paths of the files
+     * @returns Content by path, files that couldn't be read are missing
+     */
+    async function readFiles(paths: string[]): Promise<Map<string, Buffer>> {
+        if (treeFiles) {
+            const blobs = await readBlobs(
+                directory,
+                paths.flatMap(gitPath => objectIds.get(gitPath) ?? []),
+            );
+            return new Map(
+                paths.flatMap(gitPath => {
+                    const blob = blobs.get(objectIds.get(gitPath) ?? "");
+                    return blob ? [[gitPath, blob] as const] : [];
+                }),
+            );
         }
+        const contents = await Promise.all(
+            paths.map(gitPath => limit(() => fs.readFile(path.join(directory, gitPath))).catch(() => undefined)),
+        );
+        return new Map(
+            paths.flatMap((gitPath, i) => {
+                const content = contents[i];
+                return content ? [[gitPath, content] as const] : [];
+            }),
+        );
     }
 
-    // Start traversal
-    traverseDirectory(directory);
+    // .agenticwikiignore files of the crawled version
+    const ignoreFiles = await readFiles([
+        ...ancestorIgnorePaths,
+        ...gitPaths.filter(gitPath => path.posix.basename(gitPath) === PROJECT_IGNORE_FILENAME),
+    ]);
+    const ignores = IgnoreStack.fromProjectIgnoreFiles(
+        [...ignoreFiles].map(([gitPath, content]) => ({ path: gitPath, content: content.toString("utf-8") })),
+        rootPrefix,
+    );
+
+    // Path filters and size limit, sizes of tracked files come from the working tree
+    const candidates = await Promise.all(
+        [...gitPaths].sort().map(async gitPath => {
+            const relPath = gitPath.split("/").join(path.sep);
+            tracker.scan();
+
+            const ignoredBy = ignores.isPathIgnored(gitPath);
+            if (ignoredBy) {
+                tracker.skip(relPath, IGNORE_SKIP_REASONS[ignoredBy]);
+                return null;
+            }
+            if (isPathExcluded(relPath, excludePatterns)) {
+                tracker.skip(relPath, "excluded");
+                return null;
+            }
+            if (!isIncluded(relPath, includePatterns)) {
+                tracker.skip(relPath, "not-included");
+                return null;
+            }
+
+            const size =
+                sizes.get(gitPath) ??
+                (await limit(() => fs.stat(path.join(directory, gitPath))).catch(() => undefined))?.size;
+            if (size === undefined) {
+                // Deleted from the working tree but still tracked
+                tracker.skip(relPath, "unreadable");
+                return null;
+            }
+            if (maxFileSize && size > maxFileSize) {
+                tracker.skip(relPath, "too-large");
+                return null;
+            }
+            return { gitPath, relPath };
+        }),
+    );
+    throwIfCancelled(signal);
+
+    const included = candidates.filter(candidate => candidate !== null);
+    const contents = await readFiles(included.map(candidate => candidate.gitPath));
+    throwIfCancelled(signal);
 
-    return { files: filesList };
+    const files = included.flatMap(({ gitPath, relPath }) => {
+        const bytes = contents.get(gitPath);
+        if (!bytes) {
+            logger.warn(`Unable to read file ${gitPath} of ${source.mode === "ref" ? commit : "the working tree"}`);
+            tracker.skip(relPath, "unreadable");
+            return [];
+        }
+        const file = decodeFile(bytes, relPath, tracker);
+        return file ? [file] : [];
+    });
+    return { ...tracker.finish(files), commit };
 }
@@ -0,0 +1,216 @@
+import fs from "fs/promises";
+import path from "path";
+import ignore, { Ignore } from "ignore";
+import { LoggerService } from "../logger";
+
+/** Ignore file for paths that should stay out of the Wiki but not out of git */
+export const PROJECT_IGNORE_FILENAME = ".agenticwikiignore";
+const GITIGNORE_FILENAME = ".gitignore";
+const GIT_EXCLUDE_PATH = path.join(".git", "info", "exclude");
+
+/**
+ * Kind of ignore file a rule comes from
+ */
+export type IgnoreSource = "gitignore" | "agenticwikiignore";
+
+/**
+ * Rules of one ignore file, which apply to paths below the directory it is in
+ */
+interface IgnoreLevel {
+    /** Directory of the ignore file relative to the crawl root in POSIX form, "" for the root and directories above */
+    baseDir: string;
+    /** Path of the crawl root relative to the directory of an ignore file above it, in POSIX form */
+    rootPrefix?: string;
+    source: IgnoreSource;
+    rules: Ignore;
+}
+
+/**
+ * Convert a path to the POSIX form ignore rules are written in
+ * @param filePath Relative path
+ * @returns Path with forward slashes
+ */
+function toPosixPath(filePath: string): string {
+    return filePath.split(path.sep).join("/");
+}
+
+/**
+ * Find the root of the git repository a directory is in
+ * @param dirPath Absolute path of the directory
+ * @returns Repository root, null if the directory is not in a repository
+ */
+async function findRepoRoot(dirPath: string): Promise<string | null> {
+    for (let dir = dirPath; ; dir = path.dirname(dir)) {
+        if (await fs.stat(path.join(dir, ".git")).catch(() => null)) {
+            return dir;
+        }
+        if (path.dirname(dir) === dir) {
+            return null;
+        }
+    }
+}
+
+/**
+ * Read the ignore files of a directory
+ * @param dirPath Absolute path of the directory
+ * @param baseDir Directory relative to the crawl root in POSIX form
+ * @param rootPrefix Path of the crawl root relative to the directory, for a directory above the crawl root
+ * @returns Rules of the directory's `.gitignore`, then of its `.agenticwikiignore`
+ */
+async function readDirectoryLevels(dirPath: string, baseDir: string, rootPrefix?: string): Promise<IgnoreLevel[]> {
+    const levels: IgnoreLevel[] = [];
+    const gitignore = await readIgnoreFile(path.join(dirPath, GITIGNORE_FILENAME));
+    if (gitignore) {
+        levels.push({ baseDir, rootPrefix, source: "gitignore", rules: gitignore });
+    }
+    const projectIgnore = await readIgnoreFile(path.join(dirPath, PROJECT_IGNORE_FILENAME));
+    if (projectIgnore) {
+        levels.push({ baseDir, rootPrefix, source: "agenticwikiignore", rules: projectIgnore });
+    }
+    return levels;
+}
+
+/**
+ * Read the rules of an ignore file
+ * @param filePath Path of the ignore file
+ * @returns Rules, null if there is no such file
+ */
+async function readIgnoreFile(filePath: string): Promise<Ignore | null> {
+    try {
+        const content = await fs.readFile(filePath, "utf-8");
+        return ignore().add(content);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+            LoggerService.getInstance().warn(`Unable to read or parse ignore file ${filePath}: ${e}`);
+        }
+        return null;
+    }
+}
+
+/**
+ * The ignore files that apply to a directory, evaluated the way git does:
+ * `.git/info/exclude` first, then the `.gitignore` of every directory from the repository root down.
+ * A rule in a deeper file overrides rules in files above it, including negations (`!keep.ts`).
+ * `.agenticwikiignore` files use the same syntax and override the `.gitignore` of their directory
+ */
+export class IgnoreStack {
+    private constructor(private readonly levels: IgnoreLevel[]) {}
+
+    /**
+     * Load the ignore rules of a crawl root: the repository's `.git/info/exclude`, the ignore files of the
+     * directories from the repository root down to the crawl root, and the crawl root's own ignore files
+     * A crawl root outside a git repository only uses its own ignore files
+     * @param rootDir Crawl root
+     * @returns Ignore stack for the root directory
+     */
+    static async forRoot(rootDir: string): Promise<IgnoreStack> {
+        const crawlRoot = path.resolve(rootDir);
+        const repoRoot = (await findRepoRoot(crawlRoot)) ?? crawlRoot;
+        const levels: IgnoreLevel[] = [];
+
+        const exclude = await readIgnoreFile(path.join(repoRoot, GIT_EXCLUDE_PATH));
+        if (exclude) {
+            const rootPrefix = toPosixPath(path.relative(repoRoot, crawlRoot));
+            levels.push({ baseDir: "", rootPrefix, source: "gitignore", rules: exclude });
+        }
+        // Directories above the crawl root, from the repository root down
+        const ancestorDirs: string[] = [];
+        for (let dir = crawlRoot; dir !== repoRoot; ) {
+            dir = path.dirname(dir);
+            ancestorDirs.unshift(dir);
+        }
+        for (const dir of ancestorDirs) {
+            levels.push(...(await readDirectoryLevels(dir, "", toPosixPath(path.relative(dir, crawlRoot)))));
+        }
+        return new IgnoreStack(levels).enter(crawlRoot, "");
+    }
+
+    /**
+     * Build the rules of `.agenticwikiignore` files found in a file list rather than by walking directories
+     * Like `forRoot`, files in the directories above the crawl root apply as well
+     * @param files Ignore files with their path relative to the crawl root and their content, "../" leads above it
+     * @param rootPrefix Path of the crawl root relative to the repository root in POSIX form
+     * @returns Ignore stack for any path below the root, use `isPathIgnored` to check paths
+     */
+    static fromProjectIgnoreFiles(files: { path: string; content: string }[], rootPrefix: string = ""): IgnoreStack {
+        const rootParts = rootPrefix.split("/").filter(Boolean);
+        const levels = files.map(file => {
+            const dir = path.posix.normalize(path.posix.dirname(toPosixPath(file.path)));
+            // Number of directories the ignore file is above the crawl root
+            const levelsUp = dir.split("/").filter(part => part === "..").length;
+            const level: IgnoreLevel = {
+                baseDir: levelsUp ? "" : dir.replace(/^\.$/, ""),
+                rootPrefix: levelsUp ? rootParts.slice(-levelsUp).join("/") : undefined,
+                source: "agenticwikiignore",
+                rules: ignore().add(file.content),
+            };
+            return { level, depth: levelsUp ? -levelsUp : level.baseDir ? level.baseDir.split("/").length : 0 };
+        });
+        // Shallow files first, so deeper files take precedence
+        levels.sort((a, b) => a.depth - b.depth);
+        return new IgnoreStack(levels.map(({ level }) => level));
+    }
+
+    /**
+     * Add the ignore files of a directory the crawl descends into
+     * @param dirPath Absolute path of the directory
+     * @param relDir Path of the directory relative to the crawl root
+     * @returns Ignore stack for the directory, this stack if it has no ignore files
+     */
+    async enter(dirPath: string, relDir: string): Promise<IgnoreStack> {
+        const baseDir = toPosixPath(relDir);
+        const levels = await readDirectoryLevels(dirPath, baseDir);
+        if (levels.length === 0) {
+            return this;
+        }
+        LoggerService.getInstance().info(
+            `Loaded ${levels.map(level => level.source).join(" and ")} rules of ${baseDir || "the project root"}`,
+        );
+        return new IgnoreStack([...this.levels, ...levels]);
+    }
+
+    /**
+     * Check whether a path is ignored
+     * The deepest ignore file with a matching rule decides, so a negation there re-includes the path
+     * @param relPath Path relative to the crawl root
+     * @param isDirectory Whether the path is a directory, rules ending in "/" only match directories
+     * @returns Kind of ignore file that ignores the path, null if it is not ignored
+     */
+    ignoredBy(relPath: string, isDirectory: boolean): IgnoreSource | null {
+        const posixPath = toPosixPath(relPath);
+        for (let i = this.levels.length - 1; i >= 0; i--) {
+            const { baseDir, rootPrefix, source, rules } = this.levels[i];
+            if (baseDir && !posixPath.startsWith(`${baseDir}/`)) {
+                continue;
+            }
+            const pathInRoot = baseDir ? posixPath.slice(baseDir.length + 1) : posixPath;
+            // Rules of a file above the crawl root are matched against the path from that file's directory
+            const pathInLevel = rootPrefix ? `${rootPrefix}/${pathInRoot}` : pathInRoot;
+            const { ignored, unignored } = rules.test(isDirectory ? `${pathInLevel}/` : pathInLevel);
+            if (ignored) {
+                return source;
+            }
+            if (unignored) {
+                return null;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check whether a file is ignored, itself or through one of its directories
+     * Like git, a file in an ignored directory can't be re-included
+     * @param relPath File path relative to the crawl root
+     * @returns Kind of ignore file that ignores the file, null if it is not ignored
+     */
+    isPathIgnored(relPath: string): IgnoreSource | null {
+        const parts = toPosixPath(relPath).split("/");
+        for (let depth = 1; depth < parts.length; depth++) {
+            const ignoredBy = this.ignoredBy(parts.slice(0, depth).join("/"), true);
+            if (ignoredBy) {
+                return ignoredBy;
+            }
+        }
+        return this.ignoredBy(parts.join("/"), false);
+    }
+}
@@ -1,2 +1,3 @@
 export * from "./fileService";
 export * from "./crawlService";
+export * from "./ignoreService";
@@ -0,0 +1,184 @@
+import { execFile, spawn } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Output of ls-files and ls-tree for large repositories
+const MAX_LIST_OUTPUT_BYTES = 256 * 1024 * 1024;
+// git mode of symbolic links, their blob holds the link target
+const SYMLINK_MODE = "120000";
+
+/**
+ * A file in a commit's tree
+ */
+export interface GitTreeFile {
+    /** Path relative to the directory the tree was listed from, with forward slashes */
+    path: string;
+    /** Blob object ID */
+    objectId: string;
+    size: number;
+}
+
+/**
+ * Run a git command in a directory
+ * @param cwd Working directory
+ * @param args git arguments
+ * @returns Standard output
+ * @throws Error with git's message if git is missing or the command fails
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: MAX_LIST_OUTPUT_BYTES });
+        return stdout;
+    } catch (error) {
+        const err = error as NodeJS.ErrnoException & { stderr?: string };
+        if (err.code === "ENOENT") {
+            throw new Error("git was not found, install git or crawl the working tree instead");
+        }
+        throw new Error(`git ${args[0]} failed in ${cwd}: ${err.stderr?.trim() || err.message}`);
+    }
+}
+
+/**
+ * Resolve a commit, branch or tag to a commit SHA
+ * @param repoDir Directory inside the repository
+ * @param ref Commit, branch or tag
+ * @returns Full commit SHA
+ * @throws Error if the directory is not in a repository or the ref doesn't name a commit
+ */
+export async function resolveCommit(repoDir: string, ref: string = "HEAD"): Promise<string> {
+    try {
+        return (await git(repoDir, ["rev-parse", "--verify", "--end-of-options", `${ref}^{commit}`])).trim();
+    } catch (error) {
+        throw new Error(`Cannot resolve git ref "${ref}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Resolve the checked out commit, without failing outside of a repository
+ * @param repoDir Directory that may be inside a repository
+ * @returns Commit SHA of HEAD, undefined if the directory is not in a repository or has no commits
+ */
+export async function tryResolveHead(repoDir: string): Promise<string | undefined> {
+    try {
+        return await resolveCommit(repoDir);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the path of a directory inside its repository
+ * @param repoDir Directory inside the repository
+ * @returns Path relative to the repository root with forward slashes, "" for the root
+ */
+export async function getRepoPrefix(repoDir: string): Promise<string> {
+    return (await git(repoDir, ["rev-parse", "--show-prefix"])).trim().replace(/\/$/, "");
+}
+
+/**
+ * List the files git tracks below a directory
+ * @param repoDir Directory inside the repository
+ * @param paths Only list these paths, which may lead out of the directory with "../"
+ * @returns Paths relative to the directory, with forward slashes
+ */
+export async function listTrackedFiles(repoDir: string, paths?: string[]): Promise<string[]> {
+    const output = await git(repoDir, ["ls-files", "-z", "--cached", ...(paths ? ["--", ...paths] : [])]);
+    // A file with unresolved conflicts is listed once per stage
+    return [...new Set(output.split("\0").filter(Boolean))];
+}
+
+/**
+ * List the files of a commit below a directory, without checking it out
+ * Submodules and symbolic links are left out
+ * @param repoDir Directory inside the repository, the listing is limited to it
+ * @param commit Commit SHA
+ * @param paths Only list these paths, which may lead out of the directory with "../"
+ * @returns Files with their blob ID and size
+ */
+export async function listTreeFiles(repoDir: string, commit: string, paths?: string[]): Promise<GitTreeFile[]> {
+    const output = await git(repoDir, ["ls-tree", "-r", "-z", "--long", commit, ...(paths ? ["--", ...paths] : [])]);
+    return output
+        .split("\0")
+        .filter(Boolean)
+        .flatMap(line => {
+            // <mode> <type> <object> <size>\t<path>
+            const tab = line.indexOf("\t");
+            const [mode, type, objectId, size] = line.slice(0, tab).trim().split(/\s+/);
+            if (type !== "blob" || mode === SYMLINK_MODE) {
+                return [];
+            }
+            return [{ path: line.slice(tab + 1), objectId, size: Number(size) }];
+        });
+}
+
+/**
+ * Read blobs from the object database with a single `git cat-file --batch` process
+ * @param repoDir Directory inside the repository
+ * @param objectIds Blob IDs to read
+ * @returns Content of each blob, keyed by ID
+ */
+export async function readBlobs(repoDir: string, objectIds: string[]): Promise<Map<string, Buffer>> {
+    const blobs = new Map<string, Buffer>();
+    if (objectIds.length === 0) {
+        return blobs;
+    }
+
+    const child = spawn("git", ["cat-file", "--batch"], { cwd: repoDir, stdio: ["pipe", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", chunk => (stderr += chunk));
+    const exited = new Promise<void>((resolve, reject) => {
+        child.on("error", reject);
+        child.on("close", code =>
+            code === 0 ? resolve() : reject(new Error(`git cat-file failed in ${repoDir}: ${stderr.trim()}`)),
+        );
+    });
+    child.stdin.end(objectIds.map(id => `${id}\n`).join(""));
+    await exited;
+
+    // Each object is "<id> <type> <size>\n<content>\n", a missing one is "<id> missing\n"
+    const output = Buffer.concat(chunks);
+    let offset = 0;
+    while (offset < output.length) {
+        const headerEnd = output.indexOf(0x0a, offset);
+        const [id, type, size] = output.subarray(offset, headerEnd).toString("utf-8").split(" ");
+        offset = headerEnd + 1;
+        if (type === "missing") {
+            continue;
+        }
+        blobs.set(id, output.subarray(offset, offset + Number(size)));
+        offset += Number(size) + 1;
+    }
+    return blobs;
+}
+
+/**
+ * Count how often files changed in the recent history of a commit
+ * @param repoDir Directory inside the repository, only files below it are counted
+ * @param commit Commit whose history is read
+ * @param maxCommits Number of most recent commits looked at
+ * @returns Commits per file, keyed by path relative to the directory with forward slashes
+ */
+export async function getFileChurn(
+    repoDir: string,
+    commit: string = "HEAD",
+    maxCommits: number = 500,
+): Promise<Map<string, number>> {
+    const output = await git(repoDir, [
+        "log",
+        `--max-count=${maxCommits}`,
+        "--format=",
+        "--name-only",
+        "--relative",
+        "--no-renames",
+        commit,
+        "--",
+    ]);
+    const churn = new Map<string, number>();
+    for (const filePath of output.split("\n").filter(Boolean)) {
+        churn.set(filePath, (churn.get(filePath) ?? 0) + 1);
+    }
+    return churn;
+}
@@ -3,3 +3,7 @@ export * from "./llm";
 export * from "./file";
 export * from "./logger";
 export * from "./config";
+export * from "./usage";
+export * from "./git";
+export * from "./analysis";
+export * from "./workspace";
@@ -1 +1,6 @@
-export * from './llmService';
+export * from "./llmService";
+export * from "./llmProviders";
+export * from "./llmErrors";
+export * from "./llmFixtures";
+export * from "./structuredOutput";
+export * from "./responseSchemas";
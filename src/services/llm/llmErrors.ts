@@ -0,0 +1,136 @@
+import { APIConnectionError, APIError } from "openai";
+import { parseRetryAfter } from "../../utils/retryUtils";
+
+/**
+ * LLM failure that retrying won't fix, e.g. a rejected API key or an unknown model
+ */
+export class NonRetryableLlmError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+    ) {
+        super(message);
+        this.name = "NonRetryableLlmError";
+    }
+}
+
+/**
+ * Transient LLM failure that outlasted the retries of the call, retrying the node would only repeat them
+ */
+export class LlmRetriesExhaustedError extends NonRetryableLlmError {
+    constructor(
+        message: string,
+        public readonly attempts: number,
+        status?: number,
+    ) {
+        super(message, status);
+        this.name = "LlmRetriesExhaustedError";
+    }
+}
+
+/**
+ * Error reported in the body of an otherwise successful response, as OpenRouter does for upstream failures
+ */
+export class LlmResponseError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+    ) {
+        super(message);
+        this.name = "LlmResponseError";
+    }
+}
+
+export interface LlmErrorInfo {
+    retryable: boolean;
+    status?: number;
+    /** Delay requested by the server through Retry-After, in milliseconds */
+    retryAfterMs?: number;
+}
+
+// Statuses worth retrying: timeouts, conflicts, rate limits and server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+// Socket and DNS failures that a new connection may not run into
+const TRANSIENT_NETWORK_CODES = new Set([
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "EPIPE",
+    "EAI_AGAIN",
+    "ENETUNREACH",
+    "EHOSTUNREACH",
+    "UND_ERR_SOCKET",
+    "UND_ERR_CONNECT_TIMEOUT",
+    "UND_ERR_HEADERS_TIMEOUT",
+    "UND_ERR_BODY_TIMEOUT",
+]);
+
+/**
+ * Check whether a status is worth retrying
+ * @param status HTTP status
+ * @returns True for timeouts, conflicts, rate limits and server errors
+ */
+function isRetryableStatus(status: number): boolean {
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+}
+
+/**
+ * Get the system error code of an error or of its cause, fetch wraps socket errors in a TypeError
+ * @param error Thrown value
+ * @returns Error code such as ECONNRESET, undefined if there is none
+ */
+function getNetworkErrorCode(error: unknown): string | undefined {
+    for (let current = error, depth = 0; current && typeof current === "object" && depth < 3; depth++) {
+        const code = (current as { code?: unknown }).code;
+        if (typeof code === "string") {
+            return code;
+        }
+        current = (current as { cause?: unknown }).cause;
+    }
+    return undefined;
+}
+
+/**
+ * Decide whether a failed LLM request should be retried
+ * @param error Error thrown by the provider
+ * @returns Classification of the error
+ */
+export function classifyLlmError(error: unknown): LlmErrorInfo {
+    if (error instanceof NonRetryableLlmError) {
+        return { retryable: false, status: error.status };
+    }
+
+    // Network failures and timeouts
+    if (error instanceof APIConnectionError) {
+        return { retryable: true };
+    }
+
+    if (error instanceof APIError && typeof error.status === "number") {
+        const status = error.status;
+        const headers = error.headers || {};
+        // OpenAI style retry-after-ms takes precedence over the standard header
+        const retryAfterMsHeader = headers["retry-after-ms"] ? Number(headers["retry-after-ms"]) : NaN;
+        const retryAfterMs = retryAfterMsHeader >= 0 ? retryAfterMsHeader : parseRetryAfter(headers["retry-after"]);
+
+        return {
+            retryable: isRetryableStatus(status),
+            status,
+            retryAfterMs,
+        };
+    }
+
+    // An error body in a 200 response, transient unless its code says otherwise
+    if (error instanceof LlmResponseError) {
+        return { retryable: error.status === undefined || isRetryableStatus(error.status), status: error.status };
+    }
+
+    // A dropped connection outside the OpenAI client, e.g. from fetch
+    const code = getNetworkErrorCode(error);
+    if (code && TRANSIENT_NETWORK_CODES.has(code)) {
+        return { retryable: true };
+    }
+
+    // Anything else is a bug or a failure a retry won't fix
+    return { retryable: false };
+}
@@ -0,0 +1,210 @@
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { DEFAULT_CONFIG } from "../../constants";
+import { GlobalConfig, LlmMode, LlmModel, TokenUsage } from "../../types";
+import { ensureDirectoryExists } from "../../utils";
+import { NonRetryableLlmError } from "./llmErrors";
+import { CompletionRequest, CompletionResult, LlmProvider } from "./llmProviders";
+
+// Model details of the recorded run, replay needs the same context windows to build the same prompts
+const MODEL_DETAILS_FILENAME = "models.json";
+
+/**
+ * A recorded prompt/response pair
+ */
+export interface LlmFixture {
+    model: string;
+    prompt: string;
+    response: string;
+    usage?: TokenUsage;
+    recordedAt: string;
+}
+
+/**
+ * Thrown in replay mode when no response was recorded for a prompt
+ */
+export class MissingFixtureError extends NonRetryableLlmError {
+    constructor(
+        public readonly fixturePath: string,
+        public readonly model: string,
+        public readonly prompt: string,
+    ) {
+        super(
+            `No recorded response for this prompt to ${model} (expected ${fixturePath}). ` +
+                `Record the run again if the prompt changed. Prompt starts with: ${prompt.trim().slice(0, 200)}`,
+        );
+        this.name = "MissingFixtureError";
+    }
+}
+
+/**
+ * Get the fixture directory of a project
+ * An empty setting would resolve to the project root, so the default directory is used instead
+ * @param config Fixture directory setting and project directory
+ * @returns Absolute fixture directory
+ */
+export function resolveFixturesDir(config: Pick<GlobalConfig, "localDir" | "llmFixturesDir">): string {
+    return path.resolve(config.localDir, config.llmFixturesDir.trim() || DEFAULT_CONFIG.llmFixturesDir);
+}
+
+/**
+ * Get the file a prompt/response pair is recorded in
+ * Named after a hash of model and prompt so a changed prompt never replays a stale answer
+ * @param fixturesDir Fixture directory
+ * @param model Model the prompt is sent to
+ * @param prompt Prompt text
+ * @returns Path of the fixture file
+ */
+export function getFixturePath(fixturesDir: string, model: string, prompt: string): string {
+    const hash = createHash("sha256").update(model).update("\0").update(prompt).digest("hex");
+    return path.join(fixturesDir, `${hash}.json`);
+}
+
+/**
+ * Record a prompt/response pair
+ * @param fixturesDir Fixture directory, created if missing
+ * @param fixture Pair to record
+ * @returns Path of the written fixture file
+ */
+export async function saveFixture(fixturesDir: string, fixture: Omit<LlmFixture, "recordedAt">): Promise<string> {
+    const fixturePath = getFixturePath(fixturesDir, fixture.model, fixture.prompt);
+    await ensureDirectoryExists(fixturesDir);
+    const content: LlmFixture = { ...fixture, recordedAt: new Date().toISOString() };
+    await fs.writeFile(fixturePath, JSON.stringify(content, null, 2), "utf-8");
+    return fixturePath;
+}
+
+/**
+ * Look up the recorded response of a prompt
+ * @param fixturesDir Fixture directory
+ * @param model Model the prompt is sent to
+ * @param prompt Prompt text
+ * @returns Recorded pair, undefined if none was recorded
+ */
+export async function loadFixture(fixturesDir: string, model: string, prompt: string): Promise<LlmFixture | undefined> {
+    try {
+        const data = await fs.readFile(getFixturePath(fixturesDir, model, prompt), "utf-8");
+        return JSON.parse(data) as LlmFixture;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Record the details of the models a run used
+ * @param fixturesDir Fixture directory, created if missing
+ * @param models Model details keyed by model ID
+ */
+export async function saveFixtureModelDetails(fixturesDir: string, models: Record<string, LlmModel>): Promise<void> {
+    await ensureDirectoryExists(fixturesDir);
+    await fs.writeFile(path.join(fixturesDir, MODEL_DETAILS_FILENAME), JSON.stringify(models, null, 2), "utf-8");
+}
+
+/**
+ * Load the model details recorded with the fixtures
+ * @param fixturesDir Fixture directory
+ * @returns Model details keyed by model ID, empty if none were recorded
+ */
+export async function loadFixtureModelDetails(fixturesDir: string): Promise<Record<string, LlmModel>> {
+    try {
+        const data = await fs.readFile(path.join(fixturesDir, MODEL_DETAILS_FILENAME), "utf-8");
+        return JSON.parse(data) as Record<string, LlmModel>;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return {};
+        }
+        throw error;
+    }
+}
+
+/**
+ * Provider that passes requests on to another provider and records every answer
+ */
+export class RecordingLlmProvider implements LlmProvider {
+    constructor(
+        private readonly inner: LlmProvider,
+        private readonly fixturesDir: string,
+    ) {}
+
+    get type() {
+        return this.inner.type;
+    }
+
+    get requiresApiKey() {
+        return this.inner.requiresApiKey;
+    }
+
+    get defaultModel() {
+        return this.inner.defaultModel;
+    }
+
+    listModels(apiKey?: string): Promise<LlmModel[]> {
+        return this.inner.listModels(apiKey);
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+        const result = await this.inner.complete(request);
+        await saveFixture(this.fixturesDir, {
+            model: request.model,
+            prompt: request.prompt,
+            response: result.content,
+            usage: result.usage,
+        });
+        return result;
+    }
+}
+
+/**
+ * Provider that answers from recorded fixtures only and never touches the network
+ */
+export class ReplayLlmProvider implements LlmProvider {
+    readonly requiresApiKey: boolean = false;
+
+    constructor(
+        private readonly inner: LlmProvider,
+        private readonly fixturesDir: string,
+    ) {}
+
+    get type() {
+        return this.inner.type;
+    }
+
+    get defaultModel() {
+        return this.inner.defaultModel;
+    }
+
+    async listModels(): Promise<LlmModel[]> {
+        return [];
+    }
+
+    async complete({ model, prompt }: CompletionRequest): Promise<CompletionResult> {
+        const fixture = await loadFixture(this.fixturesDir, model, prompt);
+        if (!fixture) {
+            throw new MissingFixtureError(getFixturePath(this.fixturesDir, model, prompt), model, prompt);
+        }
+        return { content: fixture.response, usage: fixture.usage };
+    }
+}
+
+/**
+ * Wrap a provider according to the LLM mode
+ * @param provider Live provider
+ * @param mode live, record or replay
+ * @param fixturesDir Fixture directory used by record and replay
+ * @returns Provider to send requests to
+ */
+export function applyLlmMode(provider: LlmProvider, mode: LlmMode = "live", fixturesDir?: string): LlmProvider {
+    if (mode === "live") {
+        return provider;
+    }
+    if (!fixturesDir) {
+        throw new NonRetryableLlmError(`LLM mode "${mode}" needs a fixture directory`);
+    }
+    return mode === "record"
+        ? new RecordingLlmProvider(provider, fixturesDir)
+        : new ReplayLlmProvider(provider, fixturesDir);
+}
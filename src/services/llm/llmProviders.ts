@@ -0,0 +1,239 @@
+import { OpenAI } from "openai";
+import {
+    OLLAMA_DEFAULT_BASE_URL,
+    OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+    OPENROUTER_API_URL,
+    OPENROUTER_DEFAULT_MODEL,
+} from "../../constants";
+import { LlmModel, LlmProviderType, TokenUsage } from "../../types";
+import { LlmResponseError } from "./llmErrors";
+
+export interface OpenRouterModel {
+    id: string;
+    name: string;
+    pricing: {
+        prompt: string;
+        completion: string;
+    };
+    context_length: number;
+    top_provider?: {
+        is_moderated?: boolean;
+    };
+}
+
+export interface CompletionRequest {
+    model: string;
+    prompt: string;
+    apiKey?: string;
+    /** Aborts the HTTP request when the run is cancelled */
+    signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+    content: string;
+    /** Token usage reported by the provider, if any */
+    usage?: TokenUsage;
+}
+
+/**
+ * A backend that can list models and answer chat completion requests
+ */
+export interface LlmProvider {
+    readonly type: LlmProviderType;
+    /** Whether calls fail without an API key */
+    readonly requiresApiKey: boolean;
+    /** Model used when none is configured, empty if the provider has no sensible default */
+    readonly defaultModel: string;
+    listModels(apiKey?: string): Promise<LlmModel[]>;
+    complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Remove trailing slashes so paths can be appended safely
+ * @param url Base URL
+ * @returns URL without trailing slashes
+ */
+function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI chat completions API
+ * (vLLM, LM Studio, internal gateways, ...)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly type: LlmProviderType = "openai-compatible";
+    readonly requiresApiKey: boolean = false;
+    readonly defaultModel: string = "";
+
+    constructor(protected readonly baseUrl: string = OPENAI_COMPATIBLE_DEFAULT_BASE_URL) {}
+
+    /**
+     * Base URL of the OpenAI-compatible API (the path that `/chat/completions` is appended to)
+     */
+    protected get apiBaseUrl(): string {
+        return trimTrailingSlash(this.baseUrl);
+    }
+
+    protected buildHeaders(apiKey?: string): Record<string, string> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (apiKey) {
+            headers.Authorization = `Bearer ${apiKey}`;
+        }
+        return headers;
+    }
+
+    async listModels(apiKey?: string): Promise<LlmModel[]> {
+        const response = await fetch(`${this.apiBaseUrl}/models`, { headers: this.buildHeaders(apiKey) });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch models: ${response.statusText}`);
+        }
+
+        const data = (await response.json()) as {
+            data?: Array<{ id: string; name?: string; context_length?: number; max_model_len?: number }>;
+        };
+
+        return (data.data || [])
+            .map(model => ({
+                id: model.id,
+                name: model.name || model.id,
+                // Self-hosted models are free to call as far as we are concerned
+                pricing: { prompt: "0", completion: "0" },
+                // vLLM reports the window as max_model_len, 0 means unknown
+                context_length: model.context_length || model.max_model_len || 0,
+            }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    async complete({ model, prompt, apiKey, signal }: CompletionRequest): Promise<CompletionResult> {
+        // The OpenAI client refuses to start without a key, local servers accept any value.
+        // Retries are handled by callLlm so the client must not retry on its own
+        const client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL: this.apiBaseUrl, maxRetries: 0 });
+
+        const r = await client.chat.completions.create(
+            {
+                model,
+                messages: [{ role: "user", content: prompt }],
+            },
+            { signal },
+        );
+
+        // Handle API error response
+        if ("error" in r) {
+            const errorMessage = (r.error as any)?.message || String(r.error);
+            const code = (r.error as any)?.code;
+            console.error("ERROR", `API returned error: ${errorMessage}`);
+            throw new LlmResponseError(errorMessage, typeof code === "number" ? code : undefined);
+        }
+
+        return {
+            content: r.choices[0]?.message?.content || "",
+            usage: r.usage
+                ? { promptTokens: r.usage.prompt_tokens, completionTokens: r.usage.completion_tokens }
+                : undefined,
+        };
+    }
+}
+
+/**
+ * Provider for the hosted OpenRouter API
+ */
+export class OpenRouterProvider extends OpenAiCompatibleProvider {
+    readonly type: LlmProviderType = "openrouter";
+    readonly requiresApiKey: boolean = true;
+    readonly defaultModel: string = OPENROUTER_DEFAULT_MODEL;
+
+    constructor(baseUrl: string = OPENROUTER_API_URL) {
+        super(baseUrl);
+    }
+
+    /**
+     * Fetch available models from OpenRouter API
+     * @param apiKey OpenRouter API key
+     * @returns Array of available models, sorted with free models first
+     */
+    async listModels(apiKey?: string): Promise<LlmModel[]> {
+        const response = await fetch(`${this.apiBaseUrl}/models`, { headers: this.buildHeaders(apiKey) });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch models: ${response.statusText}`);
+        }
+
+        const data = (await response.json()) as { data: OpenRouterModel[] };
+        const models = data.data;
+
+        // Sort models: free models first, then by price
+        return models.sort((a, b) => {
+            // Convert pricing strings to numbers for comparison
+            const aPromptPrice = parseFloat(a.pricing.prompt);
+            const aCompletionPrice = parseFloat(a.pricing.completion);
+            const bPromptPrice = parseFloat(b.pricing.prompt);
+            const bCompletionPrice = parseFloat(b.pricing.completion);
+
+            // Calculate total price per token
+            const aTotalPrice = aPromptPrice + aCompletionPrice;
+            const bTotalPrice = bPromptPrice + bCompletionPrice;
+
+            // Sort by price (ascending)
+            return aTotalPrice - bTotalPrice;
+        });
+    }
+}
+
+/**
+ * Provider for a local Ollama server
+ * Chat goes through Ollama's OpenAI-compatible `/v1` API, models are listed with the native `/api/tags`
+ */
+export class OllamaProvider extends OpenAiCompatibleProvider {
+    readonly type: LlmProviderType = "ollama";
+
+    constructor(baseUrl: string = OLLAMA_DEFAULT_BASE_URL) {
+        super(baseUrl);
+    }
+
+    protected get apiBaseUrl(): string {
+        const root = trimTrailingSlash(this.baseUrl);
+        return root.endsWith("/v1") ? root : `${root}/v1`;
+    }
+
+    async listModels(): Promise<LlmModel[]> {
+        const root = trimTrailingSlash(this.baseUrl).replace(/\/v1$/, "");
+        const response = await fetch(`${root}/api/tags`);
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch models: ${response.statusText}`);
+        }
+
+        const data = (await response.json()) as { models?: Array<{ name: string; model?: string }> };
+
+        return (data.models || [])
+            .map(model => ({
+                id: model.model || model.name,
+                name: model.name,
+                pricing: { prompt: "0", completion: "0" },
+                // /api/tags does not report the context window
+                context_length: 0,
+            }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+}
+
+/**
+ * Create the provider implementation for a provider type
+ * @param type Provider type
+ * @param baseUrl Optional base URL override, the provider default is used when empty
+ * @returns Provider instance
+ */
+export function createLlmProvider(type: LlmProviderType, baseUrl?: string): LlmProvider {
+    const url = baseUrl?.trim() || undefined;
+    switch (type) {
+        case "openai-compatible":
+            return new OpenAiCompatibleProvider(url);
+        case "ollama":
+            return new OllamaProvider(url);
+        case "openrouter":
+        default:
+            return new OpenRouterProvider(url);
+    }
+}
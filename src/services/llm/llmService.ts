@@ -1,69 +1,158 @@
-import { OpenAI } from "openai";
 import * as vscode from "vscode";
 import { secretsManager } from "../../extension";
-import { getCacheValue, initializeCachePath, setCacheValue } from "../cache";
-import { OPENROUTER_API_URL, OPENROUTER_DEFAULT_MODEL } from "../../constants";
+import { CacheKeyInput, CacheStore, getCacheEntry, initializeCachePath, setCacheEntry } from "../cache";
+import { DEFAULT_CONFIG, DEFAULT_CONTEXT_WINDOW, DEFAULT_LLM_PROVIDER, LLM_RETRY_MAX_DELAY_MS } from "../../constants";
+import { LlmMode, LlmModel, LlmProviderType, LlmStage, NodeParams, TokenUsage } from "../../types";
+import { throwIfCancelled } from "../../utils/commonUtils";
+import { computeBackoffDelay, sleep } from "../../utils/retryUtils";
+import { estimateTokens } from "../../utils/tokenUtils";
+import type { UsageTag, UsageTracker } from "../usage";
+import { createLlmProvider } from "./llmProviders";
+import { classifyLlmError, LlmRetriesExhaustedError, NonRetryableLlmError } from "./llmErrors";
+import { applyLlmMode } from "./llmFixtures";
 
 export interface LlmOptions {
     llmApiKey?: string;
     useCache?: boolean;
+    /** Skip the cache lookup but still store the answer, replacing a cached answer that turned out unusable */
+    refreshCache?: boolean;
     context?: vscode.ExtensionContext;
     model?: string;
+    provider?: LlmProviderType;
+    baseUrl?: string;
+    /** Number of retries after the first attempt for transient failures */
+    maxRetries?: number;
+    /** Delay of the first retry, doubled for every further retry */
+    retryBaseDelayMs?: number;
+    /** Tracker that records what the call costs and enforces the run's spend ceiling */
+    usageTracker?: UsageTracker;
+    /** Node (and chapter) sending the request, for the usage report */
+    usageTag?: UsageTag;
+    /** Send requests to the provider, record them, or replay recorded answers */
+    mode?: LlmMode;
+    /** Fixture directory for record and replay mode */
+    fixturesDir?: string;
+    /** Aborted when the run is cancelled, stops retries and in-flight requests */
+    signal?: AbortSignal;
+    /** How often callLlmStructured asks the model to fix an invalid answer */
+    maxRepairAttempts?: number;
+    /** Largest prompt that fits the model's context window next to the answer, repair prompts are cut to it */
+    promptTokenBudget?: number;
+    /** Project directory the request is made for, recorded with cache entries */
+    workspace?: string;
+    /** Cache directory inside the workspace, the cache lives in the extension's global storage if omitted */
+    workspaceCacheDir?: string;
 }
 
-export interface OpenRouterModel {
-    id: string;
-    name: string;
-    pricing: {
-        prompt: string;
-        completion: string;
-    };
-    context_length: number;
-    top_provider?: {
-        is_moderated?: boolean;
-    };
+/**
+ * Fetch available models from the configured provider
+ * @param apiKey API key for the provider (ignored by providers that don't need one)
+ * @param provider Provider type
+ * @param baseUrl Optional base URL override for the provider
+ * @returns Array of available models in the provider's preferred order
+ */
+export async function fetchAvailableModels(
+    apiKey: string,
+    provider: LlmProviderType = DEFAULT_LLM_PROVIDER,
+    baseUrl?: string,
+): Promise<LlmModel[]> {
+    try {
+        return await createLlmProvider(provider, baseUrl).listModels(apiKey);
+    } catch (error) {
+        console.error("ERROR", `Failed to fetch models: ${error}`);
+        throw error;
+    }
 }
 
 /**
- * Fetch available models from OpenRouter API
- * @param apiKey OpenRouter API key
- * @returns Array of available models, sorted with free models first
+ * Look up details (context window, pricing) of the models used in a run
+ * Failures only get logged so a run can still fall back to default limits
+ * @param apiKey API key for the provider
+ * @param provider Provider type
+ * @param baseUrl Optional base URL override for the provider
+ * @param modelIds IDs of the models to look up
+ * @returns Details of the models the provider knows, keyed by model ID
  */
-export async function fetchAvailableModels(apiKey: string): Promise<OpenRouterModel[]> {
+export async function fetchModelDetails(
+    apiKey: string,
+    provider: LlmProviderType,
+    baseUrl: string | undefined,
+    modelIds: string[],
+): Promise<Record<string, LlmModel>> {
+    const details: Record<string, LlmModel> = {};
     try {
-        const response = await fetch(`${OPENROUTER_API_URL}/models`, {
-            headers: {
-                Authorization: `Bearer ${apiKey}`,
-                "Content-Type": "application/json",
-            },
-        });
-
-        if (!response.ok) {
-            throw new Error(`Failed to fetch models: ${response.statusText}`);
+        const models = await createLlmProvider(provider, baseUrl).listModels(apiKey);
+        for (const model of models) {
+            if (modelIds.includes(model.id)) {
+                details[model.id] = model;
+            }
         }
+    } catch (error) {
+        console.warn("WARNING", `Failed to fetch model details, using default limits: ${error}`);
+    }
+    return details;
+}
 
-        const data = (await response.json()) as { data: OpenRouterModel[] };
-        const models = data.data;
-
-        // Sort models: free models first, then by price
-        return models.sort((a, b) => {
-            // Convert pricing strings to numbers for comparison
-            const aPromptPrice = parseFloat(a.pricing.prompt);
-            const aCompletionPrice = parseFloat(a.pricing.completion);
-            const bPromptPrice = parseFloat(b.pricing.prompt);
-            const bCompletionPrice = parseFloat(b.pricing.completion);
+/**
+ * Get the context window to plan prompts for
+ * @param params Flow parameters passed to every node
+ * @param model Model the prompt is sent to, the run's model if empty
+ * @returns Context window in tokens: the configured override, the window reported for the model, or a default
+ */
+export function resolveContextWindow(params: NodeParams, model?: string): number {
+    if (params.contextWindowTokens && params.contextWindowTokens > 0) {
+        return params.contextWindowTokens;
+    }
+    const modelId = model || params.llmModel;
+    const reported = modelId ? params.llmModels?.[modelId]?.context_length : undefined;
+    return reported && reported > 0 ? reported : DEFAULT_CONTEXT_WINDOW;
+}
 
-            // Calculate total price per token
-            const aTotalPrice = aPromptPrice + aCompletionPrice;
-            const bTotalPrice = bPromptPrice + bCompletionPrice;
+/**
+ * Get the model a stage of the flow should use
+ * @param params Flow parameters passed to every node
+ * @param stage Stage calling the LLM
+ * @returns The stage's model override, or the run's model
+ */
+export function resolveStageModel(params: NodeParams, stage: LlmStage): string | undefined {
+    return params.stageModels?.[stage]?.trim() || params.llmModel;
+}
 
-            // Sort by price (ascending)
-            return aTotalPrice - bTotalPrice;
-        });
-    } catch (error) {
-        console.error("ERROR", `Failed to fetch models: ${error}`);
-        throw error;
-    }
+/**
+ * Pick the run-wide LLM options (provider, retries, usage tracking) out of the flow parameters
+ * @param params Flow parameters passed to every node
+ * @returns Options to spread into a callLlm call
+ */
+export function resolveLlmOptions(
+    params: NodeParams,
+): Pick<
+    LlmOptions,
+    | "provider"
+    | "baseUrl"
+    | "maxRetries"
+    | "retryBaseDelayMs"
+    | "usageTracker"
+    | "maxRepairAttempts"
+    | "mode"
+    | "fixturesDir"
+    | "signal"
+    | "workspace"
+    | "workspaceCacheDir"
+> {
+    const provider = params.llmProvider || DEFAULT_LLM_PROVIDER;
+    return {
+        provider,
+        baseUrl: params.llmProviders?.[provider]?.baseUrl,
+        maxRetries: params.llmMaxRetries,
+        retryBaseDelayMs: params.llmRetryBaseDelayMs,
+        usageTracker: params.usageTracker,
+        maxRepairAttempts: params.maxRepairAttempts,
+        mode: params.llmMode,
+        fixturesDir: params.llmFixturesDir,
+        signal: params.signal,
+        workspace: params.localDir,
+        workspaceCacheDir: params.workspaceCacheDir,
+    };
 }
 
 /**
@@ -74,81 +163,150 @@ export async function fetchAvailableModels(apiKey: string): Promise<OpenRouterMo
  */
 export async function callLlm(
     prompt: string,
-    { useCache = true, llmApiKey, context, model }: LlmOptions,
+    {
+        useCache = true,
+        refreshCache = false,
+        llmApiKey,
+        context,
+        model,
+        provider = DEFAULT_LLM_PROVIDER,
+        baseUrl,
+        maxRetries = DEFAULT_CONFIG.llmMaxRetries,
+        retryBaseDelayMs = DEFAULT_CONFIG.llmRetryBaseDelayMs,
+        usageTracker,
+        usageTag,
+        mode = "live",
+        fixturesDir,
+        signal,
+        workspace,
+        workspaceCacheDir,
+    }: LlmOptions,
 ): Promise<string> {
+    throwIfCancelled(signal);
     console.log(`Prompt: ${prompt}`);
 
-    // Initialize cache path if context is provided, path is not yet initialized, and cache is enabled
+    // Recording must see every request and replay must only ever serve fixtures, so neither uses the cache
+    if (mode !== "live") {
+        useCache = false;
+    }
+
+    // Initialize the cache of this call if context is provided and cache is enabled
+    let cacheStore: CacheStore | undefined;
     if (useCache && context) {
         try {
             // Try to initialize cache path, but don't block the main flow if it fails
-            await initializeCachePath(context);
+            cacheStore = await initializeCachePath(context, workspaceCacheDir);
         } catch (error) {
             // Just log the error and continue - cache will be disabled for this call
             console.warn("WARNING", `Failed to initialize cache path: ${error}`);
-            // Force useCache to false since we couldn't initialize the cache
-            useCache = false;
         }
     }
 
+    const llmProvider = applyLlmMode(createLlmProvider(provider, baseUrl), mode, fixturesDir);
+    const cacheKey: CacheKeyInput = { provider: llmProvider.type, model: model || llmProvider.defaultModel, prompt };
+
     // If cache is enabled, check cache
-    if (useCache) {
+    if (cacheStore && !refreshCache) {
         // Try to get from cache
-        const cachedResponse = await getCacheValue(prompt);
+        const cached = await getCacheEntry(cacheStore, cacheKey);
 
         // If cache hit, return directly
-        if (cachedResponse) {
-            console.log("INFO", `RESPONSE (from cache): ${cachedResponse}`);
-            return cachedResponse;
+        if (cached?.response) {
+            console.log("INFO", `RESPONSE (from cache): ${cached.response}`);
+            usageTracker?.recordCacheHit(
+                cacheKey.model,
+                cached.usage ?? {
+                    promptTokens: estimateTokens(prompt),
+                    completionTokens: estimateTokens(cached.response),
+                },
+                usageTag,
+            );
+            return cached.response;
         }
     }
 
     // Get API key from secure storage if not provided
     let apiKey = llmApiKey;
     if (!apiKey) {
-        apiKey = await secretsManager.getApiKey();
+        apiKey = await secretsManager.getApiKey(llmProvider.type);
     }
 
-    if (!apiKey) {
-        throw new Error("API key is not set. Please configure your API key in the extension settings.");
+    if (!apiKey && llmProvider.requiresApiKey) {
+        throw new NonRetryableLlmError("API key is not set. Please configure your API key in the extension settings.");
     }
 
-    const client = new OpenAI({ apiKey, baseURL: OPENROUTER_API_URL });
-
-    // Use provided model or default
-    const modelToUse = model || OPENROUTER_DEFAULT_MODEL;
+    // Use provided model or the provider default
+    const modelToUse = model || llmProvider.defaultModel;
+    if (!modelToUse) {
+        throw new NonRetryableLlmError(
+            `No model selected for provider "${llmProvider.type}". Please select a model in the extension settings.`,
+        );
+    }
 
     let responseText = "";
-    try {
-        const r = await client.chat.completions.create({
-            model: modelToUse,
-            messages: [{ role: "user", content: prompt }],
-        });
-
-        // Handle API error response
-        if ("error" in r) {
-            const errorMessage = (r.error as any)?.message || String(r.error);
-            console.error("ERROR", `API returned error: ${errorMessage}`);
-            throw new Error(errorMessage);
-        }
+    let responseUsage: TokenUsage | undefined;
+    for (let attempt = 0; ; attempt++) {
+        // Checked before every attempt so that retries can't spend past the ceiling or outlive a cancellation
+        throwIfCancelled(signal);
+        usageTracker?.assertWithinLimit();
+
+        try {
+            const result = await llmProvider.complete({ model: modelToUse, prompt, apiKey, signal });
+            responseText = result.content;
+            responseUsage = result.usage;
+            // Not every server reports usage, estimate it then so the spend ceiling still applies
+            usageTracker?.record(
+                modelToUse,
+                result.usage ?? {
+                    promptTokens: estimateTokens(prompt),
+                    completionTokens: estimateTokens(responseText),
+                },
+                usageTag,
+            );
+            if (!responseText) {
+                console.warn("WARNING", "API returned empty response");
+            }
+            break;
+        } catch (error) {
+            // The request was aborted because the user cancelled the run
+            throwIfCancelled(signal);
+
+            // Handle network/runtime errors
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const { retryable, status, retryAfterMs } = classifyLlmError(error);
+
+            if (!retryable) {
+                console.error("ERROR", `LLM API call failed: ${errorMessage}`);
+                // Keep our own errors (e.g. a missing fixture) as they are so callers can tell them apart
+                throw error instanceof NonRetryableLlmError
+                    ? error
+                    : new NonRetryableLlmError(`LLM request failed: ${errorMessage}`, status);
+            }
 
-        responseText = r.choices[0]?.message?.content || "";
-        if (!responseText) {
-            console.warn("WARNING", "API returned empty response");
+            if (attempt >= maxRetries) {
+                console.error("ERROR", `LLM API call failed after ${attempt + 1} attempts: ${errorMessage}`);
+                throw new LlmRetriesExhaustedError(`LLM request failed: ${errorMessage}`, attempt + 1, status);
+            }
+
+            // Prefer the delay the server asked for over our own backoff
+            const delay = Math.min(
+                LLM_RETRY_MAX_DELAY_MS,
+                retryAfterMs ?? computeBackoffDelay(attempt + 1, retryBaseDelayMs, LLM_RETRY_MAX_DELAY_MS),
+            );
+            console.warn(
+                "WARNING",
+                `LLM API call failed: ${errorMessage}. Retrying in ${delay}ms (retry ${attempt + 1}/${maxRetries})`,
+            );
+            await sleep(delay, signal);
         }
-    } catch (error) {
-        // Handle network/runtime errors
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("ERROR", `LLM API call failed: ${errorMessage}`);
-        throw new Error(`LLM request failed: ${errorMessage}`);
     }
 
     console.log(`RESPONSE: ${responseText}`);
 
     // If cache is enabled, update cache
-    if (useCache) {
+    if (cacheStore) {
         try {
-            await setCacheValue(prompt, responseText);
+            await setCacheEntry(cacheStore, cacheKey, responseText, { usage: responseUsage, workspace });
         } catch (error) {
             console.error("ERROR", `Failed to update cache: ${error}`);
         }
@@ -0,0 +1,246 @@
+/**
+ * Validators for the structured (YAML) answers of the flow's nodes
+ * Each one reports every problem it finds so a repair prompt can address them all at once
+ */
+import { Abstraction, AbstractionMerge, Relationship, RelationshipsResult } from "../../types";
+import { ResponseValidator, StructuredOutputError } from "./structuredOutput";
+
+/**
+ * Parse an index entry such as `3`, `"3"` or `"3 # path/or/name"`
+ * @param entry Entry from the LLM answer
+ * @returns Index, or null if the entry doesn't start with a number
+ */
+function parseIndexEntry(entry: unknown): number | null {
+    if (typeof entry === "number") {
+        return Number.isInteger(entry) ? entry : null;
+    }
+    if (typeof entry === "string") {
+        const match = entry.match(/^\s*(\d+)/);
+        return match ? parseInt(match[1], 10) : null;
+    }
+    return null;
+}
+
+/**
+ * Check that an index entry refers to one of `count` items
+ * @param entry Entry from the LLM answer
+ * @param count Number of valid indices
+ * @param label What the entry is, for error messages
+ * @param errors Error list to add problems to
+ * @returns Index, or null if invalid
+ */
+function validateIndexEntry(entry: unknown, count: number, label: string, errors: string[]): number | null {
+    const idx = parseIndexEntry(entry);
+    if (idx === null) {
+        errors.push(`${label}: cannot parse an index from ${JSON.stringify(entry)}`);
+        return null;
+    }
+    if (idx < 0 || idx >= count) {
+        errors.push(`${label}: index ${idx} is out of range, valid indices are 0 to ${count - 1}`);
+        return null;
+    }
+    return idx;
+}
+
+/**
+ * Throw if any problem was found
+ * @param errors Problems found
+ */
+function throwIfInvalid(errors: string[]): void {
+    if (errors.length > 0) {
+        throw new StructuredOutputError(errors);
+    }
+}
+
+/**
+ * Schema of the abstraction identification answer: a list of `{name, description, file_indices}`
+ * @param fileCount Number of files in the file listing
+ * @param allowedIndices Files the prompt showed when it only showed some, other indices are rejected
+ * @returns Validator producing abstractions with sorted, de-duplicated file indices
+ */
+export function abstractionsSchema(
+    fileCount: number,
+    allowedIndices?: ReadonlySet<number>,
+): ResponseValidator<Abstraction[]> {
+    return data => {
+        if (!Array.isArray(data)) {
+            throw new StructuredOutputError([`Expected a YAML list of abstractions, got ${typeof data}`]);
+        }
+
+        const errors: string[] = [];
+        const abstractions: Abstraction[] = [];
+        data.forEach((item, i) => {
+            const label = `Abstraction ${i + 1}`;
+            if (typeof item !== "object" || item === null) {
+                errors.push(`${label}: expected a mapping with name, description and file_indices`);
+                return;
+            }
+            if (typeof item.name !== "string" || !item.name.trim()) {
+                errors.push(`${label}: \`name\` must be a non-empty string`);
+            }
+            if (typeof item.description !== "string" || !item.description.trim()) {
+                errors.push(`${label}: \`description\` must be a non-empty string`);
+            }
+            if (!Array.isArray(item.file_indices)) {
+                errors.push(`${label}: \`file_indices\` must be a list of file indices`);
+                return;
+            }
+
+            const files = new Set<number>();
+            for (const entry of item.file_indices) {
+                const idx = validateIndexEntry(entry, fileCount, `${label} file_indices`, errors);
+                if (idx !== null && allowedIndices && !allowedIndices.has(idx)) {
+                    errors.push(`${label} file_indices: file ${idx} is not one of the listed files`);
+                } else if (idx !== null) {
+                    files.add(idx);
+                }
+            }
+            if (typeof item.name === "string" && typeof item.description === "string") {
+                abstractions.push({
+                    name: item.name.trim(),
+                    description: item.description.trim(),
+                    files: Array.from(files).sort((a, b) => a - b),
+                });
+            }
+        });
+
+        if (errors.length === 0 && abstractions.length === 0) {
+            errors.push("The list contains no valid abstractions");
+        }
+        throwIfInvalid(errors);
+        return abstractions;
+    };
+}
+
+/**
+ * Schema of the abstraction merge answer: a list of `{name, description, candidate_indices}`
+ * @param candidateCount Number of candidate abstractions
+ * @returns Validator producing merged abstractions with sorted, de-duplicated candidate indices
+ */
+export function abstractionMergeSchema(candidateCount: number): ResponseValidator<AbstractionMerge[]> {
+    return data => {
+        if (!Array.isArray(data)) {
+            throw new StructuredOutputError([`Expected a YAML list of abstractions, got ${typeof data}`]);
+        }
+
+        const errors: string[] = [];
+        const merges: AbstractionMerge[] = [];
+        data.forEach((item, i) => {
+            const label = `Abstraction ${i + 1}`;
+            if (typeof item !== "object" || item === null) {
+                errors.push(`${label}: expected a mapping with name, description and candidate_indices`);
+                return;
+            }
+            if (typeof item.name !== "string" || !item.name.trim()) {
+                errors.push(`${label}: \`name\` must be a non-empty string`);
+            }
+            if (typeof item.description !== "string" || !item.description.trim()) {
+                errors.push(`${label}: \`description\` must be a non-empty string`);
+            }
+            if (!Array.isArray(item.candidate_indices) || item.candidate_indices.length === 0) {
+                errors.push(`${label}: \`candidate_indices\` must be a non-empty list of candidate indices`);
+                return;
+            }
+
+            const candidates = new Set<number>();
+            for (const entry of item.candidate_indices) {
+                const idx = validateIndexEntry(entry, candidateCount, `${label} candidate_indices`, errors);
+                if (idx !== null) {
+                    candidates.add(idx);
+                }
+            }
+            if (typeof item.name === "string" && typeof item.description === "string") {
+                merges.push({
+                    name: item.name.trim(),
+                    description: item.description.trim(),
+                    candidates: Array.from(candidates).sort((a, b) => a - b),
+                });
+            }
+        });
+
+        if (errors.length === 0 && merges.length === 0) {
+            errors.push("The list contains no abstractions");
+        }
+        throwIfInvalid(errors);
+        return merges;
+    };
+}
+
+/**
+ * Schema of the relationship analysis answer: `{summary, relationships: [{from_abstraction, to_abstraction, label}]}`
+ * @param numAbstractions Number of abstractions
+ * @returns Validator producing the project summary and relationships
+ */
+export function relationshipsSchema(numAbstractions: number): ResponseValidator<RelationshipsResult> {
+    return data => {
+        if (typeof data !== "object" || data === null || Array.isArray(data)) {
+            throw new StructuredOutputError(["Expected a YAML mapping with `summary` and `relationships`"]);
+        }
+
+        const errors: string[] = [];
+        const { summary, relationships } = data as Record<string, unknown>;
+        if (typeof summary !== "string" || !summary.trim()) {
+            errors.push("`summary` must be a non-empty string");
+        }
+        if (!Array.isArray(relationships)) {
+            errors.push("`relationships` must be a list");
+        }
+
+        const details: Relationship[] = [];
+        (Array.isArray(relationships) ? relationships : []).forEach((rel, i) => {
+            const label = `Relationship ${i + 1}`;
+            if (typeof rel !== "object" || rel === null) {
+                errors.push(`${label}: expected a mapping with from_abstraction, to_abstraction and label`);
+                return;
+            }
+            if (typeof rel.label !== "string") {
+                errors.push(`${label}: \`label\` must be a string`);
+            }
+            const from = validateIndexEntry(rel.from_abstraction, numAbstractions, `${label} from_abstraction`, errors);
+            const to = validateIndexEntry(rel.to_abstraction, numAbstractions, `${label} to_abstraction`, errors);
+            if (from !== null && to !== null && typeof rel.label === "string") {
+                details.push({ from, to, label: rel.label });
+            }
+        });
+
+        throwIfInvalid(errors);
+        return { summary: summary as string, details };
+    };
+}
+
+/**
+ * Schema of the chapter order answer: a list naming every abstraction index exactly once
+ * @param numAbstractions Number of abstractions
+ * @returns Validator producing the ordered abstraction indices
+ */
+export function chapterOrderSchema(numAbstractions: number): ResponseValidator<number[]> {
+    return data => {
+        if (!Array.isArray(data)) {
+            throw new StructuredOutputError([`Expected a YAML list of abstraction indices, got ${typeof data}`]);
+        }
+
+        const errors: string[] = [];
+        const orderedIndices: number[] = [];
+        const seenIndices = new Set<number>();
+        data.forEach((entry, i) => {
+            const idx = validateIndexEntry(entry, numAbstractions, `Entry ${i + 1}`, errors);
+            if (idx === null) {
+                return;
+            }
+            if (seenIndices.has(idx)) {
+                errors.push(`Entry ${i + 1}: duplicate index ${idx}`);
+                return;
+            }
+            orderedIndices.push(idx);
+            seenIndices.add(idx);
+        });
+
+        const missingIndices = [...Array(numAbstractions).keys()].filter(i => !seenIndices.has(i));
+        if (missingIndices.length > 0) {
+            errors.push(`Missing indices: ${missingIndices.join(", ")}. Every abstraction must appear exactly once`);
+        }
+
+        throwIfInvalid(errors);
+        return orderedIndices;
+    };
+}
@@ -0,0 +1,130 @@
+import YAML from "yaml";
+import { DEFAULT_CONFIG } from "../../constants";
+import { estimateTokens, truncateToTokens } from "../../utils/tokenUtils";
+import { callLlm, LlmOptions } from "./llmService";
+
+/**
+ * Response that could not be turned into the structure a node expects
+ */
+export class StructuredOutputError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid LLM response: ${errors.join("; ")}`);
+        this.name = "StructuredOutputError";
+    }
+}
+
+/**
+ * Checks parsed YAML against the structure a node expects
+ * Throws a StructuredOutputError listing every problem found, returns the normalized data otherwise
+ */
+export type ResponseValidator<T> = (data: unknown) => T;
+
+// Reasoning models (e.g. DeepSeek R1) may prepend their chain of thought
+const THINK_BLOCK_PATTERN = /<(think|thinking)>[\s\S]*?<\/\1>/gi;
+const YAML_FENCE_PATTERN = /```[ \t]*ya?ml[ \t]*\r?\n([\s\S]*?)(?:```|$)/i;
+const ANY_FENCE_PATTERN = /```[ \t]*\w*[ \t]*\r?\n([\s\S]*?)(?:```|$)/;
+// Share of a repair prompt the faulty answer may take, the rest is left for the request and the errors
+const REPAIR_ANSWER_SHARE = 0.5;
+const OMITTED_REQUEST_MARKER = "[... beginning of the request omitted ...]\n";
+
+/**
+ * Pull the YAML document out of an LLM response
+ * Accepts ```yaml and ```yml fences, untagged fences, unterminated fences (cut off answers)
+ * and bare YAML, and drops <think> blocks in front of the answer
+ * @param response Raw LLM response
+ * @returns YAML text, possibly empty
+ */
+export function extractYaml(response: string): string {
+    const text = response.replace(THINK_BLOCK_PATTERN, "").trim();
+    const match = text.match(YAML_FENCE_PATTERN) || text.match(ANY_FENCE_PATTERN);
+    return (match ? match[1] : text).trim();
+}
+
+/**
+ * Extract and parse the YAML document of an LLM response
+ * @param response Raw LLM response
+ * @returns Parsed YAML
+ */
+export function parseYamlResponse(response: string): unknown {
+    const yamlStr = extractYaml(response);
+    if (!yamlStr) {
+        throw new StructuredOutputError(["The response contains no YAML"]);
+    }
+    try {
+        return YAML.parse(yamlStr);
+    } catch (error) {
+        throw new StructuredOutputError([`YAML parsing failed: ${error instanceof Error ? error.message : error}`]);
+    }
+}
+
+/**
+ * Build the prompt asking the model to fix an answer that failed validation
+ * The original prompt was already packed to fit the context window, so the request is cut from the front to make room
+ * for the answer and the errors; its end, where the output format is described, is kept
+ * @param prompt Original prompt
+ * @param response Answer that failed validation
+ * @param errors Validation errors
+ * @param budgetTokens Largest prompt the model accepts next to its answer, the original prompt's size if unknown
+ * @returns Repair prompt
+ */
+export function buildRepairPrompt(
+    prompt: string,
+    response: string,
+    errors: string[],
+    budgetTokens: number = estimateTokens(prompt),
+): string {
+    const answer = truncateToTokens(response, Math.floor(budgetTokens * REPAIR_ANSWER_SHARE));
+    const frame = (request: string) => `${request}
+
+---
+
+Your previous answer to the request above could not be used:
+${errors.map(error => `- ${error}`).join("\n")}
+
+Previous answer:
+${answer}
+
+Answer the request again, fixing these problems. Reply with the YAML only, inside a single \`\`\`yaml block, in exactly the format requested above.`;
+
+    const requestBudget = budgetTokens - estimateTokens(frame(OMITTED_REQUEST_MARKER));
+    const request = truncateToTokens(prompt, Math.max(0, requestBudget), true);
+    return frame(request === prompt ? prompt : OMITTED_REQUEST_MARKER + request);
+}
+
+/**
+ * Call the LLM and turn its answer into validated structured data
+ * If the answer can't be parsed or fails validation, the model is shown its answer and the errors
+ * and asked to fix them, up to `maxRepairAttempts` times
+ * @param prompt The prompt to send to the LLM
+ * @param validate Validator for the parsed YAML
+ * @param options Options for the LLM calls
+ * @returns Validated data
+ */
+export async function callLlmStructured<T>(
+    prompt: string,
+    validate: ResponseValidator<T>,
+    options: LlmOptions,
+): Promise<T> {
+    const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_CONFIG.maxRepairAttempts;
+    let response = await callLlm(prompt, options);
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return validate(parseYamlResponse(response));
+        } catch (error) {
+            const errors = error instanceof StructuredOutputError ? error.errors : [String(error)];
+            if (attempt >= maxRepairAttempts) {
+                throw error instanceof StructuredOutputError ? error : new StructuredOutputError(errors);
+            }
+
+            console.warn(
+                "WARNING",
+                `Invalid LLM response (${errors.join("; ")}), asking for a repair (${attempt + 1}/${maxRepairAttempts})`,
+            );
+            response = await callLlm(buildRepairPrompt(prompt, response, errors, options.promptTokenBudget), {
+                ...options,
+                usageTag: options.usageTag && { ...options.usageTag, node: `${options.usageTag.node} (repair)` },
+            });
+        }
+    }
+}
@@ -0,0 +1,430 @@
+import { CHAPTER_OUTPUT_TOKEN_RESERVE, OUTPUT_TOKEN_RESERVE, PREVIOUS_CHAPTERS_TOKEN_BUDGET } from "../../constants";
+import { FileInfo, LlmModel, LlmStage, TokenUsage } from "../../types";
+import { estimateTokens, getContentBudget } from "../../utils/tokenUtils";
+
+export interface ModelPricing {
+    /** Dollars per prompt token */
+    prompt: number;
+    /** Dollars per completion token */
+    completion: number;
+}
+
+export interface StageCostEstimate {
+    stage: string;
+    model: string;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    /** False if the provider reported no pricing for the model, the cost is 0 then */
+    pricingKnown: boolean;
+}
+
+export interface CostEstimate {
+    /** Distinct models used by the stages */
+    models: string[];
+    stages: StageCostEstimate[];
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    /** False if the provider reported no pricing for some model, its stages cost 0 then */
+    pricingKnown: boolean;
+    /** Models without pricing */
+    unpricedModels: string[];
+}
+
+/**
+ * Model a stage runs with
+ */
+export interface StageModel {
+    model: string;
+    modelDetails?: LlmModel;
+    contextWindow: number;
+}
+
+export interface CostEstimateInput {
+    files: FileInfo[];
+    /** Outline of each file, identification and relationship analysis see these instead of the content */
+    fileOutlines?: string[];
+    stageModels: Record<LlmStage, StageModel>;
+    maxAbstractionNum: number;
+}
+
+/**
+ * Where an LLM call came from, used to break usage down
+ */
+export interface UsageTag {
+    node: string;
+    chapter?: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+    model: string;
+    node: string;
+    chapter?: number;
+    /** Answered from the cache, the tokens are an estimate of what was saved */
+    cached: boolean;
+    cost: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    cachedCalls: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+}
+
+/**
+ * Totals of the last run, kept between sessions
+ */
+export interface LastRunUsage extends UsageTotals {
+    finishedAt: string;
+}
+
+export interface UsageReport {
+    startedAt: string;
+    finishedAt: string;
+    models: string[];
+    spendLimitUsd: number;
+    total: UsageTotals;
+    byNode: Record<string, UsageTotals>;
+    calls: UsageRecord[];
+}
+
+/**
+ * Thrown when the spend of a run exceeds the configured ceiling
+ */
+export class SpendLimitExceededError extends Error {
+    constructor(
+        public readonly spentUsd: number,
+        public readonly limitUsd: number,
+    ) {
+        super(`Spend limit of $${limitUsd.toFixed(2)} reached ($${spentUsd.toFixed(4)} spent), generation aborted`);
+        this.name = "SpendLimitExceededError";
+    }
+}
+
+// Rough per-call sizes of the parts of each prompt that don't depend on the repository
+const PROMPT_TEMPLATE_TOKENS = 1_200;
+const TOKENS_PER_ABSTRACTION_ANSWER = 150;
+const TOKENS_PER_RELATIONSHIP_ANSWER = 40;
+const TOKENS_PER_CHAPTER = 2_500;
+const TOKENS_PER_CHAPTER_SUMMARY = 150;
+
+/**
+ * Get per token prices of a model
+ * @param model Model details reported by the provider
+ * @returns Dollar prices per token, zero when unknown
+ */
+export function getModelPricing(model?: LlmModel): ModelPricing {
+    const prompt = parseFloat(model?.pricing?.prompt ?? "0");
+    const completion = parseFloat(model?.pricing?.completion ?? "0");
+    return {
+        prompt: isNaN(prompt) ? 0 : prompt,
+        completion: isNaN(completion) ? 0 : completion,
+    };
+}
+
+/**
+ * Check whether the provider reported prices for a model, free models report a price of 0
+ * @param model Model details reported by the provider
+ * @returns False if the details or their prices are missing or malformed
+ */
+export function hasModelPricing(model?: LlmModel): boolean {
+    return !!model?.pricing && !isNaN(parseFloat(model.pricing.prompt)) && !isNaN(parseFloat(model.pricing.completion));
+}
+
+/**
+ * Compute the dollar cost of token usage
+ * @param usage Token usage
+ * @param pricing Per token prices
+ * @returns Cost in dollars
+ */
+export function computeCost(usage: TokenUsage, pricing: ModelPricing): number {
+    return usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion;
+}
+
+/**
+ * Estimate prompt and completion tokens of every stage of a run, and what they cost with the model
+ * The numbers are rough upper bounds: cache hits are not taken into account
+ * @param input Crawled files, their outlines and model settings
+ * @returns Cost estimate per stage and in total
+ */
+export function estimateRunCost({
+    files,
+    fileOutlines,
+    stageModels,
+    maxAbstractionNum,
+}: CostEstimateInput): CostEstimate {
+    const fileTokens = files.reduce((sum, file) => sum + estimateTokens(file.content), 0);
+    const outlineTokens = fileOutlines
+        ? fileOutlines.reduce((sum, outline) => sum + estimateTokens(outline), 0)
+        : fileTokens;
+    const listingTokens = files.reduce((sum, file) => sum + estimateTokens(file.path) + 4, 0);
+    const chapterCount = maxAbstractionNum;
+    const { identifyAbstractions, analyzeRelationships, orderChapters, writeChapters } = stageModels;
+
+    // Identification sees the outline of every file. Outlines that don't fit one prompt are split into
+    // batches, each listing only its own files, and the candidates of the batches are merged in one more call
+    const identifyBudget = getContentBudget(
+        identifyAbstractions.contextWindow,
+        PROMPT_TEMPLATE_TOKENS + listingTokens,
+        OUTPUT_TOKEN_RESERVE,
+    );
+    const batchBudget = getContentBudget(
+        identifyAbstractions.contextWindow,
+        PROMPT_TEMPLATE_TOKENS,
+        OUTPUT_TOKEN_RESERVE,
+    );
+    const identifyBatches =
+        outlineTokens <= identifyBudget ? 1 : Math.ceil((outlineTokens + listingTokens) / Math.max(1, batchBudget));
+    const identifyCalls = identifyBatches === 1 ? 1 : identifyBatches + 1;
+    const mergePromptTokens =
+        identifyBatches === 1
+            ? 0
+            : PROMPT_TEMPLATE_TOKENS + identifyBatches * maxAbstractionNum * TOKENS_PER_ABSTRACTION_ANSWER;
+    // Relationship analysis only sees outlines of files referenced by abstractions, assume about half of them
+    const relationshipContent = Math.min(
+        Math.ceil(outlineTokens / 2),
+        getContentBudget(analyzeRelationships.contextWindow, PROMPT_TEMPLATE_TOKENS, OUTPUT_TOKEN_RESERVE),
+    );
+    // Every chapter sees its share of the files (files are usually shared by two abstractions)
+    // plus the summaries of the chapters written before it
+    const chapterContent = Math.min(
+        Math.ceil((fileTokens * 2) / chapterCount),
+        getContentBudget(writeChapters.contextWindow, PROMPT_TEMPLATE_TOKENS, CHAPTER_OUTPUT_TOKEN_RESERVE),
+    );
+    let chapterPromptTokens = 0;
+    for (let i = 0; i < chapterCount; i++) {
+        const previousChapters = Math.min(
+            i * TOKENS_PER_CHAPTER_SUMMARY,
+            PREVIOUS_CHAPTERS_TOKEN_BUDGET,
+            Math.floor(writeChapters.contextWindow / 2),
+        );
+        chapterPromptTokens += PROMPT_TEMPLATE_TOKENS + chapterContent + previousChapters;
+    }
+
+    const stages: Array<Omit<StageCostEstimate, "cost" | "model" | "pricingKnown"> & { stageModel: StageModel }> = [
+        {
+            stage: "Identify abstractions",
+            stageModel: identifyAbstractions,
+            calls: identifyCalls,
+            promptTokens: identifyBatches * PROMPT_TEMPLATE_TOKENS + listingTokens + outlineTokens + mergePromptTokens,
+            completionTokens: identifyCalls * maxAbstractionNum * TOKENS_PER_ABSTRACTION_ANSWER,
+        },
+        {
+            stage: "Analyze relationships",
+            stageModel: analyzeRelationships,
+            calls: 1,
+            promptTokens:
+                PROMPT_TEMPLATE_TOKENS + maxAbstractionNum * TOKENS_PER_ABSTRACTION_ANSWER + relationshipContent,
+            completionTokens: 200 + maxAbstractionNum * TOKENS_PER_RELATIONSHIP_ANSWER,
+        },
+        {
+            stage: "Order chapters",
+            stageModel: orderChapters,
+            calls: 1,
+            promptTokens: PROMPT_TEMPLATE_TOKENS + maxAbstractionNum * TOKENS_PER_RELATIONSHIP_ANSWER * 2,
+            completionTokens: maxAbstractionNum * 15,
+        },
+        {
+            stage: "Write chapters",
+            stageModel: writeChapters,
+            calls: chapterCount,
+            promptTokens: chapterPromptTokens,
+            completionTokens: chapterCount * TOKENS_PER_CHAPTER,
+        },
+    ];
+
+    const estimatedStages = stages.map(({ stageModel, ...stage }) => ({
+        ...stage,
+        model: stageModel.model,
+        cost: computeCost(stage, getModelPricing(stageModel.modelDetails)),
+        pricingKnown: hasModelPricing(stageModel.modelDetails),
+    }));
+    const unpricedModels = [...new Set(estimatedStages.filter(stage => !stage.pricingKnown).map(stage => stage.model))];
+
+    return {
+        models: [...new Set(estimatedStages.map(stage => stage.model))],
+        stages: estimatedStages,
+        promptTokens: estimatedStages.reduce((sum, stage) => sum + stage.promptTokens, 0),
+        completionTokens: estimatedStages.reduce((sum, stage) => sum + stage.completionTokens, 0),
+        cost: estimatedStages.reduce((sum, stage) => sum + stage.cost, 0),
+        pricingKnown: unpricedModels.length === 0,
+        unpricedModels,
+    };
+}
+
+/**
+ * Keeps track of what a run has spent and enforces the spend ceiling
+ */
+export class UsageTracker {
+    private spentUsd = 0;
+    private readonly records: UsageRecord[] = [];
+    private readonly startedAt = new Date();
+    private readonly unpricedModels = new Set<string>();
+
+    /**
+     * @param models Details (pricing) of the models used in the run, keyed by model ID
+     * @param spendLimitUsd Spend ceiling in dollars, 0 disables the ceiling
+     */
+    constructor(
+        private readonly models: Record<string, LlmModel>,
+        private readonly spendLimitUsd: number = 0,
+    ) {}
+
+    /**
+     * Total spend of the run so far in dollars
+     */
+    get totalCost(): number {
+        return this.spentUsd;
+    }
+
+    /**
+     * Throw if the run has already spent its budget, call before sending a request
+     */
+    assertWithinLimit(): void {
+        if (this.spendLimitUsd > 0 && this.spentUsd >= this.spendLimitUsd) {
+            throw new SpendLimitExceededError(this.spentUsd, this.spendLimitUsd);
+        }
+    }
+
+    /**
+     * Record the usage of a completed request
+     * @param model Model that answered the request
+     * @param usage Token usage of the request
+     * @param tag Node (and chapter) that sent the request
+     * @returns Cost of the request in dollars
+     */
+    record(model: string, usage: TokenUsage, tag?: UsageTag): number {
+        // The ceiling can't hold for a model without prices, say so once instead of failing silently
+        if (this.spendLimitUsd > 0 && !hasModelPricing(this.models[model]) && !this.unpricedModels.has(model)) {
+            this.unpricedModels.add(model);
+            console.warn("WARNING", `No pricing known for ${model}, its calls don't count toward the spend limit`);
+        }
+        const cost = computeCost(usage, getModelPricing(this.models[model]));
+        this.spentUsd += cost;
+        this.records.push({
+            ...usage,
+            model,
+            node: tag?.node ?? "unknown",
+            chapter: tag?.chapter,
+            cached: false,
+            cost,
+        });
+        return cost;
+    }
+
+    /**
+     * Record a request that was answered from the cache, it costs nothing
+     * @param model Model the request was meant for
+     * @param usage Estimated token usage the cache saved
+     * @param tag Node (and chapter) that sent the request
+     */
+    recordCacheHit(model: string, usage: TokenUsage, tag?: UsageTag): void {
+        this.records.push({
+            ...usage,
+            model,
+            node: tag?.node ?? "unknown",
+            chapter: tag?.chapter,
+            cached: true,
+            cost: 0,
+        });
+    }
+
+    /**
+     * Summarize the usage of the run
+     * @returns Report with totals, totals per node and every recorded call
+     */
+    getReport(): UsageReport {
+        const byNode: Record<string, UsageTotals> = {};
+        for (const record of this.records) {
+            byNode[record.node] = addToTotals(byNode[record.node] ?? emptyTotals(), record);
+        }
+
+        return {
+            startedAt: this.startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            models: [...new Set(this.records.map(record => record.model))],
+            spendLimitUsd: this.spendLimitUsd,
+            total: this.records.reduce(addToTotals, emptyTotals()),
+            byNode,
+            calls: [...this.records],
+        };
+    }
+}
+
+/**
+ * Create totals with nothing counted yet
+ * @returns Zeroed totals
+ */
+function emptyTotals(): UsageTotals {
+    return { calls: 0, cachedCalls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+/**
+ * Add a call to usage totals
+ * @param totals Totals so far
+ * @param record Recorded call
+ * @returns New totals
+ */
+function addToTotals(totals: UsageTotals, record: UsageRecord): UsageTotals {
+    return {
+        calls: totals.calls + 1,
+        cachedCalls: totals.cachedCalls + (record.cached ? 1 : 0),
+        // Tokens of cache hits were never sent
+        promptTokens: totals.promptTokens + (record.cached ? 0 : record.promptTokens),
+        completionTokens: totals.completionTokens + (record.cached ? 0 : record.completionTokens),
+        cost: totals.cost + record.cost,
+    };
+}
+
+/**
+ * Format a usage report as Markdown tables
+ * @param report Usage report of a run
+ * @returns Markdown document
+ */
+export function formatUsageReport(report: UsageReport): string {
+    const row = (cells: Array<string | number>) => `| ${cells.join(" | ")} |`;
+    const totalsRow = (label: string, totals: UsageTotals) =>
+        row([
+            label,
+            totals.calls,
+            totals.cachedCalls,
+            totals.promptTokens,
+            totals.completionTokens,
+            `$${totals.cost.toFixed(4)}`,
+        ]);
+
+    const lines = [
+        "# LLM Usage",
+        "",
+        `Run from ${report.startedAt} to ${report.finishedAt} using ${report.models.join(", ") || "no model"}.`,
+        "",
+        "## By Node",
+        "",
+        row(["Node", "Calls", "Cached", "Prompt tokens", "Completion tokens", "Cost"]),
+        row(["---", "---:", "---:", "---:", "---:", "---:"]),
+        ...Object.entries(report.byNode).map(([node, totals]) => totalsRow(node, totals)),
+        totalsRow("**Total**", report.total),
+        "",
+        "## Calls",
+        "",
+        row(["#", "Node", "Chapter", "Model", "Prompt tokens", "Completion tokens", "Cost"]),
+        row(["---:", "---", "---:", "---", "---:", "---:", "---:"]),
+        ...report.calls.map((call, i) =>
+            row([
+                i + 1,
+                call.node,
+                call.chapter ?? "",
+                call.model,
+                call.promptTokens,
+                call.completionTokens,
+                call.cached ? "cached" : `$${call.cost.toFixed(4)}`,
+            ]),
+        ),
+        "",
+    ];
+    return lines.join("\n");
+}
@@ -0,0 +1,396 @@
+import fs from "fs/promises";
+import path from "path";
+import { minimatch } from "minimatch";
+import YAML from "yaml";
+import { LoggerService } from "../logger";
+
+/**
+ * Package manager whose workspace manifest declared a package
+ */
+export type WorkspaceKind = "npm" | "go" | "cargo";
+
+/**
+ * A package of a monorepo
+ */
+export interface WorkspacePackage {
+    /** Name from the package manifest: package.json name, Go module path or crate name */
+    name: string;
+    /** Directory relative to the workspace root, with forward slashes, "" for the root itself */
+    dir: string;
+    kind: WorkspaceKind;
+    /** Names of the other workspace packages it depends on */
+    dependencies: string[];
+}
+
+/**
+ * A detected package before its dependencies are narrowed down to workspace packages
+ */
+interface PackageManifest {
+    name: string;
+    dir: string;
+    kind: WorkspaceKind;
+    dependencyNames: string[];
+}
+
+// Directories never searched for workspace packages
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "target", "vendor", "dist", "build", "out"]);
+// Depth of the directory search that expands member globs
+const MAX_MEMBER_DEPTH = 6;
+const PACKAGE_JSON_DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+const CARGO_DEPENDENCY_SECTION_PATTERN = /^(?:target\..+\.)?(?:dev-|build-)?dependencies$/;
+
+/**
+ * Read a text file, without failing if it doesn't exist
+ * @param filePath File to read
+ * @returns Content, undefined if the file can't be read
+ */
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(filePath, "utf-8");
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parse a manifest, without failing the detection if it is malformed
+ * @param filePath Path of the manifest, for the warning
+ * @param content Content of the manifest
+ * @param parse Parser of the manifest's format
+ * @returns Parsed manifest, undefined if it can't be parsed
+ */
+function parseManifest(filePath: string, content: string, parse: (text: string) => unknown): any {
+    try {
+        return parse(content);
+    } catch (e) {
+        LoggerService.getInstance().warn(`Skipping malformed workspace manifest ${filePath}: ${e}`);
+        return undefined;
+    }
+}
+
+/**
+ * Normalize a member path or glob of a workspace manifest
+ * @param pattern Path as written in the manifest, e.g. `./packages/*`
+ * @returns Path relative to the root with forward slashes, without leading "./" or trailing "/"
+ */
+function normalizeMemberPattern(pattern: string): string {
+    return path.posix
+        .normalize(pattern.trim().replace(/\\/g, "/"))
+        .replace(/^\.\/?/, "")
+        .replace(/\/$/, "");
+}
+
+/**
+ * List the directories below a root, for matching member globs
+ * Hidden directories and dependency or build output directories are not entered
+ * @param rootDir Workspace root
+ * @returns Directory paths relative to the root, with forward slashes
+ */
+async function listDirectories(rootDir: string): Promise<string[]> {
+    const directories: string[] = [];
+    const walk = async (relDir: string, depth: number) => {
+        if (depth > MAX_MEMBER_DEPTH) {
+            return;
+        }
+        let entries;
+        try {
+            entries = await fs.readdir(path.join(rootDir, relDir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) {
+                continue;
+            }
+            const childDir = path.posix.join(relDir, entry.name);
+            directories.push(childDir);
+            await walk(childDir, depth + 1);
+        }
+    };
+    await walk("", 1);
+    return directories;
+}
+
+/**
+ * Expand the member globs of a workspace manifest to directories
+ * @param patterns Member paths or globs, the ones starting with "!" exclude directories
+ * @param directories Every directory of the workspace
+ * @returns Matching directories
+ */
+function expandMembers(patterns: string[], directories: string[]): string[] {
+    const includes = patterns.filter(pattern => !pattern.startsWith("!")).map(normalizeMemberPattern);
+    const excludes = patterns.filter(pattern => pattern.startsWith("!")).map(p => normalizeMemberPattern(p.slice(1)));
+    return [...includes.filter(pattern => pattern === ""), ...directories].filter(
+        dir => includes.some(pattern => minimatch(dir, pattern)) && !excludes.some(pattern => minimatch(dir, pattern)),
+    );
+}
+
+/**
+ * Find the members of pnpm, yarn and npm workspaces
+ * @param rootDir Workspace root
+ * @param directories Every directory of the workspace
+ * @returns Packages with a package.json, the workspace root itself is not one of them
+ */
+async function findNpmPackages(rootDir: string, directories: string[]): Promise<PackageManifest[]> {
+    const patterns: string[] = [];
+    const pnpmWorkspacePath = path.join(rootDir, "pnpm-workspace.yaml");
+    const pnpmWorkspace = await readOptionalFile(pnpmWorkspacePath);
+    if (pnpmWorkspace) {
+        const packages = parseManifest(pnpmWorkspacePath, pnpmWorkspace, YAML.parse)?.packages;
+        if (Array.isArray(packages)) {
+            patterns.push(...packages.filter((p): p is string => typeof p === "string"));
+        }
+    }
+    const rootManifestPath = path.join(rootDir, "package.json");
+    const rootManifest = await readOptionalFile(rootManifestPath);
+    if (rootManifest) {
+        // An array, or an object with a packages array in older yarn versions
+        const workspaces = parseManifest(rootManifestPath, rootManifest, JSON.parse)?.workspaces;
+        const members = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+        if (Array.isArray(members)) {
+            patterns.push(...members.filter((p): p is string => typeof p === "string"));
+        }
+    }
+    if (patterns.length === 0) {
+        return [];
+    }
+
+    const packages: PackageManifest[] = [];
+    for (const dir of expandMembers(patterns, directories)) {
+        const manifestPath = path.join(rootDir, dir, "package.json");
+        const content = dir ? await readOptionalFile(manifestPath) : undefined;
+        const manifest = content ? parseManifest(manifestPath, content, JSON.parse) : undefined;
+        if (!manifest || typeof manifest !== "object") {
+            continue;
+        }
+        packages.push({
+            name: typeof manifest.name === "string" ? manifest.name : path.posix.basename(dir),
+            dir,
+            kind: "npm",
+            dependencyNames: PACKAGE_JSON_DEPENDENCY_FIELDS.flatMap(field => Object.keys(manifest[field] ?? {})),
+        });
+    }
+    return packages;
+}
+
+/**
+ * Find the modules of a Go workspace, as listed by the `use` directives of go.work
+ * @param rootDir Workspace root
+ * @returns Modules with a go.mod
+ */
+async function findGoModules(rootDir: string): Promise<PackageManifest[]> {
+    const goWork = await readOptionalFile(path.join(rootDir, "go.work"));
+    if (!goWork) {
+        return [];
+    }
+    const uses: string[] = [];
+    for (const [, block] of goWork.matchAll(/^use\s*\(([^)]*)\)/gm)) {
+        uses.push(...block.split("\n").map(line => line.replace(/\/\/.*$/, "").trim()));
+    }
+    for (const [, dir] of goWork.matchAll(/^use\s+([^\s(]+)/gm)) {
+        uses.push(dir);
+    }
+
+    const modules: PackageManifest[] = [];
+    for (const dir of new Set(uses.filter(Boolean).map(normalizeMemberPattern))) {
+        const goMod = await readOptionalFile(path.join(rootDir, dir, "go.mod"));
+        const modulePath = goMod?.match(/^module\s+(\S+)/m)?.[1];
+        if (!goMod || !modulePath) {
+            continue;
+        }
+        const requires = [
+            ...[...goMod.matchAll(/^require\s*\(([^)]*)\)/gm)].flatMap(([, block]) => block.split("\n")),
+            ...[...goMod.matchAll(/^require\s+([^\s(].*)$/gm)].map(([, line]) => line),
+        ];
+        modules.push({
+            name: modulePath,
+            dir,
+            kind: "go",
+            dependencyNames: requires.map(line => line.trim().split(/\s+/)[0]).filter(Boolean),
+        });
+    }
+    return modules;
+}
+
+/**
+ * Split a Cargo.toml into its sections
+ * @param toml Content of the manifest
+ * @returns Lines of each section, keyed by section name ("" before the first header)
+ */
+function parseTomlSections(toml: string): Map<string, string> {
+    const sections = new Map<string, string>();
+    let name = "";
+    for (const line of toml.split("\n")) {
+        const header = line.match(/^\s*\[([^\]]+)\]\s*(#.*)?$/);
+        if (header) {
+            name = header[1].trim();
+            sections.set(name, "");
+        } else {
+            sections.set(name, (sections.get(name) ?? "") + line + "\n");
+        }
+    }
+    return sections;
+}
+
+/**
+ * Read a string array value of a TOML section, which may span several lines
+ * @param section Lines of the section
+ * @param key Key of the array
+ * @returns Strings of the array, empty if the key is missing
+ */
+function readTomlStringArray(section: string | undefined, key: string): string[] {
+    const value = section?.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([^\\]]*)\\]`, "m"))?.[1];
+    return value ? [...value.matchAll(/"([^"]*)"|'([^']*)'/g)].map(([, double, single]) => double ?? single) : [];
+}
+
+/**
+ * Find the members of a Cargo workspace
+ * @param rootDir Workspace root
+ * @param directories Every directory of the workspace
+ * @returns Crates with a Cargo.toml, the root crate included if the root manifest has a [package] too
+ */
+async function findCargoCrates(rootDir: string, directories: string[]): Promise<PackageManifest[]> {
+    const rootManifest = await readOptionalFile(path.join(rootDir, "Cargo.toml"));
+    const workspace = rootManifest ? parseTomlSections(rootManifest).get("workspace") : undefined;
+    if (workspace === undefined) {
+        return [];
+    }
+    const patterns = [
+        ...readTomlStringArray(workspace, "members"),
+        ...readTomlStringArray(workspace, "exclude").map(dir => `!${dir}`),
+    ];
+
+    const crates: PackageManifest[] = [];
+    for (const dir of new Set(["", ...expandMembers(patterns, directories)])) {
+        const content = await readOptionalFile(path.join(rootDir, dir, "Cargo.toml"));
+        const sections = content ? parseTomlSections(content) : undefined;
+        const name = sections?.get("package")?.match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1];
+        if (!sections || !name) {
+            continue;
+        }
+        const dependencyNames: string[] = [];
+        for (const [section, body] of sections) {
+            if (CARGO_DEPENDENCY_SECTION_PATTERN.test(section)) {
+                dependencyNames.push(...[...body.matchAll(/^\s*([\w-]+)\s*=/gm)].map(([, dependency]) => dependency));
+            }
+            // [dependencies.name] tables
+            const table = section.match(/^(?:target\..+\.)?(?:dev-|build-)?dependencies\.([\w-]+)$/);
+            if (table) {
+                dependencyNames.push(table[1]);
+            }
+        }
+        crates.push({ name, dir, kind: "cargo", dependencyNames });
+    }
+    return crates;
+}
+
+/**
+ * Detect the packages of a monorepo from its workspace manifests: pnpm-workspace.yaml, the workspaces
+ * of package.json (yarn and npm), go.work and the [workspace] of Cargo.toml
+ * @param rootDir Workspace root
+ * @returns Packages sorted by directory, with their dependencies on each other; empty if the directory is
+ * not a monorepo
+ */
+export async function detectWorkspacePackages(rootDir: string): Promise<WorkspacePackage[]> {
+    const directories = await listDirectories(rootDir);
+    const manifests = [
+        ...(await findNpmPackages(rootDir, directories)),
+        ...(await findGoModules(rootDir)),
+        ...(await findCargoCrates(rootDir, directories)),
+    ];
+
+    // A directory belongs to the first manifest claiming it
+    const byDir = new Map<string, PackageManifest>();
+    for (const manifest of manifests) {
+        if (!byDir.has(manifest.dir)) {
+            byDir.set(manifest.dir, manifest);
+        }
+    }
+    const names = new Set([...byDir.values()].map(manifest => `${manifest.kind}:${manifest.name}`));
+    return [...byDir.values()]
+        .sort((a, b) => a.dir.localeCompare(b.dir))
+        .map(({ name, dir, kind, dependencyNames }) => ({
+            name,
+            dir,
+            kind,
+            dependencies: [...new Set(dependencyNames)].filter(
+                dependency => dependency !== name && names.has(`${kind}:${dependency}`),
+            ),
+        }));
+}
+
+/**
+ * Get the folder of a package's Wiki, relative to the monorepo's Wiki
+ * @param pkg Workspace package
+ * @returns Package directory, or a folder named after the package for the root package
+ */
+export function getPackageWikiDir(pkg: WorkspacePackage): string {
+    return pkg.dir || pkg.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/**
+ * Get the exclude patterns keeping the packages nested in a package out of its crawl
+ * @param pkg Package being crawled
+ * @param packages Every package of the workspace
+ * @returns Patterns relative to the package directory
+ */
+export function getNestedPackageExcludes(pkg: WorkspacePackage, packages: WorkspacePackage[]): string[] {
+    return packages
+        .filter(other => other !== pkg && (pkg.dir === "" || other.dir.startsWith(`${pkg.dir}/`)))
+        .flatMap(other => {
+            const relDir = pkg.dir ? other.dir.slice(pkg.dir.length + 1) : other.dir;
+            return [relDir, `${relDir}/**`];
+        });
+}
+
+/**
+ * Outcome of a package's Wiki generation
+ */
+export interface PackageWikiResult {
+    pkg: WorkspacePackage;
+    /** Project summary of the package's Wiki */
+    summary?: string;
+    /** Why the package's Wiki could not be generated */
+    error?: string;
+}
+
+/**
+ * Build the index of a monorepo's Wiki: a diagram of the dependencies between the packages and a link
+ * to the Wiki of each package
+ * @param projectName Name of the monorepo
+ * @param results Outcome of every package, in display order
+ * @returns Markdown content of index.md
+ */
+export function formatWorkspaceIndex(projectName: string, results: PackageWikiResult[]): string {
+    const nodeIds = new Map(results.map(({ pkg }, i) => [`${pkg.kind}:${pkg.name}`, `P${i}`]));
+    const mermaidLines = ["flowchart TD"];
+    results.forEach(({ pkg }, i) => mermaidLines.push(`    P${i}["${pkg.name.replace(/"/g, "")}"]`));
+    results.forEach(({ pkg }, i) => {
+        for (const dependency of pkg.dependencies) {
+            const target = nodeIds.get(`${pkg.kind}:${dependency}`);
+            if (target) {
+                mermaidLines.push(`    P${i} --> ${target}`);
+            }
+        }
+    });
+
+    let content = `# Monorepo: ${projectName}\n\n`;
+    content += `${results.length} packages, each documented in a Wiki of its own. Arrows point from a package to the packages it depends on.\n\n`;
+    content += "```mermaid\n" + mermaidLines.join("\n") + "\n```\n\n";
+    content += "## Packages\n\n";
+    results.forEach(({ pkg, summary, error }, i) => {
+        const location = `\`${pkg.dir || "."}\` (${pkg.kind})`;
+        if (error) {
+            content += `${i + 1}. ${pkg.name} - ${location}: _not generated: ${error.replace(/\s+/g, " ")}_\n`;
+            return;
+        }
+        const link = encodeURI(`${getPackageWikiDir(pkg)}/index.md`);
+        const firstParagraph = summary
+            ?.trim()
+            .split(/\n\s*\n/)[0]
+            .replace(/\s+/g, " ");
+        content += `${i + 1}. [${pkg.name}](${link}) - ${location}${firstParagraph ? `: ${firstParagraph}` : ""}\n`;
+    });
+    content += `\n\n---\n\nGenerated by [AI Codebase Knowledge Builder](https://github.com/The-Pocket/Tutorial-Codebase-Knowledge)`;
+    return content;
+}
@@ -0,0 +1,103 @@
+import * as assert from "assert";
+import {
+    ChapterSummary,
+    formatChapterSummaries,
+    formatChapterSummary,
+    summarizeChapter,
+} from "../utils/chapterSummaryUtils";
+import { estimateTokens } from "../utils/tokenUtils";
+
+const CART = { num: 2, name: "Cart", filename: "02_cart.md" };
+
+/**
+ * Summary of a chapter whose only content is its overview
+ */
+function chapterSummary(num: number, overview: string): ChapterSummary {
+    return summarizeChapter(overview, { num, name: `Chapter ${num}`, filename: `0${num}_chapter.md` });
+}
+
+suite("Chapter summaries", () => {
+    test("code blocks and links of the chapter to itself are left out", () => {
+        const summary = summarizeChapter(
+            [
+                "# Chapter 2: Cart",
+                "",
+                "The **Cart** holds `Item` objects until [Checkout](03_checkout.md), see [above](02_cart.md).",
+                "",
+                "```ts",
+                "## Not a section",
+                "const **total** = cart.sum();",
+                "```",
+                "",
+                "## Adding items",
+                "",
+                "Call `add` once per **Cart** item.",
+                "",
+                "~~~",
+                "[Payment](04_payment.md)",
+                "~~~",
+                "",
+                "### Removing items ###",
+                "",
+                "Then continue with [Checkout](03_checkout.md).",
+            ].join("\n"),
+            CART,
+        );
+
+        assert.deepStrictEqual(summary, {
+            chapter: CART,
+            overview: "The **Cart** holds `Item` objects until [Checkout](03_checkout.md), see [above](02_cart.md).",
+            sections: ["Adding items", "Removing items"],
+            keyTerms: ["Cart", "Item", "add"],
+            links: ["[Checkout](03_checkout.md)"],
+        });
+        assert.strictEqual(
+            formatChapterSummary(summary),
+            [
+                "Chapter 2: [Cart](02_cart.md)",
+                "- Overview: The **Cart** holds `Item` objects until [Checkout](03_checkout.md), see [above](02_cart.md).",
+                "- Sections: Adding items; Removing items",
+                "- Key terms introduced: Cart, Item, add",
+                "- Links to: [Checkout](03_checkout.md)",
+            ].join("\n"),
+        );
+    });
+
+    test("the overview is the first paragraph of prose, cut at a sentence end", () => {
+        const sentence = "The cart keeps the items until checkout. ";
+        const long = summarizeChapter(
+            ["# Cart", "", "## Contents", "", "- items", "- totals", "", sentence.repeat(10)].join("\n"),
+            CART,
+        );
+        // Seven sentences fit in 300 characters
+        assert.strictEqual(long.overview, sentence.repeat(7).trimEnd());
+
+        const unbroken = summarizeChapter("a".repeat(400), CART);
+        assert.strictEqual(unbroken.overview, `${"a".repeat(300)}...`);
+
+        const noProse = summarizeChapter("# Cart\n\n- items\n\n| a | b |", CART);
+        assert.strictEqual(noProse.overview, "");
+        assert.strictEqual(formatChapterSummary(noProse), "Chapter 2: [Cart](02_cart.md)");
+    });
+
+    test("the oldest summaries are omitted once the token budget is used up", () => {
+        const summaries = [1, 2, 3].map(num => chapterSummary(num, `Chapter ${num} explains part ${num}.`));
+        const formatted = summaries.map(formatChapterSummary);
+        const tokens = formatted.map(text => estimateTokens(text) + 1);
+
+        assert.strictEqual(formatChapterSummaries([], 100), "");
+        assert.strictEqual(
+            formatChapterSummaries(summaries, tokens[0] + tokens[1] + tokens[2]),
+            formatted.join("\n\n"),
+        );
+        assert.strictEqual(
+            formatChapterSummaries(summaries, tokens[1] + tokens[2]),
+            ["(Summaries of chapters 1 to 1 omitted for length)", formatted[1], formatted[2]].join("\n\n"),
+        );
+        // Without room for the latest summary, every chapter is omitted
+        assert.strictEqual(
+            formatChapterSummaries(summaries, tokens[2] - 1),
+            "(Summaries of chapters 1 to 3 omitted for length)",
+        );
+    });
+});
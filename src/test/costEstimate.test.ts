@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { DEFAULT_CONFIG, LLM_STAGES } from "../constants";
+import EstimateCostNode from "../nodes/estimateCostNode";
+import { CostEstimate, estimateRunCost, StageModel } from "../services/usage";
+import { LlmModel, LlmStage, SharedStore } from "../types";
+
+const FILES = [
+    { path: "src/main.ts", content: "export const main = () => console.log('hello');\n".repeat(20) },
+    { path: "src/util.ts", content: "export const add = (a: number, b: number) => a + b;\n".repeat(20) },
+];
+
+/**
+ * Model details as the provider reports them
+ */
+function modelDetails(id: string, prompt: string, completion: string): LlmModel {
+    return { id, name: id, pricing: { prompt, completion }, context_length: 128_000 };
+}
+
+/**
+ * Every stage running on the same model
+ */
+function sameModelForEveryStage(model: string, modelDetails?: LlmModel): Record<LlmStage, StageModel> {
+    const stageModel = { model, modelDetails, contextWindow: 128_000 };
+    return Object.fromEntries(LLM_STAGES.map(stage => [stage, stageModel])) as Record<LlmStage, StageModel>;
+}
+
+suite("Cost estimate", () => {
+    test("a model without reported prices makes the estimate's pricing unknown", () => {
+        const estimate = (details?: LlmModel) =>
+            estimateRunCost({ files: FILES, stageModels: sameModelForEveryStage("m", details), maxAbstractionNum: 5 });
+
+        const paid = estimate(modelDetails("m", "0.000003", "0.000015"));
+        assert.ok(paid.pricingKnown);
+        assert.ok(paid.cost > 0);
+
+        // A local model reports a price of 0, which is known to be free
+        const free = estimate(modelDetails("m", "0", "0"));
+        assert.ok(free.pricingKnown);
+        assert.strictEqual(free.cost, 0);
+
+        for (const unknown of [estimate(undefined), estimate(modelDetails("m", "n/a", "0"))]) {
+            assert.strictEqual(unknown.pricingKnown, false);
+            assert.deepStrictEqual(unknown.unpricedModels, ["m"]);
+            assert.ok(unknown.stages.every(stage => !stage.pricingKnown));
+            assert.strictEqual(unknown.cost, 0);
+        }
+    });
+
+    /**
+     * Run the estimate node and record whether it asked for confirmation
+     * @param settings Settings of the run
+     * @param llmModels Model details the provider reported
+     * @param confirm Answer of the confirmation dialog
+     * @returns Estimates the user was asked about
+     */
+    async function runEstimate(
+        settings: Partial<SharedStore>,
+        llmModels: Record<string, LlmModel>,
+        confirm = true,
+    ): Promise<CostEstimate[]> {
+        const asked: CostEstimate[] = [];
+        const shared = { ...DEFAULT_CONFIG, llmModel: "m", files: FILES, ...settings } as SharedStore;
+        const node = new EstimateCostNode(1, 0);
+        node.setParams({
+            ...shared,
+            llmModels,
+            confirmCost: async (estimate: CostEstimate) => {
+                asked.push(estimate);
+                return confirm;
+            },
+        });
+        await node.run(shared);
+        return asked;
+    }
+
+    test("a run of unknown cost is confirmed like a paid one", async () => {
+        const settings = { confirmCostEstimate: true, maxSpendUsd: 0 };
+
+        const asked = await runEstimate(settings, {});
+        assert.strictEqual(asked.length, 1);
+        assert.strictEqual(asked[0].pricingKnown, false);
+        await assert.rejects(runEstimate(settings, {}, false), vscode.CancellationError);
+
+        assert.strictEqual((await runEstimate(settings, { m: modelDetails("m", "0", "0") })).length, 0);
+        assert.strictEqual((await runEstimate(settings, { m: modelDetails("m", "0.000003", "0.000015") })).length, 1);
+    });
+
+    test("a spend limit without pricing is confirmed even if estimates aren't", async () => {
+        const settings = { confirmCostEstimate: false, maxSpendUsd: 5 };
+
+        assert.strictEqual((await runEstimate(settings, {})).length, 1);
+        await assert.rejects(runEstimate(settings, {}, false), vscode.CancellationError);
+        // With prices the limit holds on its own
+        assert.strictEqual((await runEstimate(settings, { m: modelDetails("m", "0.000003", "0.000015") })).length, 0);
+        assert.strictEqual((await runEstimate({ confirmCostEstimate: false, maxSpendUsd: 0 }, {})).length, 0);
+        // Replayed answers cost nothing whatever the pricing
+        assert.strictEqual((await runEstimate({ ...settings, llmMode: "replay" }, {})).length, 0);
+    });
+});
@@ -0,0 +1,177 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DEFAULT_CONFIG } from "../constants";
+import IdentifyAbstractionsNode from "../nodes/identifyAbstractionsNode";
+import { BatchableFile, batchFilesByDirectory } from "../services/analysis";
+import { SharedStore } from "../types";
+
+const MODEL = "scripted-model";
+// Long enough that a merge prompt only has room for a couple of candidates
+const LONG_DESCRIPTION = "It coordinates the work of the modules around it. ".repeat(40).trim();
+const FIRST_LISTED_FILE_PATTERN = /List of file indices and paths present in the context:\n- (\d+) # (\S+)/;
+
+/**
+ * Files of the given token sizes, indexed in the order given
+ */
+function batchable(files: Record<string, number>): BatchableFile[] {
+    return Object.entries(files).map(([path, tokens], index) => ({ index, path, tokens }));
+}
+
+/**
+ * Scripted answer for the identification and merge prompts: every batch yields one candidate made of its
+ * first listed file, and every merge combines all the candidates it is shown
+ */
+function answerPrompt(prompt: string): string {
+    if (prompt.includes("Candidate Abstractions:")) {
+        const candidates = [...prompt.matchAll(/^- (\d+) # /gm)].map(match => match[1]);
+        return [
+            "```yaml",
+            `- name: Merged ${candidates.length}`,
+            `  description: ${LONG_DESCRIPTION}`,
+            "  candidate_indices:",
+            ...candidates.map(index => `    - ${index}`),
+            "```",
+        ].join("\n");
+    }
+    const firstFile = prompt.match(FIRST_LISTED_FILE_PATTERN);
+    assert.ok(firstFile, "an identification prompt lists its files");
+    return [
+        "```yaml",
+        `- name: Module of ${firstFile[2]}`,
+        `  description: ${LONG_DESCRIPTION}`,
+        "  file_indices:",
+        `    - ${firstFile[1]}`,
+        "```",
+    ].join("\n");
+}
+
+/**
+ * Start a local server speaking the OpenAI chat completions API with scripted answers
+ * @returns Base URL, the prompts received and a function stopping the server
+ */
+async function startScriptedServer(): Promise<{ baseUrl: string; prompts: string[]; close: () => Promise<void> }> {
+    const prompts: string[] = [];
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => {
+            const prompt: string = JSON.parse(body).messages[0].content;
+            prompts.push(prompt);
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(
+                JSON.stringify({
+                    id: `chatcmpl-${prompts.length}`,
+                    object: "chat.completion",
+                    created: 0,
+                    model: MODEL,
+                    choices: [
+                        {
+                            index: 0,
+                            message: { role: "assistant", content: answerPrompt(prompt) },
+                            finish_reason: "stop",
+                        },
+                    ],
+                    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+                }),
+            );
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        prompts,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
+
+suite("Directory batches", () => {
+    test("a codebase that fits the budget is one batch", () => {
+        const batches = batchFilesByDirectory(batchable({ "src/a.ts": 10, "src/b.ts": 10, "README.md": 5 }), 100);
+        assert.deepStrictEqual(batches, [{ directories: [""], indices: [2, 0, 1], tokens: 25 }]);
+    });
+
+    test("directories stay together and small neighbours share a batch", () => {
+        const batches = batchFilesByDirectory(
+            batchable({ "c/main.ts": 60, "a/x.ts": 15, "a/y.ts": 15, "b/z.ts": 30 }),
+            100,
+        );
+        assert.deepStrictEqual(batches, [
+            { directories: ["a", "b"], indices: [1, 2, 3], tokens: 60 },
+            { directories: ["c"], indices: [0], tokens: 60 },
+        ]);
+    });
+
+    test("a directory too large for one batch is split into subdirectories and chunks of its files", () => {
+        const batches = batchFilesByDirectory(
+            batchable({ "lib/1.ts": 40, "lib/2.ts": 40, "lib/3.ts": 40, "lib/sub/4.ts": 90 }),
+            100,
+        );
+        assert.deepStrictEqual(
+            batches.map(batch => batch.indices),
+            [[0, 1], [2], [3]],
+        );
+        assert.deepStrictEqual(batches[2].directories, ["lib/sub"]);
+    });
+
+    test("a file larger than the budget gets a batch of its own", () => {
+        const batches = batchFilesByDirectory(batchable({ "src/huge.ts": 500, "src/small.ts": 10 }), 100);
+        assert.deepStrictEqual(
+            batches.map(batch => batch.indices),
+            [[0], [1]],
+        );
+    });
+});
+
+suite("Hierarchical abstraction identification", () => {
+    test("candidates of every batch are merged in rounds into the final abstractions", async function () {
+        this.timeout(30_000);
+        const files = ["api", "core", "db", "jobs", "ui", "util"].flatMap(dir =>
+            [1, 2].map(n => ({
+                path: `${dir}/module${n}.ts`,
+                content: Array.from(
+                    { length: 30 },
+                    (_, i) =>
+                        `/** Handles step ${i} of ${dir} */\nexport function ${dir}Step${n}x${i}(input: string): string {\n    return input;\n}\n`,
+                ).join("\n"),
+            })),
+        );
+
+        const server = await startScriptedServer();
+        try {
+            const shared = {
+                ...DEFAULT_CONFIG,
+                llmApiKey: "test-key",
+                llmModel: MODEL,
+                llmProvider: "openai-compatible",
+                llmProviders: { ...DEFAULT_CONFIG.llmProviders, "openai-compatible": { baseUrl: server.baseUrl } },
+                useCache: false,
+                contextWindowTokens: 3_000,
+                maxAbstractionNum: 1,
+                projectName: "shop",
+                files,
+            } as SharedStore;
+            const node = new IdentifyAbstractionsNode(1, 0);
+            node.setParams({ ...shared, llmModels: {} });
+            await node.run(shared);
+
+            const identifyPrompts = server.prompts.filter(prompt =>
+                prompt.includes("candidate abstractions in this part"),
+            );
+            const mergePrompts = server.prompts.filter(prompt => prompt.includes("Candidate Abstractions:"));
+            assert.ok(identifyPrompts.length > 1, "the codebase should have been split into batches");
+            assert.ok(mergePrompts.length > 2, "the candidates should have been merged in more than one round");
+            // Every batch contributes its first file, and the merges keep all of them
+            const batchFiles = identifyPrompts.map(prompt => Number(prompt.match(FIRST_LISTED_FILE_PATTERN)![1]));
+            assert.strictEqual(shared.abstractions.length, 1);
+            assert.deepStrictEqual(
+                shared.abstractions[0].files,
+                batchFiles.sort((a, b) => a - b),
+            );
+        } finally {
+            await server.close();
+        }
+    });
+});
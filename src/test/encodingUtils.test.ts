@@ -0,0 +1,69 @@
+import * as assert from "assert";
+import { decodeText, detectGenerated } from "../utils/encodingUtils";
+
+const SOURCE = 'export const greeting = "Grüße";\n';
+
+suite("Text decoding", () => {
+    test("UTF-8 is decoded with and without a byte order mark", () => {
+        assert.deepStrictEqual(decodeText(Buffer.from(SOURCE, "utf-8")), { text: SOURCE, encoding: "utf-8" });
+        assert.deepStrictEqual(decodeText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(SOURCE)])), {
+            text: SOURCE,
+            encoding: "utf-8",
+        });
+    });
+
+    test("UTF-16 is decoded in both byte orders, with or without a byte order mark", () => {
+        const utf16le = Buffer.from(SOURCE, "utf16le");
+        const utf16be = Buffer.from(utf16le).swap16();
+
+        assert.deepStrictEqual(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), utf16le])), {
+            text: SOURCE,
+            encoding: "utf-16le",
+        });
+        assert.deepStrictEqual(decodeText(Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be])), {
+            text: SOURCE,
+            encoding: "utf-16be",
+        });
+        assert.deepStrictEqual(decodeText(utf16le), { text: SOURCE, encoding: "utf-16le" });
+        assert.deepStrictEqual(decodeText(utf16be), { text: SOURCE, encoding: "utf-16be" });
+    });
+
+    test("text that isn't valid UTF-8 falls back to Latin-1", () => {
+        assert.deepStrictEqual(decodeText(Buffer.from(SOURCE, "latin1")), { text: SOURCE, encoding: "latin1" });
+    });
+
+    test("binary data is recognized by NUL bytes or control characters", () => {
+        assert.strictEqual(decodeText(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00])), null);
+        assert.strictEqual(decodeText(Buffer.from([0x01, 0x02, 0x03, 0x41, 0x42, 0x04, 0x05, 0x06])), null);
+        assert.deepStrictEqual(decodeText(Buffer.from("\x1b[31mred\x1b[0m\r\n\tindented\f")), {
+            text: "\x1b[31mred\x1b[0m\r\n\tindented\f",
+            encoding: "utf-8",
+        });
+    });
+});
+
+suite("Generated code detection", () => {
+    test("generated files are recognized by their header", () => {
+        assert.strictEqual(
+            detectGenerated("// Code generated by protoc-gen-go. DO NOT EDIT.\npackage api\n"),
+            "generated",
+        );
+        assert.strictEqual(detectGenerated("/**\n * @generated by relay-compiler\n */\nexport {};\n"), "generated");
+        assert.strictEqual(detectGenerated("// <auto-generated>\nnamespace App {}\n"), "generated");
+    });
+
+    test("a marker below the header does not count", () => {
+        const text = `${"const x = 1;\n".repeat(20)}// The parser is @generated at build time\n`;
+        assert.strictEqual(detectGenerated(text), null);
+    });
+
+    test("minified code is recognized by its line lengths", () => {
+        assert.strictEqual(detectGenerated(`!function(){${"var a=1;".repeat(700)}}();`), "minified");
+        assert.strictEqual(detectGenerated(`${"x".repeat(300)}\n`.repeat(10)), "minified");
+    });
+
+    test("hand-written code and empty files pass", () => {
+        assert.strictEqual(detectGenerated(SOURCE.repeat(50)), null);
+        assert.strictEqual(detectGenerated("\n\n"), null);
+    });
+});
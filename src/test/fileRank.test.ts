@@ -0,0 +1,135 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { buildImportGraph, ImportGraph, rankFiles } from "../services/analysis";
+import { FileInfo } from "../types";
+
+/**
+ * Write files below a directory, creating their directories
+ */
+async function writeFiles(rootDir: string, files: Record<string, string>): Promise<void> {
+    for (const [relPath, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(rootDir, relPath)), { recursive: true });
+        await fs.writeFile(path.join(rootDir, relPath), content);
+    }
+}
+
+/**
+ * Project files with the given paths and contents, paths in the platform's form like the crawl returns them
+ */
+function projectFiles(files: Record<string, string>): FileInfo[] {
+    return Object.entries(files).map(([filePath, content]) => ({ path: filePath.split("/").join(path.sep), content }));
+}
+
+/**
+ * Import graph without any imports
+ */
+function noImports(files: FileInfo[]): ImportGraph {
+    return { imports: files.map(() => []), analyzed: files.map(() => true) };
+}
+
+suite("File ranking", () => {
+    let rootDir: string;
+
+    setup(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-rank-"));
+    });
+
+    teardown(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    test("package.json entry points map build output back to the sources", async () => {
+        await writeFiles(rootDir, {
+            "package.json": JSON.stringify({
+                main: "./dist/index.js",
+                bin: { shop: "bin/shop.js" },
+                exports: { ".": { import: "./lib/esm/client.mjs", types: "./dist/index.d.ts" } },
+            }),
+            "packages/worker/package.json": JSON.stringify({ main: "build/worker.js" }),
+            "tools/package.json": "{ not json",
+        });
+        const files = projectFiles({
+            "src/index.ts": "",
+            "src/esm/client.ts": "",
+            "bin/shop.js": "",
+            "src/helpers.ts": "",
+            "packages/worker/src/worker.ts": "",
+            "tools/src/index.ts": "",
+            "cmd/api/main.go": "",
+            "app/__main__.py": "",
+        });
+
+        const ranks = await rankFiles(files, noImports(files), { rootDir });
+        const entryPoints = ranks
+            .filter(rank => rank.signals.entryPoint)
+            .map(rank => rank.path.split(path.sep).join("/"))
+            .sort();
+        assert.deepStrictEqual(entryPoints, [
+            "app/__main__.py",
+            "bin/shop.js",
+            "cmd/api/main.go",
+            "packages/worker/src/worker.ts",
+            "src/esm/client.ts",
+            "src/index.ts",
+        ]);
+    });
+
+    test("the score weighs importers, entry points, churn and size", async () => {
+        await writeFiles(rootDir, { "package.json": JSON.stringify({ main: "src/main.ts" }) });
+        const files = projectFiles({
+            "src/main.ts": 'import { a } from "./a";\nimport { b } from "./b";\nimport { c } from "./c";',
+            "src/a.ts": 'import { c } from "./c";',
+            "src/b.ts": 'import { c } from "./c";',
+            "src/c.ts": "export const c = 1;\n".repeat(99),
+        });
+
+        const ranks = await rankFiles(files, buildImportGraph(files), { rootDir });
+        const byPath = Object.fromEntries(ranks.map(rank => [rank.path.split(path.sep).join("/"), rank]));
+
+        assert.deepStrictEqual(byPath["src/c.ts"].signals, { importers: 3, entryPoint: false, commits: 0, lines: 100 });
+        // 2 * log2(1 + 3 importers) + 0.5 * log10(1 + 100 lines)
+        assert.strictEqual(byPath["src/c.ts"].score, 2 * 2 + 0.5 * Math.log10(101));
+        // Entry point bonus of 4 + 0.5 * log10(1 + 3 lines)
+        assert.strictEqual(byPath["src/main.ts"].score, 4 + 0.5 * Math.log10(4));
+        assert.deepStrictEqual(
+            ranks.map(rank => rank.path.split(path.sep).join("/")),
+            ["src/c.ts", "src/main.ts", "src/a.ts", "src/b.ts"],
+        );
+    });
+
+    test("recent commits raise the score, files of equal score keep their order", async () => {
+        const git = (args: string[]) =>
+            execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+                cwd: rootDir,
+                stdio: "ignore",
+            });
+        git(["init", "--quiet"]);
+        for (const version of ["1", "2"]) {
+            await writeFiles(rootDir, { "hot.ts": version, "cold.ts": "" });
+            git(["add", "-A"]);
+            git(["commit", "--quiet", "-m", version]);
+        }
+        const files = projectFiles({ "z.ts": "", "cold.ts": "", "hot.ts": "", "a.ts": "" });
+
+        const ranks = await rankFiles(files, noImports(files), { rootDir, sourceCommit: "HEAD" });
+        assert.deepStrictEqual(
+            ranks.map(rank => [rank.path, rank.signals.commits]),
+            [
+                ["hot.ts", 2],
+                ["cold.ts", 1],
+                ["z.ts", 0],
+                ["a.ts", 0],
+            ],
+        );
+
+        // A commit that can't be read only loses the churn signal
+        const withoutChurn = await rankFiles(files, noImports(files), { rootDir, sourceCommit: "no-such-ref" });
+        assert.deepStrictEqual(
+            withoutChurn.map(rank => rank.path),
+            ["z.ts", "cold.ts", "hot.ts", "a.ts"],
+        );
+    });
+});
@@ -0,0 +1,135 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_CONFIG } from "../constants";
+import FetchRepoNode from "../nodes/fetchRepoNode";
+import { crawlGitFiles, crawlLocalFiles, GitCrawlSource } from "../services/file";
+import { CrawlMode, SharedStore } from "../types";
+
+/**
+ * Write files below a directory, creating their directories
+ */
+async function writeFiles(rootDir: string, files: Record<string, string>): Promise<void> {
+    for (const [relPath, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(rootDir, relPath)), { recursive: true });
+        await fs.writeFile(path.join(rootDir, relPath), content);
+    }
+}
+
+/**
+ * Run git in a repository, with an identity so commits work on any machine
+ */
+function git(repoDir: string, args: string[]): void {
+    execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+        cwd: repoDir,
+        stdio: "ignore",
+    });
+}
+
+suite("Git crawl", () => {
+    const sources: GitCrawlSource[] = [{ mode: "tracked" }, { mode: "ref", ref: "HEAD" }];
+    let repoDir: string;
+
+    setup(async () => {
+        repoDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-crawl-"));
+        git(repoDir, ["init", "--quiet"]);
+    });
+
+    teardown(async () => {
+        await fs.rm(repoDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Commit files and crawl a directory of the repository in every mode
+     * @returns Crawled paths with forward slashes, by mode
+     */
+    async function crawlEveryMode(
+        files: Record<string, string>,
+        excludePatterns: string[],
+        dir = "",
+    ): Promise<Record<string, string[]>> {
+        await writeFiles(repoDir, files);
+        git(repoDir, ["add", "-A"]);
+        git(repoDir, ["commit", "--quiet", "-m", "files"]);
+
+        const crawlDir = path.join(repoDir, dir);
+        const toPosix = (result: { files: { path: string }[] }) =>
+            result.files.map(file => file.path.split(path.sep).join("/"));
+        const crawled: Record<string, string[]> = {
+            local: toPosix(await crawlLocalFiles(crawlDir, undefined, excludePatterns)),
+        };
+        for (const source of sources) {
+            crawled[source.mode] = toPosix(await crawlGitFiles(crawlDir, source, undefined, excludePatterns));
+        }
+        return crawled;
+    }
+
+    test("files in an excluded directory are left out at any depth", async () => {
+        const crawled = await crawlEveryMode(
+            {
+                "src/index.ts": "export {};\n",
+                "dist/main.js": "run();\n",
+                "dist/sub/x.js": "run();\n",
+                "agentic-wiki/proj/index.md": "# Proj\n",
+            },
+            [".git/*", "dist/*", "agentic-wiki/*"],
+        );
+
+        for (const files of Object.values(crawled)) {
+            assert.deepStrictEqual(files, ["src/index.ts"]);
+        }
+    });
+
+    test("a crawl of a subdirectory applies the .agenticwikiignore files above it", async () => {
+        const crawled = await crawlEveryMode(
+            {
+                ".agenticwikiignore": "*.snap\nfixtures/\n",
+                "packages/.agenticwikiignore": "*.sql\n",
+                "packages/api/.agenticwikiignore": "!schema.sql\n",
+                "packages/api/schema.sql": "create table t();\n",
+                "packages/api/seed.sql": "insert into t;\n",
+                "packages/api/src/app.ts": "export {};\n",
+                "packages/api/src/app.snap": "snapshot\n",
+                "packages/api/fixtures/user.json": "{}\n",
+            },
+            [],
+            "packages/api",
+        );
+
+        for (const files of Object.values(crawled)) {
+            assert.deepStrictEqual(files, [".agenticwikiignore", "schema.sql", "src/app.ts"]);
+        }
+    });
+
+    test("the output directory and the workspace cache in it are left out in every mode", async () => {
+        await writeFiles(repoDir, {
+            "src/index.ts": "export {};\n",
+            "wiki/index.md": "# Wiki\n",
+            "wiki/.cache/ab/entry.json": "{}\n",
+        });
+        git(repoDir, ["add", "-A"]);
+        git(repoDir, ["commit", "--quiet", "-m", "files"]);
+
+        for (const crawlMode of ["working-tree", "tracked", "ref"] as CrawlMode[]) {
+            const shared = {
+                ...DEFAULT_CONFIG,
+                localDir: repoDir,
+                outputDir: "wiki",
+                crawlMode,
+                includePatterns: ["*"],
+                excludePatterns: [".git/*"],
+            } as SharedStore;
+            const node = new FetchRepoNode(1, 0);
+            node.setParams({ ...shared, llmModels: {} });
+            await node.run(shared);
+
+            assert.deepStrictEqual(
+                shared.files.map(file => file.path),
+                ["src/index.ts"],
+                `${crawlMode} crawl`,
+            );
+        }
+    });
+});
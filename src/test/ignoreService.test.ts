@@ -0,0 +1,121 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { IgnoreStack } from "../services/file/ignoreService";
+
+/**
+ * Write files below a directory, creating their directories
+ */
+async function writeFiles(rootDir: string, files: Record<string, string>): Promise<void> {
+    for (const [relPath, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(rootDir, relPath)), { recursive: true });
+        await fs.writeFile(path.join(rootDir, relPath), content);
+    }
+}
+
+/**
+ * Load the ignore stack of a crawl root and descend into directories the way the crawl does
+ */
+async function stackFor(rootDir: string, dirs: string[] = []): Promise<IgnoreStack> {
+    let stack = await IgnoreStack.forRoot(rootDir);
+    for (const dir of dirs) {
+        stack = await stack.enter(path.join(rootDir, dir), dir);
+    }
+    return stack;
+}
+
+suite("Ignore files", () => {
+    let repoDir: string;
+
+    setup(async () => {
+        repoDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-ignore-"));
+        await fs.mkdir(path.join(repoDir, ".git", "info"), { recursive: true });
+    });
+
+    teardown(async () => {
+        await fs.rm(repoDir, { recursive: true, force: true });
+    });
+
+    test("root rules match files and directories", async () => {
+        await writeFiles(repoDir, { ".gitignore": "*.log\nbuild/\n/config.local.json\n" });
+        const stack = await stackFor(repoDir);
+
+        assert.strictEqual(stack.isPathIgnored("debug.log"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("src/deep/trace.log"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("build/main.js"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("config.local.json"), "gitignore");
+        // Anchored to the directory of the ignore file
+        assert.strictEqual(stack.isPathIgnored("src/config.local.json"), null);
+        // "build/" only matches directories
+        assert.strictEqual(stack.ignoredBy("build", false), null);
+        assert.strictEqual(stack.isPathIgnored("src/index.ts"), null);
+    });
+
+    test("a negation in a nested file re-includes a path ignored above it", async () => {
+        await writeFiles(repoDir, {
+            ".gitignore": "*.generated.ts\n",
+            "src/.gitignore": "!api.generated.ts\n",
+        });
+        const stack = await stackFor(repoDir, ["src"]);
+
+        assert.strictEqual(stack.isPathIgnored("src/api.generated.ts"), null);
+        assert.strictEqual(stack.isPathIgnored("src/db.generated.ts"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("lib/api.generated.ts"), "gitignore");
+    });
+
+    test("nested rules only apply below their directory", async () => {
+        await writeFiles(repoDir, { "docs/.gitignore": "*.md\n" });
+        const stack = await stackFor(repoDir, ["docs"]);
+
+        assert.strictEqual(stack.isPathIgnored("docs/guide.md"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("README.md"), null);
+        assert.strictEqual(stack.isPathIgnored("docsite/index.md"), null);
+    });
+
+    test("a file in an ignored directory can't be re-included", async () => {
+        await writeFiles(repoDir, { ".gitignore": "vendor/\n!vendor/keep.ts\n" });
+        const stack = await stackFor(repoDir);
+
+        assert.strictEqual(stack.isPathIgnored("vendor/keep.ts"), "gitignore");
+    });
+
+    test(".agenticwikiignore overrides the .gitignore of its directory", async () => {
+        await writeFiles(repoDir, {
+            ".gitignore": "!fixtures.ts\n",
+            ".agenticwikiignore": "fixtures.ts\nscripts/\n",
+        });
+        const stack = await stackFor(repoDir);
+
+        assert.strictEqual(stack.isPathIgnored("fixtures.ts"), "agenticwikiignore");
+        assert.strictEqual(stack.isPathIgnored("scripts/release.sh"), "agenticwikiignore");
+    });
+
+    test("a crawl of a subdirectory applies the ignore files of the repository above it", async () => {
+        await writeFiles(repoDir, {
+            ".git/info/exclude": "notes.txt\n",
+            ".gitignore": "*.log\npackages/web/dist/\n",
+            "packages/.gitignore": "coverage/\n",
+            "packages/web/.gitignore": "!keep.log\n",
+        });
+        const stack = await stackFor(path.join(repoDir, "packages", "web"));
+
+        assert.strictEqual(stack.isPathIgnored("debug.log"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("keep.log"), null);
+        assert.strictEqual(stack.isPathIgnored("dist/index.js"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("coverage/lcov.info"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("src/notes.txt"), "gitignore");
+        assert.strictEqual(stack.isPathIgnored("src/index.ts"), null);
+    });
+
+    test("ignore files listed by git apply below their directory", () => {
+        const stack = IgnoreStack.fromProjectIgnoreFiles([
+            { path: "packages/api/.agenticwikiignore", content: "!schema.sql\n" },
+            { path: ".agenticwikiignore", content: "*.sql\n" },
+        ]);
+
+        assert.strictEqual(stack.isPathIgnored("db/seed.sql"), "agenticwikiignore");
+        assert.strictEqual(stack.isPathIgnored("packages/api/schema.sql"), null);
+        assert.strictEqual(stack.isPathIgnored("packages/web/schema.sql"), "agenticwikiignore");
+    });
+});
@@ -0,0 +1,122 @@
+import * as assert from "assert";
+import { buildImportGraph, findImportPath, ImportGraph } from "../services/analysis";
+import { FileInfo } from "../types";
+
+/**
+ * Build the import graph of files given as path to content
+ */
+function graphOf(files: Record<string, string>): { graph: ImportGraph; paths: string[] } {
+    const fileInfos: FileInfo[] = Object.entries(files).map(([path, content]) => ({ path, content }));
+    return { graph: buildImportGraph(fileInfos), paths: fileInfos.map(file => file.path) };
+}
+
+/**
+ * Get the imports of a file as paths
+ */
+function importsOf({ graph, paths }: ReturnType<typeof graphOf>, filePath: string): string[] {
+    return graph.imports[paths.indexOf(filePath)].map(i => paths[i]);
+}
+
+suite("Import graph", () => {
+    test("TypeScript imports resolve relative paths, index modules and compiled .js names", () => {
+        const project = graphOf({
+            "src/main.ts": [
+                'import { run } from "./app";',
+                'import type { Config } from "./config/index";',
+                'export * from "./utils.js";',
+                'const lazy = () => import("./lazy");',
+                'import React from "react";',
+            ].join("\n"),
+            "src/app.tsx": 'const helpers = require("../lib/helpers");',
+            "src/config/index.ts": "",
+            "src/utils.ts": "",
+            "src/lazy.ts": "",
+            "lib/helpers.js": "",
+        });
+
+        assert.deepStrictEqual(importsOf(project, "src/main.ts"), [
+            "src/app.tsx",
+            "src/config/index.ts",
+            "src/utils.ts",
+            "src/lazy.ts",
+        ]);
+        assert.deepStrictEqual(importsOf(project, "src/app.tsx"), ["lib/helpers.js"]);
+    });
+
+    test("path aliases resolve to a unique file", () => {
+        const project = graphOf({
+            "src/app.ts": 'import { a } from "@/shared/format";\nimport { b } from "@/shared/parse";',
+            "src/shared/format.ts": "",
+            "src/shared/parse.ts": "",
+            "tests/shared/parse.ts": "",
+        });
+        // shared/parse is ambiguous, so it is left out rather than guessed
+        assert.deepStrictEqual(importsOf(project, "src/app.ts"), ["src/shared/format.ts"]);
+    });
+
+    test("Python imports resolve absolute, relative and package imports", () => {
+        const project = graphOf({
+            "app/main.py": "from app.models import user\nfrom . import db\nimport app.services.mail as mail",
+            "app/models/user.py": "from ..db import connect",
+            "app/cli.py": "from app.services import (\n    mail,\n)\nfrom .models import user  # noqa",
+            "app/db.py": "",
+            "app/services/mail.py": "",
+            "app/services/__init__.py": "",
+        });
+
+        assert.deepStrictEqual(importsOf(project, "app/main.py"), [
+            "app/models/user.py",
+            "app/db.py",
+            "app/services/mail.py",
+        ]);
+        assert.deepStrictEqual(importsOf(project, "app/models/user.py"), ["app/db.py"]);
+        assert.deepStrictEqual(importsOf(project, "app/cli.py"), ["app/models/user.py", "app/services/mail.py"]);
+    });
+
+    test("Go and Java imports resolve to every file of the imported package or to the class", () => {
+        const project = graphOf({
+            "cmd/server/main.go": 'import (\n\t"fmt"\n\t"example.com/shop/internal/store"\n)',
+            "internal/store/orders.go": "",
+            "internal/store/users.go": "",
+            "src/main/java/com/shop/App.java":
+                "import com.shop.store.Orders;\nimport com.shop.util.*;\nimport java.util.List;",
+            "src/main/java/com/shop/store/Orders.java": "",
+            "src/main/java/com/shop/util/Dates.java": "",
+        });
+
+        assert.deepStrictEqual(importsOf(project, "cmd/server/main.go"), [
+            "internal/store/orders.go",
+            "internal/store/users.go",
+        ]);
+        assert.deepStrictEqual(importsOf(project, "src/main/java/com/shop/App.java"), [
+            "src/main/java/com/shop/store/Orders.java",
+            "src/main/java/com/shop/util/Dates.java",
+        ]);
+    });
+
+    test("imports only resolve to files of the importer's language", () => {
+        const project = graphOf({
+            "web/app.ts": 'import "./api";',
+            "web/api.py": "",
+            "README.md": 'import "./web/app";',
+        });
+        assert.deepStrictEqual(importsOf(project, "web/app.ts"), []);
+        assert.deepStrictEqual(project.graph.analyzed, [true, true, false]);
+    });
+
+    test("findImportPath returns the shortest chain of imports", () => {
+        // 0 -> 1 -> 2 -> 4, 0 -> 3 -> 4
+        const graph: ImportGraph = { imports: [[1, 3], [2], [4], [4], []], analyzed: Array(5).fill(true) };
+
+        assert.deepStrictEqual(findImportPath(graph, [0], [4]), [0, 3, 4]);
+        assert.deepStrictEqual(findImportPath(graph, [1], [4, 2]), [1, 2]);
+        assert.strictEqual(findImportPath(graph, [4], [0]), undefined);
+    });
+
+    test("findImportPath does not count a file in both sets as a chain", () => {
+        const graph: ImportGraph = { imports: [[1], [], []], analyzed: [true, true, true] };
+
+        assert.strictEqual(findImportPath(graph, [0, 2], [2]), undefined);
+        assert.deepStrictEqual(findImportPath(graph, [0, 2], [1, 2]), [0, 1]);
+    });
+});
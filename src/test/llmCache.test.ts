@@ -0,0 +1,220 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DEFAULT_CONFIG } from "../constants";
+import {
+    CacheStore,
+    configureCache,
+    createCacheKey,
+    getCacheEntry,
+    initializeCachePath,
+    pruneCache,
+    setCacheEntry,
+} from "../services/cache";
+import { withFileLock } from "../utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extension context whose global storage is the given directory, the only part the cache uses
+ */
+function storageContext(storageDir: string): vscode.ExtensionContext {
+    return { globalStorageUri: { fsPath: storageDir } } as unknown as vscode.ExtensionContext;
+}
+
+suite("LLM cache", () => {
+    let storageDir: string;
+    let store: CacheStore;
+
+    setup(async () => {
+        storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-cache-"));
+        store = await initializeCachePath(storageContext(storageDir));
+    });
+
+    teardown(async () => {
+        configureCache({ maxSizeMb: DEFAULT_CONFIG.cacheMaxSizeMb, ttlDays: DEFAULT_CONFIG.cacheTtlDays });
+        await fs.rm(storageDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Path of the file an entry is stored in
+     */
+    function entryPath(prompt: string): string {
+        const key = createCacheKey({ provider: "openai", model: "gpt-4o", prompt });
+        return path.join(store.dir, key.slice(0, 2), `${key}.json`);
+    }
+
+    test("the key depends on provider, model, prompt and parameters", () => {
+        const input = { provider: "openai", model: "gpt-4o", prompt: "Explain the parser", params: { temperature: 0 } };
+        const key = createCacheKey(input);
+        assert.match(key, /^[0-9a-f]{64}$/);
+        assert.strictEqual(createCacheKey({ ...input }), key);
+
+        assert.notStrictEqual(createCacheKey({ ...input, provider: "openrouter" }), key);
+        assert.notStrictEqual(createCacheKey({ ...input, model: "gpt-4o-mini" }), key);
+        assert.notStrictEqual(createCacheKey({ ...input, prompt: "Explain the parser." }), key);
+        assert.notStrictEqual(createCacheKey({ ...input, params: { temperature: 1 } }), key);
+    });
+
+    test("the key ignores the order of parameters", () => {
+        const input = { provider: "openai", model: "gpt-4o", prompt: "p" };
+        assert.strictEqual(
+            createCacheKey({ ...input, params: { temperature: 0, options: { top_p: 1, seed: 7 } } }),
+            createCacheKey({ ...input, params: { options: { seed: 7, top_p: 1 }, temperature: 0 } }),
+        );
+    });
+
+    test("switching models does not return the other model's answer", async () => {
+        const request = { provider: "openai", model: "gpt-4o", prompt: "Summarize the project" };
+        await setCacheEntry(store, request, "Answer of gpt-4o");
+
+        assert.strictEqual((await getCacheEntry(store, request))?.response, "Answer of gpt-4o");
+        assert.strictEqual(await getCacheEntry(store, { ...request, model: "claude-sonnet-4" }), null);
+    });
+
+    test("an answer of the prompt-keyed cache is claimed by the first model asking for it", async () => {
+        // A storage directory the cache wasn't initialized in yet, migration runs once per directory
+        const legacyStorageDir = path.join(storageDir, "legacy");
+        await fs.mkdir(legacyStorageDir);
+        await fs.writeFile(
+            path.join(legacyStorageDir, "agentic-wiki.llm_cache.json"),
+            JSON.stringify({ "Summarize the project": "Old answer" }),
+        );
+        const migrated = await initializeCachePath(storageContext(legacyStorageDir));
+        const request = { provider: "openai", model: "gpt-4o", prompt: "Summarize the project" };
+
+        const claimed = await getCacheEntry(migrated, request);
+        assert.strictEqual(claimed?.response, "Old answer");
+        assert.strictEqual(claimed?.model, "gpt-4o");
+        // Stored under the claiming request from then on, so another model asks the LLM again
+        assert.strictEqual(await getCacheEntry(migrated, { ...request, model: "gpt-4o-mini" }), null);
+        assert.strictEqual((await getCacheEntry(migrated, request))?.response, "Old answer");
+    });
+
+    test("a single-file cache of the previous version is moved into entry files", async () => {
+        const legacyStorageDir = path.join(storageDir, "legacy");
+        await fs.mkdir(legacyStorageDir);
+        const request = { provider: "openai", model: "gpt-4o", prompt: "Summarize the project" };
+        const legacyFile = path.join(legacyStorageDir, "agentic-wiki.llm_cache.json");
+        await fs.writeFile(
+            legacyFile,
+            JSON.stringify({
+                version: 2,
+                entries: {
+                    [createCacheKey(request)]: { response: "Stored answer", createdAt: new Date().toISOString() },
+                },
+            }),
+        );
+
+        const migrated = await initializeCachePath(storageContext(legacyStorageDir));
+        assert.strictEqual((await getCacheEntry(migrated, request))?.response, "Stored answer");
+        await assert.rejects(fs.stat(legacyFile), { code: "ENOENT" });
+    });
+
+    test("pruning drops entries unused for longer than the TTL, then the least recently used", async () => {
+        for (const prompt of ["stale", "older", "recent"]) {
+            await setCacheEntry(store, { provider: "openai", model: "gpt-4o", prompt }, `Answer to ${prompt}`);
+        }
+        const lastUse = { stale: Date.now() - 40 * DAY_MS, older: Date.now() - 2 * DAY_MS, recent: Date.now() };
+        for (const [prompt, time] of Object.entries(lastUse)) {
+            await fs.utimes(entryPath(prompt), new Date(time), new Date(time));
+        }
+        // Room for the most recently used entry only
+        const { size } = await fs.stat(entryPath("recent"));
+        configureCache({ maxSizeMb: (size + 10) / 1024 / 1024, ttlDays: 30 });
+
+        const result = await pruneCache(store);
+        assert.deepStrictEqual(result, { expired: 1, evicted: 1, remainingEntries: 1, remainingBytes: size });
+        await assert.rejects(fs.stat(entryPath("stale")), { code: "ENOENT" });
+        await assert.rejects(fs.stat(entryPath("older")), { code: "ENOENT" });
+        await fs.stat(entryPath("recent"));
+    });
+
+    test("a cache hit counts as a use for eviction", async () => {
+        const request = { provider: "openai", model: "gpt-4o", prompt: "kept" };
+        await setCacheEntry(store, request, "Answer");
+        const monthAgo = new Date(Date.now() - 29 * DAY_MS);
+        await fs.utimes(entryPath("kept"), monthAgo, monthAgo);
+
+        await getCacheEntry(store, request);
+        const { mtimeMs } = await fs.stat(entryPath("kept"));
+        assert.ok(Date.now() - mtimeMs < DAY_MS, "reading the entry should mark it as recently used");
+    });
+
+    test("a cache in the workspace is never expired or evicted", async () => {
+        const workspaceStore = await initializeCachePath(
+            storageContext(storageDir),
+            path.join(storageDir, "workspace", ".cache"),
+        );
+        const request = { provider: "openai", model: "gpt-4o", prompt: "committed" };
+        await setCacheEntry(workspaceStore, request, "Committed answer", { workspace: "/home/me/project" });
+        const key = createCacheKey(request);
+        const committedPath = path.join(workspaceStore.dir, key.slice(0, 2), `${key}.json`);
+        const yearAgo = new Date(Date.now() - 365 * DAY_MS);
+        await fs.utimes(committedPath, yearAgo, yearAgo);
+        configureCache({ maxSizeMb: 1 / 1024 / 1024, ttlDays: 1 });
+
+        const result = await pruneCache(workspaceStore);
+        assert.strictEqual(result.expired + result.evicted, 0);
+        const entry = JSON.parse(await fs.readFile(committedPath, "utf-8"));
+        assert.strictEqual(entry.prompt, undefined, "shared entries leave out the prompt");
+        assert.strictEqual(entry.workspace, undefined, "shared entries leave out local paths");
+        assert.strictEqual((await getCacheEntry(workspaceStore, request))?.response, "Committed answer");
+    });
+});
+
+suite("File lock", () => {
+    let lockDir: string;
+    let lockPath: string;
+
+    setup(async () => {
+        lockDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-lock-"));
+        lockPath = path.join(lockDir, ".lock");
+    });
+
+    teardown(async () => {
+        await fs.rm(lockDir, { recursive: true, force: true });
+    });
+
+    test("holders of the same lock run one after the other", async () => {
+        const events: string[] = [];
+        const hold = (name: string) =>
+            withFileLock(lockPath, async () => {
+                events.push(`${name} start`);
+                await new Promise(resolve => setTimeout(resolve, 30));
+                events.push(`${name} end`);
+            });
+
+        await Promise.all([hold("a"), hold("b")]);
+        assert.deepStrictEqual(events, ["a start", "a end", "b start", "b end"]);
+        await assert.rejects(fs.stat(lockPath), { code: "ENOENT" });
+    });
+
+    test("the lock is released when the function throws", async () => {
+        await assert.rejects(
+            withFileLock(lockPath, async () => {
+                throw new Error("failed while locked");
+            }),
+            /failed while locked/,
+        );
+        assert.strictEqual(await withFileLock(lockPath, async () => "locked again"), "locked again");
+    });
+
+    test("a lock left behind by a crashed process is taken over", async () => {
+        await fs.writeFile(lockPath, "{}");
+        const old = new Date(Date.now() - 120_000);
+        await fs.utimes(lockPath, old, old);
+
+        assert.strictEqual(await withFileLock(lockPath, async () => "taken over", { staleMs: 60_000 }), "taken over");
+    });
+
+    test("waiting for a held lock times out", async () => {
+        await fs.writeFile(lockPath, "{}");
+        await assert.rejects(
+            withFileLock(lockPath, async () => "never", { timeoutMs: 100 }),
+            /Timed out waiting for lock/,
+        );
+    });
+});
@@ -0,0 +1,199 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_CONFIG } from "../constants";
+import { createFlow } from "../flow";
+import { callLlm, LlmOptions, MissingFixtureError, resolveFixturesDir } from "../services/llm";
+import { SharedStore } from "../types";
+
+const MODEL = "scripted-model";
+
+/**
+ * Scripted answer for each kind of prompt the flow sends
+ */
+function answerPrompt(prompt: string): string {
+    if (prompt.includes("Format the output as a YAML list of dictionaries")) {
+        return [
+            "<think>Two files, two abstractions.</think>",
+            "```yml",
+            "- name: Greeter",
+            "  description: Builds greetings.",
+            "  file_indices:",
+            "    - 0 # greeter.ts",
+            "- name: Entry Point",
+            "  description: Starts the program.",
+            "  file_indices:",
+            "    - 1 # main.ts",
+            "```",
+        ].join("\n");
+    }
+    if (prompt.includes("from_abstraction")) {
+        return [
+            "```yaml",
+            "summary: A tiny program that prints a greeting.",
+            "relationships:",
+            "  - from_abstraction: 1 # Entry Point",
+            "    to_abstraction: 0 # Greeter",
+            '    label: "Uses"',
+            "```",
+        ].join("\n");
+    }
+    if (prompt.includes("best order to explain")) {
+        return "- 1 # Entry Point\n- 0 # Greeter";
+    }
+    return "# Chapter\n\nA scripted chapter.";
+}
+
+/**
+ * Start a local server speaking the OpenAI chat completions API with scripted answers
+ * @returns Base URL, the prompts received and a function stopping the server
+ */
+async function startScriptedServer(): Promise<{ baseUrl: string; prompts: string[]; close: () => Promise<void> }> {
+    const prompts: string[] = [];
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => {
+            const prompt: string = JSON.parse(body).messages[0].content;
+            prompts.push(prompt);
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(
+                JSON.stringify({
+                    id: `chatcmpl-${prompts.length}`,
+                    object: "chat.completion",
+                    created: 0,
+                    model: MODEL,
+                    choices: [
+                        {
+                            index: 0,
+                            message: { role: "assistant", content: answerPrompt(prompt) },
+                            finish_reason: "stop",
+                        },
+                    ],
+                    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+                }),
+            );
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        prompts,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
+
+suite("LLM record/replay", () => {
+    let workDir: string;
+
+    setup(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-replay-"));
+    });
+
+    teardown(async () => {
+        await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Options for a direct callLlm call against the given endpoint
+     */
+    function llmOptions(mode: LlmOptions["mode"], baseUrl = "http://127.0.0.1:9/v1"): LlmOptions {
+        return {
+            mode,
+            fixturesDir: path.join(workDir, "fixtures"),
+            provider: "openai-compatible",
+            baseUrl,
+            model: MODEL,
+            llmApiKey: "test-key",
+            useCache: false,
+            maxRetries: 0,
+        };
+    }
+
+    test("fixtures are kept out of the project root when no directory is set", () => {
+        const defaultDir = path.join(workDir, ".agentic-wiki", "fixtures");
+        assert.strictEqual(resolveFixturesDir({ localDir: workDir, llmFixturesDir: "" }), defaultDir);
+        assert.strictEqual(resolveFixturesDir({ localDir: workDir, llmFixturesDir: "  " }), defaultDir);
+        assert.strictEqual(
+            resolveFixturesDir({ localDir: workDir, llmFixturesDir: " test/fixtures " }),
+            path.join(workDir, "test", "fixtures"),
+        );
+        assert.strictEqual(resolveFixturesDir({ localDir: workDir, llmFixturesDir: os.tmpdir() }), os.tmpdir());
+    });
+
+    test("replay fails on a prompt that was not recorded", async () => {
+        await assert.rejects(callLlm("Unknown prompt", llmOptions("replay")), MissingFixtureError);
+    });
+
+    test("replay returns the recorded response without a server", async function () {
+        this.timeout(10_000);
+        const server = await startScriptedServer();
+        let recorded: string;
+        try {
+            recorded = await callLlm("Order these: best order to explain", llmOptions("record", server.baseUrl));
+        } finally {
+            await server.close();
+        }
+
+        const replayed = await callLlm("Order these: best order to explain", llmOptions("replay"));
+        assert.strictEqual(replayed, recorded);
+        // A changed prompt must not be served a stale answer
+        await assert.rejects(callLlm("Order these: best order to explain!", llmOptions("replay")), MissingFixtureError);
+    });
+
+    test("the full pipeline replays offline", async function () {
+        this.timeout(30_000);
+        const projectDir = path.join(workDir, "hello");
+        await fs.mkdir(projectDir);
+        await fs.writeFile(
+            path.join(projectDir, "greeter.ts"),
+            "export const greet = (name: string) => `Hi ${name}`;\n",
+        );
+        await fs.writeFile(
+            path.join(projectDir, "main.ts"),
+            'import { greet } from "./greeter";\nconsole.log(greet("you"));\n',
+        );
+
+        const fixturesDir = path.join(workDir, "fixtures");
+        const runFlow = async (mode: "record" | "replay", baseUrl: string, outputDir: string) => {
+            const shared: SharedStore = {
+                ...DEFAULT_CONFIG,
+                llmApiKey: "test-key",
+                llmModel: MODEL,
+                llmProvider: "openai-compatible",
+                llmProviders: { ...DEFAULT_CONFIG.llmProviders, "openai-compatible": { baseUrl } },
+                llmMode: mode,
+                llmFixturesDir: fixturesDir,
+                localDir: projectDir,
+                outputDir,
+                useCache: false,
+                nodeMaxRetries: 1,
+                nodeRetryWait: 0,
+                maxAbstractionNum: 2,
+            } as SharedStore;
+            const flow = createFlow(shared);
+            flow.setParams({ ...shared, llmModels: {} });
+            await flow.run(shared);
+            return fs.readFile(path.join(outputDir, "hello", "index.md"), "utf-8");
+        };
+
+        const server = await startScriptedServer();
+        let recordedIndex: string;
+        try {
+            recordedIndex = await runFlow("record", server.baseUrl, path.join(workDir, "recorded"));
+        } finally {
+            await server.close();
+        }
+        assert.ok(server.prompts.length >= 3, "every LLM stage should have been called");
+
+        // The server is gone, so this only passes if every prompt is answered from the fixtures
+        const replayedIndex = await runFlow("replay", server.baseUrl, path.join(workDir, "replayed"));
+        assert.strictEqual(replayedIndex, recordedIndex);
+        assert.ok(replayedIndex.includes("Greeter"));
+    });
+});
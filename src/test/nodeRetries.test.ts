@@ -0,0 +1,135 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DEFAULT_CONFIG } from "../constants";
+import OrderChaptersNode from "../nodes/orderChaptersNode";
+import { LlmRetriesExhaustedError } from "../services/llm";
+import { SharedStore } from "../types";
+
+const MODEL = "scripted-model";
+const CHAPTER_ORDER = "```yaml\n- 1 # Entry Point\n- 0 # Greeter\n```";
+
+/**
+ * Start a local server speaking the OpenAI chat completions API
+ * @param respond Status and answer for the nth request, counted from 1
+ * @returns Base URL, the number of requests received and a function stopping the server
+ */
+async function startServer(
+    respond: (requestNum: number) => { status: number; content?: string },
+): Promise<{ baseUrl: string; requests: () => number; close: () => Promise<void> }> {
+    let requests = 0;
+    const server = http.createServer((req, res) => {
+        req.resume();
+        req.on("end", () => {
+            const { status, content } = respond(++requests);
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(
+                JSON.stringify(
+                    status === 200
+                        ? {
+                              id: `chatcmpl-${requests}`,
+                              object: "chat.completion",
+                              created: 0,
+                              model: MODEL,
+                              choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+                              usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+                          }
+                        : { error: { message: "Service unavailable" } },
+                ),
+            );
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        requests: () => requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
+
+/**
+ * Shared store of a project with two abstractions, ready for the chapter order node
+ */
+function orderChaptersStore(baseUrl: string): SharedStore {
+    return {
+        ...DEFAULT_CONFIG,
+        llmApiKey: "test-key",
+        llmModel: MODEL,
+        llmProvider: "openai-compatible",
+        llmProviders: { ...DEFAULT_CONFIG.llmProviders, "openai-compatible": { baseUrl } },
+        llmMaxRetries: 2,
+        llmRetryBaseDelayMs: 1,
+        maxRepairAttempts: 0,
+        useCache: false,
+        projectName: "hello",
+        abstractions: [
+            { name: "Greeter", description: "Builds greetings.", files: [0] },
+            { name: "Entry Point", description: "Starts the program.", files: [1] },
+        ],
+        relationships: { summary: "A tiny program.", details: [{ from: 1, to: 0, label: "Uses" }] },
+    } as SharedStore;
+}
+
+suite("Node retries", () => {
+    test("a transient failure that outlasts the LLM retries doesn't re-run the node", async () => {
+        const server = await startServer(() => ({ status: 503 }));
+        try {
+            const shared = orderChaptersStore(server.baseUrl);
+            const node = new OrderChaptersNode(3, 0);
+            node.setParams({ ...shared, llmModels: {} });
+
+            await assert.rejects(node.run(shared), LlmRetriesExhaustedError);
+            // The first attempt and the two retries of callLlm, no node retries on top
+            assert.strictEqual(server.requests(), 3);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test("an invalid answer re-runs the node", async () => {
+        const server = await startServer(requestNum => ({
+            status: 200,
+            content: requestNum === 1 ? "I'd start with the greeter." : CHAPTER_ORDER,
+        }));
+        try {
+            const shared = orderChaptersStore(server.baseUrl);
+            const node = new OrderChaptersNode(3, 0);
+            node.setParams({ ...shared, llmModels: {} });
+
+            await node.run(shared);
+            assert.deepStrictEqual(shared.chapterOrder, [1, 0]);
+            assert.strictEqual(server.requests(), 2);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test("an answer from a re-run replaces the unusable cached answer", async () => {
+        const storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-retry-cache-"));
+        const server = await startServer(requestNum => ({
+            status: 200,
+            content: requestNum === 1 ? "I'd start with the greeter." : CHAPTER_ORDER,
+        }));
+        try {
+            const context = { globalStorageUri: { fsPath: storageDir } } as unknown as vscode.ExtensionContext;
+            for (let run = 0; run < 2; run++) {
+                const shared = { ...orderChaptersStore(server.baseUrl), useCache: true };
+                const node = new OrderChaptersNode(3, 0);
+                node.setParams({ ...shared, llmModels: {}, context });
+                await node.run(shared);
+                assert.deepStrictEqual(shared.chapterOrder, [1, 0]);
+            }
+            // The second run is answered from the cache, not by the invalid first answer and a retry
+            assert.strictEqual(server.requests(), 2);
+        } finally {
+            await server.close();
+            await fs.rm(storageDir, { recursive: true, force: true });
+        }
+    });
+});
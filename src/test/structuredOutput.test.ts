@@ -0,0 +1,135 @@
+import * as assert from "assert";
+import {
+    abstractionMergeSchema,
+    abstractionsSchema,
+    buildRepairPrompt,
+    chapterOrderSchema,
+    extractYaml,
+    parseYamlResponse,
+    relationshipsSchema,
+    StructuredOutputError,
+} from "../services/llm";
+import { estimateTokens } from "../utils/tokenUtils";
+
+/**
+ * Run a validator and return the problems it reported
+ */
+function validationErrors(validate: () => unknown): string[] {
+    try {
+        validate();
+    } catch (error) {
+        assert.ok(error instanceof StructuredOutputError, `expected a StructuredOutputError, got ${error}`);
+        return error.errors;
+    }
+    assert.fail("the data should have been rejected");
+}
+
+suite("Structured LLM output", () => {
+    test("extractYaml finds the YAML in the shapes models answer with", () => {
+        assert.strictEqual(extractYaml("Here you go:\n```yaml\n- 1\n- 0\n```\nDone."), "- 1\n- 0");
+        assert.strictEqual(extractYaml("```yml\nkey: value\n```"), "key: value");
+        assert.strictEqual(extractYaml("```\nkey: value\n```"), "key: value");
+        // An answer cut off before the closing fence
+        assert.strictEqual(extractYaml("```yaml\n- name: A\n  description: B"), "- name: A\n  description: B");
+        assert.strictEqual(extractYaml("  key: value  "), "key: value");
+        assert.strictEqual(extractYaml("<think>```yaml\nwrong: 1\n```</think>\n```yaml\nright: 1\n```"), "right: 1");
+    });
+
+    test("parseYamlResponse reports missing and broken YAML as structured output errors", () => {
+        assert.deepStrictEqual(parseYamlResponse("```yaml\n- 2\n- 1\n```"), [2, 1]);
+        assert.deepStrictEqual(
+            validationErrors(() => parseYamlResponse("<think>hmm</think>")),
+            ["The response contains no YAML"],
+        );
+        const [error] = validationErrors(() => parseYamlResponse("```yaml\nkey: [unclosed\n```"));
+        assert.ok(error.startsWith("YAML parsing failed"), error);
+    });
+
+    test("abstractionsSchema normalizes file indices and lists every problem", () => {
+        const validate = abstractionsSchema(3);
+        assert.deepStrictEqual(
+            validate([{ name: " Parser ", description: "Parses.", file_indices: ["2 # b.ts", 0, 2] }]),
+            [{ name: "Parser", description: "Parses.", files: [0, 2] }],
+        );
+
+        const errors = validationErrors(() =>
+            validate([
+                { name: "", description: "No name.", file_indices: [0] },
+                { name: "Out of range", description: "Bad index.", file_indices: [3, "x"] },
+                "Lexer: splits the input",
+            ]),
+        );
+        assert.deepStrictEqual(errors, [
+            "Abstraction 1: `name` must be a non-empty string",
+            "Abstraction 2 file_indices: index 3 is out of range, valid indices are 0 to 2",
+            'Abstraction 2 file_indices: cannot parse an index from "x"',
+            "Abstraction 3: expected a mapping with name, description and file_indices",
+        ]);
+    });
+
+    test("abstractionsSchema rejects files the prompt did not show", () => {
+        const errors = validationErrors(() =>
+            abstractionsSchema(5, new Set([0, 1]))([{ name: "A", description: "B", file_indices: [1, 4] }]),
+        );
+        assert.deepStrictEqual(errors, ["Abstraction 1 file_indices: file 4 is not one of the listed files"]);
+    });
+
+    test("abstractionMergeSchema requires candidates for every merged abstraction", () => {
+        const validate = abstractionMergeSchema(2);
+        assert.deepStrictEqual(validate([{ name: "A", description: "B", candidate_indices: [1, "0 # A"] }]), [
+            { name: "A", description: "B", candidates: [0, 1] },
+        ]);
+        assert.deepStrictEqual(
+            validationErrors(() => validate([{ name: "A", description: "B", candidate_indices: [] }])),
+            ["Abstraction 1: `candidate_indices` must be a non-empty list of candidate indices"],
+        );
+    });
+
+    test("relationshipsSchema checks the summary and both ends of every relationship", () => {
+        const validate = relationshipsSchema(2);
+        assert.deepStrictEqual(
+            validate({
+                summary: "A project.",
+                relationships: [{ from_abstraction: "1 # B", to_abstraction: 0, label: "Uses" }],
+            }),
+            { summary: "A project.", details: [{ from: 1, to: 0, label: "Uses" }] },
+        );
+        assert.deepStrictEqual(
+            validationErrors(() =>
+                validate({ summary: "", relationships: [{ from_abstraction: 2, to_abstraction: 0, label: 1 }] }),
+            ),
+            [
+                "`summary` must be a non-empty string",
+                "Relationship 1: `label` must be a string",
+                "Relationship 1 from_abstraction: index 2 is out of range, valid indices are 0 to 1",
+            ],
+        );
+    });
+
+    test("chapterOrderSchema requires every abstraction exactly once", () => {
+        const validate = chapterOrderSchema(3);
+        assert.deepStrictEqual(validate(["2 # C", 0, 1]), [2, 0, 1]);
+        assert.deepStrictEqual(
+            validationErrors(() => validate([0, 0])),
+            ["Entry 2: duplicate index 0", "Missing indices: 1, 2. Every abstraction must appear exactly once"],
+        );
+    });
+
+    test("buildRepairPrompt keeps the end of a long request within the budget", () => {
+        const prompt = `${"Source line.\n".repeat(2000)}Format the output as a YAML list.`;
+        const response = "not yaml ".repeat(2000);
+        const budget = 1000;
+        const repair = buildRepairPrompt(prompt, response, ["The response contains no YAML"], budget);
+
+        assert.ok(estimateTokens(repair) <= budget, `${estimateTokens(repair)} tokens exceed the budget`);
+        assert.ok(repair.startsWith("[... beginning of the request omitted ...]"));
+        assert.ok(repair.includes("Format the output as a YAML list."), "the output format must be kept");
+        assert.ok(repair.includes("- The response contains no YAML"));
+    });
+
+    test("buildRepairPrompt resends a request that fits unchanged", () => {
+        const repair = buildRepairPrompt("Order the chapters.", "oops", ["Missing indices: 1"], 1000);
+        assert.ok(repair.startsWith("Order the chapters.\n\n---\n"));
+        assert.ok(repair.includes("Previous answer:\noops"));
+    });
+});
@@ -0,0 +1,239 @@
+import * as assert from "assert";
+import { extractSymbolOutline, extractSymbolOutlines } from "../services/analysis";
+
+/**
+ * Outline a file given as lines
+ */
+function outline(filePath: string, lines: string[]): string {
+    return extractSymbolOutline({ path: filePath, content: lines.join("\n") });
+}
+
+suite("Symbol outlines", () => {
+    test("TypeScript keeps signatures, exported declarations and doc summaries, not bodies", () => {
+        const result = outline("src/cart.ts", [
+            'import { Item } from "./item";',
+            "",
+            "/**",
+            " * Sum the prices of the items. Taxes are not included.",
+            " * @param items Items in the cart",
+            " */",
+            "export function total(",
+            "    items: Item[],",
+            "    discount = 0,",
+            "): number {",
+            "    return items.reduce((sum, item) => sum + item.price, 0) - discount;",
+            "}",
+            "",
+            "export type Currency = 'EUR' | 'USD';",
+            "export enum Status { Open, Paid }",
+            "export const MAX_ITEMS = 50;",
+            "const helper = (value: number) => value * 2;",
+            "const internal = 3;",
+            "",
+            "export class Cart {",
+            "    private items: Item[] = [];",
+            "    #secret = 1;",
+            "    readonly currency: Currency = 'EUR';",
+            "    constructor(public owner: string) {}",
+            "    /** Add an item to the cart */",
+            "    add(item: Item): void {",
+            "        this.items.push(item);",
+            "    }",
+            "    get size(): number {",
+            "        return this.items.length;",
+            "    }",
+            "}",
+            "",
+            "export namespace Cart {",
+            "    export interface Options {",
+            "        strict: boolean;",
+            "    }",
+            "}",
+        ]);
+
+        assert.strictEqual(
+            result,
+            [
+                "/** Sum the prices of the items. */",
+                "export function total(items: Item[], discount = 0): number",
+                "export type Currency = 'EUR' | 'USD';",
+                "export enum Status { Open, Paid }",
+                "export const MAX_ITEMS = 50",
+                "const helper = (value: number) =>",
+                "export class Cart {",
+                "    readonly currency: Currency",
+                "    constructor(public owner: string)",
+                "    /** Add an item to the cart */",
+                "    add(item: Item): void",
+                "    get size(): number",
+                "}",
+                "export namespace Cart {",
+                "    export interface Options {",
+                "        strict: boolean",
+                "    }",
+                "}",
+            ].join("\n"),
+        );
+    });
+
+    test("Python keeps nested classes and methods with decorators and docstrings, not inner functions", () => {
+        const result = outline("shop/cart.py", [
+            '"""Shopping cart models."""',
+            "import dataclasses",
+            "",
+            "class Cart:",
+            '    """A cart of one customer.',
+            "",
+            "    Holds the items until checkout.",
+            '    """',
+            "",
+            "    class Item:",
+            "        def price(self) -> int:",
+            "            return 1",
+            "",
+            "    @property",
+            "    def total(self):",
+            "        def add(a, b):",
+            "            return a + b",
+            "        return 0",
+            "",
+            "    async def checkout(",
+            "        self,",
+            "        payment: str,  # card or cash",
+            "    ) -> bool:",
+            "        '''Pay for the items.'''",
+            "        return True",
+            "",
+            "def create_cart(): # factory",
+            "    return Cart()",
+        ]);
+
+        assert.strictEqual(
+            result,
+            [
+                '"""Shopping cart models."""',
+                "class Cart",
+                '    """A cart of one customer."""',
+                "    class Item",
+                "        def price(self) -> int",
+                "    @property",
+                "    def total(self)",
+                "    async def checkout(self, payment: str) -> bool",
+                '        """Pay for the items."""',
+                "def create_cart()",
+            ].join("\n"),
+        );
+    });
+
+    test("Go keeps functions, methods and type bodies with their doc comments", () => {
+        const result = outline("store/orders.go", [
+            "package store",
+            "",
+            'import "context"',
+            "",
+            "// Order is a placed order. It can't be changed.",
+            "type Order struct {",
+            "\tID    string",
+            "\t// Total in cents",
+            "\tTotal int",
+            "}",
+            "",
+            "type ID = string",
+            "",
+            "// Save stores an order",
+            "func (s *Store) Save(",
+            "\tctx context.Context,",
+            "\torder Order,",
+            ") error {",
+            "\treturn nil",
+            "}",
+            "",
+            "func helper() {}",
+        ]);
+
+        assert.strictEqual(
+            result,
+            [
+                "// Order is a placed order.",
+                "type Order struct {",
+                "\tID    string",
+                "\tTotal int",
+                "}",
+                "type ID = string",
+                "// Save stores an order",
+                "func (s *Store) Save(ctx context.Context, order Order) error",
+                "func helper() {}",
+            ].join("\n"),
+        );
+    });
+
+    test("Java keeps public and protected members of nested types, and every interface member", () => {
+        const result = outline("src/main/java/shop/Cart.java", [
+            "package shop;",
+            "",
+            "/** A shopping cart. */",
+            "public class Cart {",
+            "    private final List<Item> items = new ArrayList<>();",
+            "",
+            "    /**",
+            "     * Add an item.",
+            "     * @param item the item",
+            "     */",
+            "    @Override",
+            "    public void add(",
+            "            Item item,",
+            '            String note) throws CartException { // "{"',
+            "        if (item == null) {",
+            "            throw new CartException();",
+            "        }",
+            "        items.add(item);",
+            "    }",
+            "",
+            "    private int count() { return items.size(); }",
+            "",
+            "    protected static class Item {",
+            "        public int price() { return 1; }",
+            "    }",
+            "",
+            "    interface Listener {",
+            "        void changed(Cart cart);",
+            "    }",
+            "}",
+        ]);
+
+        assert.strictEqual(
+            result,
+            [
+                "/** A shopping cart. */",
+                "public class Cart",
+                "    /** Add an item. */",
+                "    public void add(Item item, String note) throws CartException",
+                "    protected static class Item",
+                "        public int price()",
+                "    interface Listener",
+                "        void changed(Cart cart)",
+            ].join("\n"),
+        );
+    });
+
+    test("Markdown keeps its headings, other files their declaration lines or first lines", () => {
+        assert.strictEqual(
+            outline("README.md", ["# Shop", "", "Text", "## Setup", "```sh", "# install first", "```", "### Run"]),
+            "# Shop\n## Setup\n### Run",
+        );
+        assert.strictEqual(
+            outline("lib/cart.rb", ["class Cart", "  def add(item)", "    items.push(item)", "  end", "end"]),
+            "class Cart\n  def add(item)",
+        );
+        const lines = Array.from({ length: 30 }, (_, i) => `key${i}=value`);
+        assert.strictEqual(outline("app.ini", lines), lines.slice(0, 20).join("\n"));
+    });
+
+    test("every file is outlined by index", () => {
+        const outlines = extractSymbolOutlines([
+            { path: "a.ts", content: "export const a = 1;" },
+            { path: "b.md", content: "# B" },
+        ]);
+        assert.deepStrictEqual(outlines, ["export const a = 1", "# B"]);
+    });
+});
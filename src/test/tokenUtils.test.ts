@@ -0,0 +1,127 @@
+import * as assert from "assert";
+import {
+    describePackingReport,
+    estimateTokens,
+    getContentBudget,
+    hasPackingCuts,
+    outlineContent,
+    packFiles,
+    truncateToTokens,
+} from "../utils/tokenUtils";
+
+// 100 tokens without a single declaration line, so it has no outline
+const PROSE = "word ".repeat(80);
+// A declaration line between long bodies, its outline is far smaller than the file
+const SOURCE = `export function greet(name: string) {\n${"    console.log(`Hello, ${name}!`);\n".repeat(40)}}\n`;
+
+suite("Token estimates", () => {
+    test("tokens are counted by characters, CJK characters one each", () => {
+        assert.strictEqual(estimateTokens(""), 0);
+        assert.strictEqual(estimateTokens("abcd"), 1);
+        assert.strictEqual(estimateTokens("abcde"), 2);
+        assert.strictEqual(estimateTokens("日本語"), 3);
+        assert.strictEqual(estimateTokens("日本語 text"), 5);
+    });
+
+    test("truncation keeps the beginning or the end within the budget", () => {
+        assert.strictEqual(truncateToTokens("short", 10), "short");
+
+        const text = "0123456789".repeat(40);
+        const head = truncateToTokens(text, 10);
+        const tail = truncateToTokens(text, 10, true);
+        assert.ok(estimateTokens(head) <= 10 && text.startsWith(head));
+        assert.ok(estimateTokens(tail) <= 10 && text.endsWith(tail));
+        assert.ok(estimateTokens(truncateToTokens("漢字".repeat(100), 10)) <= 10);
+    });
+
+    test("the answer reserve is capped at a quarter of the window and the budget never drops below 0", () => {
+        assert.strictEqual(getContentBudget(100_000, 2_000, 4_000), 94_000);
+        assert.strictEqual(getContentBudget(8_000, 1_000, 4_000), 5_000);
+        assert.strictEqual(getContentBudget(4_000, 5_000, 1_000), 0);
+    });
+});
+
+suite("File packing", () => {
+    const outlineTokens = estimateTokens(outlineContent(SOURCE));
+    const sourceTokens = estimateTokens(SOURCE);
+
+    test("files that fit are sent in full", () => {
+        const files = [
+            { index: 0, path: "a.md", content: PROSE },
+            { index: 1, path: "b.ts", content: SOURCE },
+        ];
+        const { files: packed, report } = packFiles(files, 100 + sourceTokens);
+
+        assert.deepStrictEqual(
+            packed.map(file => file.mode),
+            ["full", "full"],
+        );
+        assert.strictEqual(report.usedTokens, 100 + sourceTokens);
+        assert.strictEqual(hasPackingCuts(report), false);
+    });
+
+    test("a file one token over the budget is outlined, then truncated, then omitted", () => {
+        const file = { index: 0, path: "greet.ts", content: SOURCE };
+        assert.strictEqual(packFiles([file], sourceTokens).files[0].mode, "full");
+
+        const outlined = packFiles([file], sourceTokens - 1);
+        assert.strictEqual(outlined.files[0].mode, "outline");
+        assert.strictEqual(outlined.files[0].content, "export function greet(name: string) {");
+        assert.deepStrictEqual(outlined.report.outlined, ["greet.ts"]);
+        assert.strictEqual(outlined.report.usedTokens, outlineTokens);
+
+        // Without an outline, the beginning is sent if at least 200 tokens are left
+        const prose = { index: 0, path: "notes.md", content: PROSE.repeat(3) };
+        const truncated = packFiles([prose], 200);
+        assert.strictEqual(truncated.files[0].mode, "truncated");
+        assert.ok(prose.content.startsWith(truncated.files[0].content));
+        assert.ok(truncated.report.usedTokens <= 200);
+        assert.deepStrictEqual(truncated.report.truncated, ["notes.md"]);
+
+        const omitted = packFiles([prose], 199);
+        assert.deepStrictEqual(omitted.files, []);
+        assert.deepStrictEqual(omitted.report.omitted, ["notes.md"]);
+        assert.strictEqual(omitted.report.usedTokens, 0);
+    });
+
+    test("the budget goes to files in priority order, the result is in index order", () => {
+        // Listed by priority, which puts the last file of the project first
+        const files = [
+            { index: 2, path: "main.ts", content: SOURCE },
+            { index: 0, path: "readme.md", content: PROSE },
+            { index: 1, path: "util.ts", content: SOURCE },
+        ];
+        const { files: packed, report } = packFiles(files, sourceTokens + 100 + outlineTokens);
+
+        assert.deepStrictEqual(
+            packed.map(file => [file.index, file.mode]),
+            [
+                [0, "full"],
+                [1, "outline"],
+                [2, "full"],
+            ],
+        );
+        assert.deepStrictEqual(report.outlined, ["util.ts"]);
+        assert.strictEqual(report.usedTokens, report.budgetTokens);
+        assert.strictEqual(
+            describePackingReport("Identify", report),
+            `Identify: ${report.budgetTokens}/${report.budgetTokens} tokens of file content; 1 outlined (util.ts)`,
+        );
+    });
+
+    test("once the budget is used up, less important files are left out", () => {
+        const files = [
+            { index: 0, path: "main.ts", content: SOURCE },
+            { index: 1, path: "a.md", content: PROSE },
+            { index: 2, path: "b.md", content: PROSE },
+        ];
+        const { files: packed, report } = packFiles(files, sourceTokens + 150);
+
+        assert.deepStrictEqual(
+            packed.map(file => file.mode),
+            ["full", "full"],
+        );
+        assert.deepStrictEqual(report.omitted, ["b.md"]);
+        assert.ok(hasPackingCuts(report));
+    });
+});
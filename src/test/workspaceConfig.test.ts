@@ -0,0 +1,92 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { CONFIG_KEY, DEFAULT_CONFIG, FOLDER_CONFIGS_KEY } from "../constants";
+import { loadWorkspaceConfig, saveWorkspaceConfig } from "../services/config";
+import { GlobalConfig } from "../types";
+
+/**
+ * Extension context with an in-memory global state, the only part the configuration uses
+ */
+function memoryContext(initial: Record<string, unknown> = {}): {
+    context: vscode.ExtensionContext;
+    state: Map<string, unknown>;
+} {
+    const state = new Map(Object.entries(initial));
+    const globalState = {
+        get: (key: string) => state.get(key),
+        update: async (key: string, value: unknown) => {
+            state.set(key, value);
+        },
+    };
+    return { context: { globalState } as unknown as vscode.ExtensionContext, state };
+}
+
+/**
+ * Workspace folder at a path
+ */
+function folder(fsPath: string, index = 0): vscode.WorkspaceFolder {
+    const uri = vscode.Uri.file(fsPath);
+    return { uri, name: fsPath.split(/[\\/]/).pop() ?? fsPath, index };
+}
+
+suite("Workspace folder configuration", () => {
+    const api = folder("/work/api");
+    const web = folder("/work/web", 1);
+
+    test("a folder without settings of its own documents itself with the default project settings", () => {
+        const { context } = memoryContext({
+            [CONFIG_KEY]: { llmModel: "gpt-4o", language: "german", localDir: "/work/other", projectName: "Other" },
+        });
+        const config = loadWorkspaceConfig(context, api);
+
+        assert.strictEqual(config.localDir, api.uri.fsPath);
+        assert.strictEqual(config.projectName, DEFAULT_CONFIG.projectName);
+        assert.strictEqual(config.language, DEFAULT_CONFIG.language);
+        // Shared settings apply to every folder
+        assert.strictEqual(config.llmModel, "gpt-4o");
+    });
+
+    test("the project settings saved by earlier versions stay with the folder they were saved for", () => {
+        const { context } = memoryContext({
+            [CONFIG_KEY]: { localDir: api.uri.fsPath, projectName: "API", outputDir: "docs" },
+        });
+
+        assert.strictEqual(loadWorkspaceConfig(context, api).projectName, "API");
+        assert.strictEqual(loadWorkspaceConfig(context, api).outputDir, "docs");
+        assert.strictEqual(loadWorkspaceConfig(context, web).projectName, DEFAULT_CONFIG.projectName);
+    });
+
+    test("saving a folder's settings leaves the other folders alone and shares the rest", async () => {
+        const { context, state } = memoryContext();
+        await saveWorkspaceConfig(
+            context,
+            { ...loadWorkspaceConfig(context, api), projectName: "API", llmModel: "gpt-4o" } as GlobalConfig,
+            api,
+        );
+        await saveWorkspaceConfig(
+            context,
+            { ...loadWorkspaceConfig(context, web), projectName: "Web", monorepoMode: true } as GlobalConfig,
+            web,
+        );
+
+        const apiConfig = loadWorkspaceConfig(context, api);
+        const webConfig = loadWorkspaceConfig(context, web);
+        assert.strictEqual(apiConfig.projectName, "API");
+        assert.strictEqual(apiConfig.monorepoMode, false);
+        assert.strictEqual(webConfig.projectName, "Web");
+        assert.strictEqual(webConfig.monorepoMode, true);
+        assert.strictEqual(webConfig.llmModel, "gpt-4o", "settings that aren't per folder are shared");
+
+        const folderConfigs = state.get(FOLDER_CONFIGS_KEY) as Record<string, Partial<GlobalConfig>>;
+        assert.deepStrictEqual(Object.keys(folderConfigs).sort(), [api.uri.fsPath, web.uri.fsPath].sort());
+        assert.strictEqual((state.get(CONFIG_KEY) as Partial<GlobalConfig>).projectName, undefined);
+    });
+
+    test("without a folder every setting is shared", async () => {
+        const { context, state } = memoryContext();
+        await saveWorkspaceConfig(context, { ...DEFAULT_CONFIG, projectName: "Solo" });
+
+        assert.strictEqual(loadWorkspaceConfig(context).projectName, "Solo");
+        assert.strictEqual(state.get(FOLDER_CONFIGS_KEY), undefined);
+    });
+});
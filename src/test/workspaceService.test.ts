@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { detectWorkspacePackages, getNestedPackageExcludes } from "../services/workspace";
+
+/**
+ * Write files below a directory, creating their directories
+ */
+async function writeFiles(rootDir: string, files: Record<string, string>): Promise<void> {
+    for (const [relPath, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(rootDir, relPath)), { recursive: true });
+        await fs.writeFile(path.join(rootDir, relPath), content);
+    }
+}
+
+suite("Workspace package detection", () => {
+    let rootDir: string;
+
+    setup(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "agentic-wiki-workspace-"));
+    });
+
+    teardown(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    test("a directory without workspace manifests is not a monorepo", async () => {
+        await writeFiles(rootDir, { "package.json": JSON.stringify({ name: "app" }), "src/index.ts": "" });
+        assert.deepStrictEqual(await detectWorkspacePackages(rootDir), []);
+    });
+
+    test("npm workspaces expand member globs and keep dependencies on other members", async () => {
+        await writeFiles(rootDir, {
+            "package.json": JSON.stringify({ workspaces: ["packages/*", "!packages/legacy"] }),
+            "packages/web/package.json": JSON.stringify({
+                name: "@shop/web",
+                dependencies: { "@shop/core": "workspace:*", react: "^18" },
+                devDependencies: { "@shop/testing": "workspace:*" },
+            }),
+            "packages/core/package.json": JSON.stringify({ name: "@shop/core" }),
+            "packages/legacy/package.json": JSON.stringify({ name: "@shop/legacy" }),
+            "packages/web/node_modules/react/package.json": JSON.stringify({ name: "react" }),
+        });
+
+        assert.deepStrictEqual(await detectWorkspacePackages(rootDir), [
+            { name: "@shop/core", dir: "packages/core", kind: "npm", dependencies: [] },
+            { name: "@shop/web", dir: "packages/web", kind: "npm", dependencies: ["@shop/core"] },
+        ]);
+    });
+
+    test("pnpm workspaces and yarn's packages object are read", async () => {
+        await writeFiles(rootDir, {
+            "pnpm-workspace.yaml": "packages:\n  - 'apps/*'\n",
+            "package.json": JSON.stringify({ workspaces: { packages: ["libs/*"] } }),
+            "apps/site/package.json": JSON.stringify({ name: "site", dependencies: { ui: "1.0.0" } }),
+            "libs/ui/package.json": JSON.stringify({ name: "ui" }),
+        });
+
+        assert.deepStrictEqual(await detectWorkspacePackages(rootDir), [
+            { name: "site", dir: "apps/site", kind: "npm", dependencies: ["ui"] },
+            { name: "ui", dir: "libs/ui", kind: "npm", dependencies: [] },
+        ]);
+    });
+
+    test("Go workspaces and Cargo workspaces are read", async () => {
+        await writeFiles(rootDir, {
+            "go.work": "go 1.22\n\nuse (\n\t./api // the server\n\t./shared\n)\n",
+            "api/go.mod":
+                "module example.com/api\n\nrequire (\n\texample.com/shared v0.0.0\n\tgithub.com/go-chi/chi v5\n)\n",
+            "shared/go.mod": "module example.com/shared\n",
+            "Cargo.toml": '[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/scratch"]\n',
+            "crates/cli/Cargo.toml":
+                '[package]\nname = "cli"\n\n[dependencies]\nparser = { path = "../parser" }\nserde = "1"\n',
+            "crates/parser/Cargo.toml": '[package]\nname = "parser"\n',
+            "crates/scratch/Cargo.toml": '[package]\nname = "scratch"\n',
+        });
+
+        assert.deepStrictEqual(await detectWorkspacePackages(rootDir), [
+            { name: "example.com/api", dir: "api", kind: "go", dependencies: ["example.com/shared"] },
+            { name: "cli", dir: "crates/cli", kind: "cargo", dependencies: ["parser"] },
+            { name: "parser", dir: "crates/parser", kind: "cargo", dependencies: [] },
+            { name: "example.com/shared", dir: "shared", kind: "go", dependencies: [] },
+        ]);
+    });
+
+    test("a malformed manifest is skipped instead of failing the detection", async () => {
+        await writeFiles(rootDir, {
+            "pnpm-workspace.yaml": "packages: [\n",
+            "package.json": JSON.stringify({ workspaces: ["packages/*"] }),
+            "packages/good/package.json": JSON.stringify({ name: "good" }),
+            "packages/broken/package.json": '{ "name": "broken",',
+        });
+
+        assert.deepStrictEqual(await detectWorkspacePackages(rootDir), [
+            { name: "good", dir: "packages/good", kind: "npm", dependencies: [] },
+        ]);
+    });
+
+    test("a malformed root package.json leaves the other workspace manifests", async () => {
+        await writeFiles(rootDir, {
+            "package.json": "{ not json",
+            "go.work": "use ./svc\n",
+            "svc/go.mod": "module example.com/svc\n",
+        });
+
+        assert.deepStrictEqual(await detectWorkspacePackages(rootDir), [
+            { name: "example.com/svc", dir: "svc", kind: "go", dependencies: [] },
+        ]);
+    });
+
+    test("nested packages are kept out of the crawl of the package around them", () => {
+        const root = { name: "root", dir: "", kind: "cargo" as const, dependencies: [] };
+        const app = { name: "app", dir: "app", kind: "npm" as const, dependencies: [] };
+        const plugin = { name: "plugin", dir: "app/plugins/a", kind: "npm" as const, dependencies: [] };
+
+        assert.deepStrictEqual(getNestedPackageExcludes(app, [root, app, plugin]), ["plugins/a", "plugins/a/**"]);
+        assert.deepStrictEqual(getNestedPackageExcludes(root, [root, app, plugin]), [
+            "app",
+            "app/**",
+            "app/plugins/a",
+            "app/plugins/a/**",
+        ]);
+    });
+});
@@ -1,5 +1,37 @@
-export interface LLMProvider {
-    apiKey: string;
+/**
+ * Supported LLM backends
+ * - openrouter: the hosted OpenRouter API
+ * - openai-compatible: any endpoint speaking the OpenAI chat completions API (vLLM, LM Studio, gateways)
+ * - ollama: a local Ollama server
+ */
+export type LlmProviderType = "openrouter" | "openai-compatible" | "ollama";
+
+/**
+ * Steps of the flow that call the LLM, each one can use its own model
+ */
+export type LlmStage = "identifyAbstractions" | "analyzeRelationships" | "orderChapters" | "writeChapters";
+
+/**
+ * How LLM requests are served
+ * - live: sent to the provider
+ * - record: sent to the provider, every prompt/response pair is written to the fixture directory
+ * - replay: answered from the fixture directory only, unknown prompts fail
+ */
+export type LlmMode = "live" | "record" | "replay";
+
+/**
+ * Which files are documented
+ * - working-tree: every file in the project directory that isn't ignored
+ * - tracked: the files git tracks, as they are in the working tree
+ * - ref: the files of a commit, branch or tag, read from the repository without checking it out
+ */
+export type CrawlMode = "working-tree" | "tracked" | "ref";
+
+/** Where the LLM cache is kept: the extension's global storage, or the workspace's Wiki output folder */
+export type CacheLocation = "global" | "workspace";
+
+export interface LlmProviderSettings {
+    baseUrl: string;
 }
 
 export interface WikiConfig {
@@ -24,16 +56,114 @@ export interface LlmModel {
     context_length: number;
 }
 
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
 export interface GlobalConfig extends WikiConfig {
     llmApiKey: string;
     llmModel?: string;
+    /** Model overrides per stage, stages without one use `llmModel` */
+    stageModels: Partial<Record<LlmStage, string>>;
+    /** Context window override in tokens, 0 uses the window reported for the model */
+    contextWindowTokens: number;
+    llmProvider: LlmProviderType;
+    llmProviders: Record<LlmProviderType, LlmProviderSettings>;
+    llmMaxRetries: number;
+    llmRetryBaseDelayMs: number;
+    llmMode: LlmMode;
+    /** Fixture directory for record and replay, relative paths are resolved against the project directory */
+    llmFixturesDir: string;
+    nodeMaxRetries: number;
+    nodeRetryWait: number;
+    /** Times an unparsable or invalid structured answer is sent back to the model for repair */
+    maxRepairAttempts: number;
+    /** Ask for confirmation of the estimated cost before calling the LLM */
+    confirmCostEstimate: boolean;
+    /** Spend ceiling of a run in dollars, 0 means no ceiling */
+    maxSpendUsd: number;
+    /** Write chapters concurrently, each one without the text of the chapters before it */
+    parallelChapters: boolean;
+    /** Chapters written at the same time in parallel mode */
+    chapterConcurrency: number;
+    /** Size of the LLM cache above which least recently used entries are evicted, 0 means unbounded */
+    cacheMaxSizeMb: number;
+    /** Age after which LLM cache entries are dropped, 0 means they never expire */
+    cacheTtlDays: number;
+    cacheLocation: CacheLocation;
+    crawlMode: CrawlMode;
+    /** Commit, branch or tag documented in ref mode */
+    gitRef: string;
+    /** Document each workspace package as a Wiki of its own, linked from an index of the monorepo */
+    monorepoMode: boolean;
 }
 
+/**
+ * Settings of a single project, kept separately for each workspace folder
+ */
+export type FolderConfig = WikiConfig & Pick<GlobalConfig, "crawlMode" | "gitRef" | "monorepoMode">;
+
 export interface FileInfo {
     path: string;
     content: string;
 }
 
+/**
+ * Signals a file's importance is judged by
+ */
+export interface FileRankSignals {
+    /** Project files importing the file */
+    importers: number;
+    /** Named as an entry point by a package.json or by convention (main.go, __main__.py) */
+    entryPoint: boolean;
+    /** Recent commits that changed the file */
+    commits: number;
+    lines: number;
+}
+
+/**
+ * Importance of a file, index refers to SharedStore.files
+ */
+export interface FileRank {
+    index: number;
+    path: string;
+    score: number;
+    signals: FileRankSignals;
+}
+
+/**
+ * A file that can be fitted into a prompt, index refers to SharedStore.files
+ */
+export interface PackableFile {
+    index: number;
+    path: string;
+    content: string;
+}
+
+/**
+ * How a file ended up in a prompt
+ * - full: complete content
+ * - outline: declaration lines only
+ * - truncated: beginning of the content
+ */
+export type PackMode = "full" | "outline" | "truncated";
+
+export interface PackedFile extends PackableFile {
+    mode: PackMode;
+}
+
+/**
+ * What had to be cut to fit file content into a prompt (paths per category)
+ */
+export interface PackingReport {
+    budgetTokens: number;
+    usedTokens: number;
+    outlined: string[];
+    truncated: string[];
+    omitted: string[];
+}
+
 export interface SharedStore extends GlobalConfig {
     files: FileInfo[];
     abstractions: Abstraction[];
@@ -41,6 +171,20 @@ export interface SharedStore extends GlobalConfig {
     chapterOrder: number[];
     chapters: string[];
     finalOutputDir?: string | null;
+    /** Directory the Wiki is written to, by default the project name inside outputDir */
+    wikiDir?: string;
+    /** SHA of the commit the documented files come from, undefined outside of a git repository */
+    sourceCommit?: string;
+    /** Every file ranked by importance, most important first */
+    fileRanks?: FileRank[];
+    /** Imports between the files, found by static analysis */
+    importGraph?: import("./services/analysis").ImportGraph;
+    /** Outline of each file's declarations, signatures and doc comments, by file index */
+    fileOutlines?: string[];
+    /** Packing reports of the prompts that didn't fit the context window, keyed by prompt */
+    packingReports?: Record<string, PackingReport>;
+    /** Cost estimate made before the first LLM call */
+    costEstimate?: import("./services/usage").CostEstimate;
 }
 
 export interface ChapterInfo {
@@ -55,22 +199,57 @@ export interface Abstraction {
     files: number[];
 }
 
+/**
+ * An abstraction of the merge pass, made of candidates found in batches of files
+ */
+export interface AbstractionMerge {
+    name: string;
+    description: string;
+    /** Indices of the merged candidates */
+    candidates: number[];
+}
+
 export interface ChapterItem {
     chapterNum: number;
     abstractionIndex: number;
     abstractionDetails: Abstraction;
-    relatedFilesContentMap: Record<string, string>;
+    relatedFiles: PackableFile[];
     projectName: string;
     fullChapterListing: string;
+    /** Chapter listing with the description of each chapter's abstraction */
+    chapterOverview: string;
     chapterFilenames: Record<number, ChapterInfo>;
     prevChapter: ChapterInfo | null;
     nextChapter: ChapterInfo | null;
     language: string;
 }
 
+export interface IdentifyAbstractionsBatch {
+    /** Directories whose files the batch holds */
+    directories: string[];
+    context: string;
+    fileListingForPrompt: string;
+    /** Global indices of the batch's files */
+    fileIndices: number[];
+}
+
+/**
+ * Abstraction identification of a codebase too large for one prompt: candidates are identified in
+ * batches of files, then merged
+ */
+export interface HierarchicalIdentification {
+    batches: IdentifyAbstractionsBatch[];
+    /** Path of every file, by global index, to show the files of the candidates */
+    filePaths: string[];
+    /** Tokens left for the candidate listing in a merge prompt */
+    mergeBudgetTokens: number;
+}
+
 export interface IdentifyAbstractionsPrepResult {
     context: string;
     fileListingForPrompt: string;
+    /** Set when the codebase doesn't fit one prompt */
+    hierarchy?: HierarchicalIdentification;
     fileCount: number;
     projectName: string;
     language: string;
@@ -84,6 +263,8 @@ export interface Relationship {
     from: number;
     to: number;
     label: string;
+    /** Neither abstraction imports the other, directly or through other files, and they share no file */
+    unverified?: boolean;
 }
 
 export interface RelationshipsResult {
@@ -122,7 +303,30 @@ export interface NodeParams {
     context?: import("vscode").ExtensionContext;
     llmApiKey?: string;
     llmModel?: string;
+    stageModels?: Partial<Record<LlmStage, string>>;
+    llmProvider?: LlmProviderType;
+    llmProviders?: Record<LlmProviderType, LlmProviderSettings>;
+    llmMaxRetries?: number;
+    llmRetryBaseDelayMs?: number;
+    llmMode?: LlmMode;
+    llmFixturesDir?: string;
+    maxRepairAttempts?: number;
+    chapterConcurrency?: number;
+    /** Details of the models used in this run, keyed by model ID */
+    llmModels?: Record<string, LlmModel>;
+    contextWindowTokens?: number;
+    /** Aborted when the user cancels the run */
+    signal?: AbortSignal;
+    /** Show a status message in the progress notification of the run */
+    reportProgress?: (message: string) => void;
+    /** Records the spend of the run and enforces the spend ceiling */
+    usageTracker?: import("./services/usage").UsageTracker;
+    /** Ask the user to confirm a cost estimate, resolves to false if the run should not go ahead */
+    confirmCost?: (estimate: import("./services/usage").CostEstimate) => Promise<boolean>;
     useCache?: boolean;
     language?: string;
     maxAbstractionNum?: number;
+    localDir?: string;
+    /** Cache directory inside the workspace, unset when the cache lives in global storage */
+    workspaceCacheDir?: string;
 }
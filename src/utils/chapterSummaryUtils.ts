@@ -0,0 +1,135 @@
+/**
+ * Utility functions for condensing written chapters into short summaries for later chapter prompts
+ */
+import { ChapterInfo } from "../types";
+import { estimateTokens } from "./tokenUtils";
+
+const MAX_OVERVIEW_LENGTH = 300;
+const MAX_SECTIONS = 8;
+const MAX_KEY_TERMS = 12;
+const MAX_KEY_TERM_LENGTH = 40;
+const CODE_BLOCK_PATTERN = /^(```|~~~)[\s\S]*?^\1/gm;
+const SECTION_PATTERN = /^#{2,3}\s+(.+?)\s*#*\s*$/gm;
+const KEY_TERM_PATTERN = /\*\*([^*\n]+)\*\*|`([^`\n]+)`/g;
+const CHAPTER_LINK_PATTERN = /\[([^\]\n]+)\]\(([^)\s]+\.md)\)/g;
+
+/**
+ * What a later chapter needs to know about a written chapter
+ */
+export interface ChapterSummary {
+    chapter: ChapterInfo;
+    /** Opening of the chapter, cut at a sentence end */
+    overview: string;
+    sections: string[];
+    /** Bold and inline code terms the chapter introduced */
+    keyTerms: string[];
+    /** Links to other chapters */
+    links: string[];
+}
+
+/**
+ * Collect the distinct, non-empty values of a list, keeping the first `limit`
+ */
+function distinct(values: string[], limit: number): string[] {
+    return [...new Set(values.map(value => value.trim()).filter(Boolean))].slice(0, limit);
+}
+
+/**
+ * Get the first paragraph of prose, shortened to whole sentences
+ * @param markdown Chapter Markdown without code blocks
+ * @returns Opening of the chapter, empty if there is no prose
+ */
+function extractOverview(markdown: string): string {
+    const paragraph = markdown
+        .split(/\n\s*\n/)
+        .map(block => block.trim())
+        .find(block => block && !/^(#|>|[-*+] |\d+\. |\||<)/.test(block));
+    if (!paragraph) {
+        return "";
+    }
+
+    const text = paragraph.replace(/\s+/g, " ");
+    if (text.length <= MAX_OVERVIEW_LENGTH) {
+        return text;
+    }
+    const cut = text.slice(0, MAX_OVERVIEW_LENGTH);
+    const sentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("。"));
+    return sentenceEnd > 0 ? cut.slice(0, sentenceEnd + 1) : `${cut.trimEnd()}...`;
+}
+
+/**
+ * Condense a written chapter into its overview, sections, key terms and chapter links
+ * @param markdown Chapter Markdown
+ * @param chapter Number, name and filename of the chapter
+ * @returns Chapter summary
+ */
+export function summarizeChapter(markdown: string, chapter: ChapterInfo): ChapterSummary {
+    const prose = markdown.replace(CODE_BLOCK_PATTERN, "");
+
+    const sections = [...prose.matchAll(SECTION_PATTERN)].map(match => match[1]);
+    const keyTerms = [...prose.matchAll(KEY_TERM_PATTERN)]
+        .map(match => match[1] ?? match[2])
+        .filter(term => term.length <= MAX_KEY_TERM_LENGTH);
+    const links = [...prose.matchAll(CHAPTER_LINK_PATTERN)]
+        .filter(match => match[2] !== chapter.filename)
+        .map(match => `[${match[1]}](${match[2]})`);
+
+    return {
+        chapter,
+        overview: extractOverview(prose.replace(/^#\s.*$/m, "")),
+        sections: distinct(sections, MAX_SECTIONS),
+        keyTerms: distinct(keyTerms, MAX_KEY_TERMS),
+        links: distinct(links, Number.MAX_SAFE_INTEGER),
+    };
+}
+
+/**
+ * Format a chapter summary for a prompt
+ * @param summary Chapter summary
+ * @returns Markdown block describing the chapter
+ */
+export function formatChapterSummary({ chapter, overview, sections, keyTerms, links }: ChapterSummary): string {
+    const lines = [`Chapter ${chapter.num}: [${chapter.name}](${chapter.filename})`];
+    if (overview) {
+        lines.push(`- Overview: ${overview}`);
+    }
+    if (sections.length > 0) {
+        lines.push(`- Sections: ${sections.join("; ")}`);
+    }
+    if (keyTerms.length > 0) {
+        lines.push(`- Key terms introduced: ${keyTerms.join(", ")}`);
+    }
+    if (links.length > 0) {
+        lines.push(`- Links to: ${links.join(", ")}`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Format the summaries of earlier chapters within a token budget
+ * The most recent chapters matter most for transitions, so the oldest summaries are dropped first
+ * @param summaries Chapter summaries in chapter order
+ * @param maxTokens Token budget
+ * @returns Formatted summaries, empty if there are none
+ */
+export function formatChapterSummaries(summaries: ChapterSummary[], maxTokens: number): string {
+    const kept: string[] = [];
+    let usedTokens = 0;
+    for (let i = summaries.length - 1; i >= 0; i--) {
+        const formatted = formatChapterSummary(summaries[i]);
+        const tokens = estimateTokens(formatted) + 1;
+        if (usedTokens + tokens > maxTokens) {
+            break;
+        }
+        kept.unshift(formatted);
+        usedTokens += tokens;
+    }
+
+    const omitted = summaries.length - kept.length;
+    if (omitted > 0) {
+        kept.unshift(
+            `(Summaries of chapters ${summaries[0].chapter.num} to ${summaries[omitted - 1].chapter.num} omitted for length)`,
+        );
+    }
+    return kept.join("\n\n");
+}
@@ -1,17 +1,87 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { OUTPUT_DIR } from "../constants";
-import { FileInfo } from "../types";
+import { FileInfo, WikiConfig } from "../types";
 
 /**
- * Get wiki page path
+ * Get the directory a project's Wiki is written to
+ * A relative output directory is inside the project directory
+ * @param config Project settings
+ * @throws Error if no project directory is set
  * @returns Path to the wiki directory
  */
-export function getWikiPath(): string {
-    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+export function getWikiPath(config: Pick<WikiConfig, "localDir" | "outputDir" | "projectName">): string {
+    if (!config.localDir) {
         throw new Error("No workspace open, cannot determine Wiki path");
     }
-    return path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, OUTPUT_DIR);
+    const projectDir = path.resolve(config.localDir);
+    return path.join(path.resolve(projectDir, config.outputDir), config.projectName || path.basename(projectDir));
+}
+
+/**
+ * Stop the current operation if the user cancelled it
+ * @param signal Signal aborted on cancellation
+ * @throws vscode.CancellationError if the signal was aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new vscode.CancellationError();
+    }
+}
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at a time
+ * @param items Items to map
+ * @param concurrency Maximum number of calls in flight, at least 1
+ * @param fn Async function applied to each item
+ * @returns Results in the order of the items, regardless of completion order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    const workerCount = Math.min(items.length, Math.max(1, Math.floor(concurrency) || 1));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
+
+/**
+ * Create a limiter that runs at most `concurrency` async tasks at a time, queueing the rest
+ * Unlike mapWithConcurrency it can be shared by tasks started at different times, e.g. during a recursive walk
+ * @param concurrency Maximum number of tasks in flight, at least 1
+ * @returns Function running a task once a slot is free
+ */
+export function createConcurrencyLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+    const maxActive = Math.max(1, Math.floor(concurrency) || 1);
+    const queue: (() => void)[] = [];
+    let active = 0;
+
+    return async <T>(task: () => Promise<T>): Promise<T> => {
+        if (active >= maxActive) {
+            // The finishing task hands its slot over, so the count stays the same
+            await new Promise<void>(resolve => queue.push(resolve));
+        } else {
+            active++;
+        }
+        try {
+            return await task();
+        } finally {
+            const next = queue.shift();
+            if (next) {
+                next();
+            } else {
+                active--;
+            }
+        }
+    };
 }
 
 /**
@@ -0,0 +1,147 @@
+/**
+ * Utility functions for telling text from binary files, decoding text in its encoding and spotting generated code
+ */
+
+// Bytes looked at to classify a file, git uses the same amount
+const SAMPLE_BYTES = 8000;
+// Share of control characters above which a file without NUL bytes is still treated as binary
+const MAX_CONTROL_CHAR_RATIO = 0.1;
+// Share of NUL bytes in every other position that marks UTF-16 text without a byte order mark
+const MIN_UTF16_NUL_RATIO = 0.4;
+// Minified code has extremely long lines, or long lines on average
+const MAX_LINE_LENGTH = 5000;
+const MAX_AVERAGE_LINE_LENGTH = 250;
+// Generated code announces itself in its first lines
+const GENERATED_HEADER_LINES = 20;
+const GENERATED_MARKER_PATTERN = /@generated\b|\bCode generated\b.*\bDO NOT EDIT\b|<auto-generated\b/i;
+
+/**
+ * Encoding a text file was decoded from
+ */
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "latin1";
+
+export interface DecodedText {
+    text: string;
+    encoding: TextEncoding;
+}
+
+/**
+ * Why a text file is not hand-written source code
+ */
+export type GeneratedKind = "minified" | "generated";
+
+const UTF8_DECODER = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Decode UTF-16 big endian, which Node has no decoder for, by swapping each byte pair
+ * @param bytes UTF-16BE bytes without byte order mark
+ * @returns Decoded text
+ */
+function decodeUtf16be(bytes: Buffer): string {
+    const swapped = Buffer.from(bytes.subarray(0, bytes.length - (bytes.length % 2)));
+    return swapped.swap16().toString("utf16le");
+}
+
+/**
+ * Guess the byte order of UTF-16 text without a byte order mark from where its NUL bytes are
+ * ASCII characters in UTF-16 have a NUL high byte, so one of the two positions is mostly NUL
+ * @param sample Start of the file
+ * @returns Likely UTF-16 byte order, null if the sample doesn't look like UTF-16
+ */
+function detectUtf16(sample: Buffer): "utf-16le" | "utf-16be" | null {
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs === 0) {
+        return null;
+    }
+    let evenNuls = 0;
+    let oddNuls = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+        evenNuls += sample[i] === 0 ? 1 : 0;
+        oddNuls += sample[i + 1] === 0 ? 1 : 0;
+    }
+    if (oddNuls / pairs >= MIN_UTF16_NUL_RATIO && evenNuls === 0) {
+        return "utf-16le";
+    }
+    if (evenNuls / pairs >= MIN_UTF16_NUL_RATIO && oddNuls === 0) {
+        return "utf-16be";
+    }
+    return null;
+}
+
+/**
+ * Check whether a sample looks like binary data: it contains a NUL byte or many control characters
+ * @param sample Start of the file
+ * @returns Whether the file is likely binary
+ */
+function looksBinary(sample: Buffer): boolean {
+    if (sample.includes(0)) {
+        return true;
+    }
+    let controlChars = 0;
+    for (const byte of sample) {
+        // Tab, line feed, form feed, carriage return and escape occur in text files
+        if ((byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) || byte === 0x7f) {
+            controlChars++;
+        }
+    }
+    return sample.length > 0 && controlChars / sample.length > MAX_CONTROL_CHAR_RATIO;
+}
+
+/**
+ * Decode a file's bytes as text, detecting its encoding
+ * A byte order mark decides the encoding, otherwise UTF-16 is recognized by its NUL bytes,
+ * valid UTF-8 is read as UTF-8 and anything else as Latin-1
+ * @param bytes File content
+ * @returns Decoded text without byte order mark, null if the file is binary
+ */
+export function decodeText(bytes: Buffer): DecodedText | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return { text: bytes.subarray(3).toString("utf-8"), encoding: "utf-8" };
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+        return { text: bytes.subarray(2).toString("utf16le"), encoding: "utf-16le" };
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+        return { text: decodeUtf16be(bytes.subarray(2)), encoding: "utf-16be" };
+    }
+
+    const sample = bytes.subarray(0, SAMPLE_BYTES);
+    const utf16 = detectUtf16(sample);
+    if (utf16) {
+        return { text: utf16 === "utf-16le" ? bytes.toString("utf16le") : decodeUtf16be(bytes), encoding: utf16 };
+    }
+    if (looksBinary(sample)) {
+        return null;
+    }
+
+    try {
+        return { text: UTF8_DECODER.decode(bytes), encoding: "utf-8" };
+    } catch {
+        return { text: bytes.toString("latin1"), encoding: "latin1" };
+    }
+}
+
+/**
+ * Detect minified or generated code, which only wastes prompt space
+ * @param text File content
+ * @returns Kind of machine-written file, null if it looks hand-written
+ */
+export function detectGenerated(text: string): GeneratedKind | null {
+    const lines = text.split("\n");
+    if (lines.slice(0, GENERATED_HEADER_LINES).some(line => GENERATED_MARKER_PATTERN.test(line))) {
+        return "generated";
+    }
+
+    const nonEmptyLines = lines.filter(line => line.trim());
+    if (nonEmptyLines.length === 0) {
+        return null;
+    }
+    const totalLength = nonEmptyLines.reduce((sum, line) => sum + line.length, 0);
+    if (
+        nonEmptyLines.some(line => line.length > MAX_LINE_LENGTH) ||
+        totalLength / nonEmptyLines.length > MAX_AVERAGE_LINE_LENGTH
+    ) {
+        return "minified";
+    }
+    return null;
+}
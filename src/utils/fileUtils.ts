@@ -1,6 +1,13 @@
-import { FileInfo } from "../types";
+import { FileInfo, PackableFile, PackedFile, PackMode } from "../types";
 import { getContentForIndices } from "../utils";
 
+// Header notes for files that were shortened to fit the context window
+const PACK_MODE_NOTES: Record<PackMode, string> = {
+    full: "",
+    outline: " (outline only)",
+    truncated: " (truncated)",
+};
+
 /**
  * Format file content for LLM prompts
  * @param filesData Array of file information
@@ -27,6 +34,47 @@ export function formatContentMap(contentMap: Record<string, string>): string {
         .join("\n\n");
 }
 
+/**
+ * Get files for specific indices in a form the prompt packer accepts
+ * @param filesData Array of file information
+ * @param indices Array of file indices to include, in priority order
+ * @returns Packable files, invalid indices are skipped
+ */
+export function getPackableFiles(filesData: FileInfo[], indices: number[]): PackableFile[] {
+    return indices
+        .filter(i => i >= 0 && i < filesData.length)
+        .map(i => ({ index: i, path: filesData[i].path, content: filesData[i].content }));
+}
+
+/**
+ * Get the outlines of files for specific indices in a form the prompt packer accepts
+ * @param filesData Array of file information
+ * @param outlines Outline of each file, by file index
+ * @param indices Array of file indices to include, in priority order
+ * @returns Packable outlines, invalid indices are skipped
+ */
+export function getPackableOutlines(filesData: FileInfo[], outlines: string[], indices: number[]): PackableFile[] {
+    return getPackableFiles(filesData, indices).map(file => ({ ...file, content: outlines[file.index] }));
+}
+
+/**
+ * Get the header note marking how a file was shortened to fit a prompt
+ * @param mode How the file was packed
+ * @returns Note to append to the file header, empty for full content
+ */
+export function getPackModeNote(mode: PackMode): string {
+    return PACK_MODE_NOTES[mode];
+}
+
+/**
+ * Format packed files for LLM prompts, marking content that was shortened
+ * @param files Packed files
+ * @returns Formatted string with file content
+ */
+export function formatPackedFiles(files: PackedFile[]): string {
+    return files.map(file => `--- File: ${file.path}${PACK_MODE_NOTES[file.mode]} ---\n${file.content}`).join("\n\n");
+}
+
 /**
  * Format abstraction listing for LLM prompts
  * @param abstractions Array of abstractions with indices and either name or path
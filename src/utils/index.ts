@@ -2,3 +2,8 @@ export * from "./languageUtils";
 export * from "./fileUtils";
 export * from "./commonUtils";
 export * from "./secretsManager";
+export * from "./retryUtils";
+export * from "./tokenUtils";
+export * from "./chapterSummaryUtils";
+export * from "./lockUtils";
+export * from "./encodingUtils";
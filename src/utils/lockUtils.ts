@@ -0,0 +1,64 @@
+/**
+ * Utility functions for locking files across processes (e.g. two VS Code windows)
+ */
+import * as fs from "fs/promises";
+import { sleep } from "./retryUtils";
+
+const LOCK_RETRY_DELAY_MS = 50;
+
+export interface FileLockOptions {
+    /** Give up waiting for the lock after this long */
+    timeoutMs?: number;
+    /** A lock older than this is considered left behind by a crashed process and taken over */
+    staleMs?: number;
+}
+
+/**
+ * Run a function while holding an exclusive lock file
+ * The lock file is created atomically, so only one process can hold it at a time
+ * @param lockPath Path of the lock file
+ * @param fn Function to run while holding the lock
+ * @param options Wait timeout and stale lock age
+ * @returns Result of the function
+ * @throws Error if the lock could not be acquired in time
+ */
+export async function withFileLock<T>(
+    lockPath: string,
+    fn: () => Promise<T>,
+    { timeoutMs = 10_000, staleMs = 60_000 }: FileLockOptions = {},
+): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        try {
+            await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }), { flag: "wx" });
+            break;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                throw error;
+            }
+        }
+
+        try {
+            const { mtimeMs } = await fs.stat(lockPath);
+            if (Date.now() - mtimeMs > staleMs) {
+                console.warn("WARNING", `Removing stale lock ${lockPath}`);
+                await fs.rm(lockPath, { force: true });
+                continue;
+            }
+        } catch {
+            // Released in the meantime, try again right away
+            continue;
+        }
+
+        if (Date.now() >= deadline) {
+            throw new Error(`Timed out waiting for lock ${lockPath}`);
+        }
+        await sleep(LOCK_RETRY_DELAY_MS);
+    }
+
+    try {
+        return await fn();
+    } finally {
+        await fs.rm(lockPath, { force: true });
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Utility functions for retrying failed operations
+ */
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms Milliseconds to wait
+ * @param signal Optional signal that ends the wait early when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Compute the delay before the next attempt using exponential backoff with full jitter
+ * @param attempt Number of the retry that is about to happen, starting at 1
+ * @param baseDelayMs Delay of the first retry before jitter
+ * @param maxDelayMs Upper bound of the delay
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+    // Full jitter spreads retries of parallel callers so they don't hit the rate limit together again
+    return Math.round(Math.random() * exponential);
+}
+
+/**
+ * Parse a Retry-After header value
+ * @param value Header value, either delay seconds or an HTTP date
+ * @returns Delay in milliseconds or undefined if the value can't be parsed
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
@@ -1,10 +1,22 @@
 import * as vscode from "vscode";
+import { LlmProviderType } from "../types";
 
 /**
  * Key used to store the API key in the secrets storage
+ * OpenRouter keeps the original key so existing installs don't lose their key,
+ * other providers get a suffixed key of their own
  */
 const API_KEY_SECRET_KEY = "agentic-wiki.llmApiKey";
 
+/**
+ * Get the secrets storage key for a provider's API key
+ * @param provider Provider type
+ * @returns Secrets storage key
+ */
+function getApiKeySecretKey(provider: LlmProviderType): string {
+    return provider === "openrouter" ? API_KEY_SECRET_KEY : `${API_KEY_SECRET_KEY}.${provider}`;
+}
+
 /**
  * Manages secure storage of sensitive information like API keys
  */
@@ -18,18 +30,20 @@ export class SecretsManager {
     /**
      * Store the API key securely
      * @param apiKey The API key to store
+     * @param provider Provider the key belongs to
      */
-    async storeApiKey(apiKey: string): Promise<void> {
-        await this.context.secrets.store(API_KEY_SECRET_KEY, apiKey);
+    async storeApiKey(apiKey: string, provider: LlmProviderType = "openrouter"): Promise<void> {
+        await this.context.secrets.store(getApiKeySecretKey(provider), apiKey);
     }
 
     /**
      * Retrieve the API key from secure storage
+     * @param provider Provider the key belongs to
      * @returns The API key or empty string if not found
      */
-    async getApiKey(): Promise<string> {
+    async getApiKey(provider: LlmProviderType = "openrouter"): Promise<string> {
         try {
-            return (await this.context.secrets.get(API_KEY_SECRET_KEY)) || "";
+            return (await this.context.secrets.get(getApiKeySecretKey(provider))) || "";
         } catch (error) {
             console.error("Error retrieving API key from secure storage:", error);
             return "";
@@ -38,8 +52,9 @@ export class SecretsManager {
 
     /**
      * Delete the API key from secure storage
+     * @param provider Provider the key belongs to
      */
-    async deleteApiKey(): Promise<void> {
-        await this.context.secrets.delete(API_KEY_SECRET_KEY);
+    async deleteApiKey(provider: LlmProviderType = "openrouter"): Promise<void> {
+        await this.context.secrets.delete(getApiKeySecretKey(provider));
     }
 }
@@ -0,0 +1,156 @@
+/**
+ * Utility functions for estimating prompt sizes and fitting file content into a model's context window
+ */
+import { PackableFile, PackedFile, PackingReport } from "../types";
+
+// Characters per token for Latin scripts and code, a conservative average across tokenizers
+const CHARS_PER_TOKEN = 4;
+// CJK characters are roughly one token each
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+// Don't bother sending a truncated file with less room than this
+const MIN_TRUNCATED_TOKENS = 200;
+// Lines kept when outlining a file: declarations, imports and top level statements
+const OUTLINE_LINE_PATTERN =
+    /^\s*(export|import|from|package|module|public|protected|private|internal|abstract|static|class|interface|type|enum|struct|trait|impl|fn|func|function|def|async\s+def|async\s+function|const\s+\w+\s*=\s*\(|@\w+)\b/;
+
+/**
+ * Estimate the number of tokens of a text without a tokenizer
+ * @param text Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+    const cjkCount = (text.match(CJK_PATTERN) || []).length;
+    return cjkCount + Math.ceil((text.length - cjkCount) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut a text down to roughly the given number of tokens
+ * @param text Text to truncate
+ * @param maxTokens Token budget
+ * @param keepEnd Keep the end of the text instead of the beginning
+ * @returns Truncated text, unchanged if it already fits
+ */
+export function truncateToTokens(text: string, maxTokens: number, keepEnd: boolean = false): string {
+    if (estimateTokens(text) <= maxTokens) {
+        return text;
+    }
+    // Shrink proportionally, then trim further if the text is CJK heavy
+    let length = Math.floor((text.length * maxTokens) / estimateTokens(text));
+    let result = keepEnd ? text.slice(text.length - length) : text.slice(0, length);
+    while (length > 0 && estimateTokens(result) > maxTokens) {
+        length = Math.floor(length * 0.9);
+        result = keepEnd ? text.slice(text.length - length) : text.slice(0, length);
+    }
+    return result;
+}
+
+/**
+ * Build a short outline of a file from its declaration lines
+ * @param content File content
+ * @returns Outline, empty if nothing looked like a declaration
+ */
+export function outlineContent(content: string): string {
+    return content
+        .split("\n")
+        .filter(line => OUTLINE_LINE_PATTERN.test(line))
+        .map(line => line.trimEnd())
+        .join("\n");
+}
+
+/**
+ * Compute how many tokens are left for file content in a prompt
+ * @param contextWindow Context window of the model in tokens
+ * @param promptOverhead Tokens used by the rest of the prompt
+ * @param outputReserve Tokens kept free for the answer, capped at a quarter of the window
+ * @returns Token budget for file content, never negative
+ */
+export function getContentBudget(contextWindow: number, promptOverhead: number, outputReserve: number): number {
+    const reserve = Math.min(outputReserve, Math.floor(contextWindow / 4));
+    return Math.max(0, contextWindow - reserve - promptOverhead);
+}
+
+/**
+ * Fit files into a token budget
+ * Files are taken in the given (priority) order. A file is sent in full if it fits, otherwise as an outline,
+ * otherwise truncated, and omitted when there is no room left at all.
+ * @param files Files ordered from most to least important
+ * @param budgetTokens Token budget for all file content
+ * @returns Packed files in index order (omitted files excluded) and a report of what was cut
+ */
+export function packFiles(files: PackableFile[], budgetTokens: number): { files: PackedFile[]; report: PackingReport } {
+    const packed: PackedFile[] = [];
+    const report: PackingReport = {
+        budgetTokens,
+        usedTokens: 0,
+        truncated: [],
+        outlined: [],
+        omitted: [],
+    };
+    let remaining = budgetTokens;
+
+    for (const file of files) {
+        const fullTokens = estimateTokens(file.content);
+        if (fullTokens <= remaining) {
+            packed.push({ ...file, mode: "full" });
+            remaining -= fullTokens;
+            continue;
+        }
+
+        const outline = outlineContent(file.content);
+        const outlineTokens = estimateTokens(outline);
+        if (outline && outlineTokens <= remaining) {
+            packed.push({ ...file, content: outline, mode: "outline" });
+            report.outlined.push(file.path);
+            remaining -= outlineTokens;
+            continue;
+        }
+
+        if (remaining >= MIN_TRUNCATED_TOKENS) {
+            const truncated = truncateToTokens(file.content, remaining);
+            packed.push({ ...file, content: truncated, mode: "truncated" });
+            report.truncated.push(file.path);
+            remaining -= estimateTokens(truncated);
+            continue;
+        }
+
+        report.omitted.push(file.path);
+    }
+
+    report.usedTokens = budgetTokens - remaining;
+    return {
+        files: packed.sort((a, b) => a.index - b.index),
+        report,
+    };
+}
+
+/**
+ * Check whether any file had to be shortened or left out
+ * @param report Packing report
+ * @returns True if the prompt doesn't contain every file in full
+ */
+export function hasPackingCuts(report: PackingReport): boolean {
+    return report.outlined.length + report.truncated.length + report.omitted.length > 0;
+}
+
+/**
+ * Describe a packing report in one line for logs
+ * @param label Prompt the report belongs to
+ * @param report Packing report
+ * @returns Summary line
+ */
+export function describePackingReport(label: string, report: PackingReport): string {
+    const parts = [`${label}: ${report.usedTokens}/${report.budgetTokens} tokens of file content`];
+    if (report.outlined.length > 0) {
+        parts.push(`${report.outlined.length} outlined (${report.outlined.join(", ")})`);
+    }
+    if (report.truncated.length > 0) {
+        parts.push(`${report.truncated.length} truncated (${report.truncated.join(", ")})`);
+    }
+    if (report.omitted.length > 0) {
+        parts.push(`${report.omitted.length} omitted (${report.omitted.join(", ")})`);
+    }
+    return parts.join("; ");
+}